@@ -1,52 +1,67 @@
 import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import SummarySourceView from '@/components/SummarySourceView';
 import { useMutation } from '@tanstack/react-query';
-import { SummarizationRequest, SummarizationResponse } from '@shared/schema';
+import { SummarizationMethod, SummarizationRequest, SummarizationResponse, SummaryProgress } from '@shared/schema';
+import { summarizeTextWithProgress } from '@/lib/api';
 import { Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 
+const METHOD_LABELS: Record<SummarizationMethod, string> = {
+  enhanced_tfidf: 'Enhanced TF-IDF',
+  textrank: 'TextRank',
+  lexrank: 'LexRank',
+  abstractive: 'Abstractive'
+};
+
 interface EnhancedSummarizationProps {
   showProcessing: (title: string, message?: string) => void;
   hideProcessing: () => void;
 }
 
-async function summarizeText(request: SummarizationRequest): Promise<SummarizationResponse> {
-  const response = await fetch('/api/summarize', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(request)
-  });
-  
-  if (!response.ok) {
-    throw new Error('Failed to summarize text');
-  }
-  
-  return response.json();
-}
-
 export default function EnhancedSummarization({ showProcessing, hideProcessing }: EnhancedSummarizationProps) {
   const [inputText, setInputText] = useState('');
   const [summaryLength, setSummaryLength] = useState<'short' | 'medium' | 'long'>('medium');
   const [summaryStyle, setSummaryStyle] = useState<'informative' | 'bullet_points' | 'simplified'>('informative');
+  const [summaryMethod, setSummaryMethod] = useState<SummarizationMethod>('enhanced_tfidf');
+  const [focusQuery, setFocusQuery] = useState('');
+  // Rewording is on for informative summaries unless turned off
+  const [paraphrase, setParaphrase] = useState(true);
+  const [budgetUnit, setBudgetUnit] = useState<'none' | 'maxWords' | 'maxSentences' | 'maxCharacters'>('none');
+  const [budgetValue, setBudgetValue] = useState('');
   const [showAdvancedOptions, setShowAdvancedOptions] = useState(false);
+  const [progress, setProgress] = useState<SummaryProgress | null>(null);
+  // The text and style the current result was produced from, for tracing sentences back
+  const [summarizedText, setSummarizedText] = useState('');
+  const [summarizedStyle, setSummarizedStyle] = useState(summaryStyle);
   const { toast } = useToast();
 
   const summarizeMutation = useMutation({
-    mutationFn: (request: SummarizationRequest) => summarizeText(request),
+    mutationFn: (request: SummarizationRequest) => summarizeTextWithProgress(request, setProgress),
     onMutate: () => {
-      showProcessing('Summarizing Text', 'Applying advanced TF-IDF techniques...');
+      setProgress(null);
+      showProcessing('Summarizing Text', summaryMethod === 'enhanced_tfidf'
+        ? 'Applying advanced TF-IDF techniques...'
+        : summaryMethod === 'abstractive'
+          ? 'Asking the language model for a summary...'
+          : 'Ranking sentences in the similarity graph...');
     },
     onSuccess: (data: SummarizationResponse) => {
       hideProcessing();
+      setProgress(null);
     },
     onError: (error: Error) => {
       hideProcessing();
+      setProgress(null);
       toast({
         title: 'Summarization failed',
         description: error.message,
@@ -66,10 +81,16 @@ export default function EnhancedSummarization({ showProcessing, hideProcessing }
       return;
     }
 
+    setSummarizedText(inputText);
+    setSummarizedStyle(summaryStyle);
     summarizeMutation.mutate({
       text: inputText,
       length: summaryLength,
-      style: summaryStyle
+      style: summaryStyle,
+      method: summaryMethod,
+      query: focusQuery.trim() || undefined,
+      paraphrase,
+      ...(budgetUnit !== 'none' && parseInt(budgetValue) > 0 ? { [budgetUnit]: parseInt(budgetValue) } : {})
     });
   };
 
@@ -95,6 +116,16 @@ export default function EnhancedSummarization({ showProcessing, hideProcessing }
               />
             </div>
             
+            <div className="space-y-2">
+              <Label htmlFor="focus-query">Focus on…</Label>
+              <Input
+                id="focus-query"
+                placeholder="Optional question or topic, e.g. what does this contract say about termination?"
+                value={focusQuery}
+                onChange={(e) => setFocusQuery(e.target.value)}
+              />
+            </div>
+            
             <div className="flex items-center space-x-2">
               <Switch
                 id="advanced-options"
@@ -106,9 +137,10 @@ export default function EnhancedSummarization({ showProcessing, hideProcessing }
             
             {showAdvancedOptions && (
               <Tabs defaultValue="length" className="w-full">
-                <TabsList className="grid w-full grid-cols-2">
+                <TabsList className="grid w-full grid-cols-3">
                   <TabsTrigger value="length">Summary Length</TabsTrigger>
                   <TabsTrigger value="style">Summary Style</TabsTrigger>
+                  <TabsTrigger value="method">Method</TabsTrigger>
                 </TabsList>
                 <TabsContent value="length" className="space-y-2">
                   <RadioGroup 
@@ -129,12 +161,45 @@ export default function EnhancedSummarization({ showProcessing, hideProcessing }
                       <Label htmlFor="long">Long (detailed summary)</Label>
                     </div>
                   </RadioGroup>
+                  <div className="flex items-end gap-2 pt-2">
+                    <div className="space-y-1">
+                      <Label>Exact limit</Label>
+                      <Select value={budgetUnit} onValueChange={(value) => setBudgetUnit(value as typeof budgetUnit)}>
+                        <SelectTrigger className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">None</SelectItem>
+                          <SelectItem value="maxWords">Words</SelectItem>
+                          <SelectItem value="maxSentences">Sentences</SelectItem>
+                          <SelectItem value="maxCharacters">Characters</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Input
+                      type="number"
+                      min={1}
+                      className="w-32"
+                      placeholder="e.g. 160"
+                      value={budgetValue}
+                      onChange={(e) => setBudgetValue(e.target.value)}
+                      disabled={budgetUnit === 'none'}
+                    />
+                  </div>
+                  {budgetUnit !== 'none' && (
+                    <div className="text-xs text-muted-foreground">
+                      The limit is never exceeded and replaces the length above.
+                    </div>
+                  )}
                 </TabsContent>
                 <TabsContent value="style" className="space-y-2">
                   <RadioGroup 
                     defaultValue="informative" 
                     value={summaryStyle}
-                    onValueChange={(value) => setSummaryStyle(value as 'informative' | 'bullet_points' | 'simplified')}
+                    onValueChange={(value) => {
+                      setSummaryStyle(value as 'informative' | 'bullet_points' | 'simplified');
+                      setParaphrase(value === 'informative');
+                    }}
                   >
                     <div className="flex items-center space-x-2">
                       <RadioGroupItem value="informative" id="informative" />
@@ -149,6 +214,38 @@ export default function EnhancedSummarization({ showProcessing, hideProcessing }
                       <Label htmlFor="simplified">Simplified (easier reading)</Label>
                     </div>
                   </RadioGroup>
+                  <div className="flex items-center space-x-2 pt-2">
+                    <Switch
+                      id="paraphrase"
+                      checked={paraphrase}
+                      onCheckedChange={setParaphrase}
+                      disabled={summaryMethod === 'abstractive'}
+                    />
+                    <Label htmlFor="paraphrase">Reword sentences (synonyms, clause order, active/passive voice)</Label>
+                  </div>
+                </TabsContent>
+                <TabsContent value="method" className="space-y-2">
+                  <RadioGroup 
+                    value={summaryMethod}
+                    onValueChange={(value) => setSummaryMethod(value as SummarizationMethod)}
+                  >
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="enhanced_tfidf" id="enhanced_tfidf" />
+                      <Label htmlFor="enhanced_tfidf">Enhanced TF-IDF (keywords and position)</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="textrank" id="textrank" />
+                      <Label htmlFor="textrank">TextRank (weighted sentence graph)</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="lexrank" id="lexrank" />
+                      <Label htmlFor="lexrank">LexRank (thresholded IDF-cosine graph)</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="abstractive" id="abstractive" />
+                      <Label htmlFor="abstractive">Abstractive (written by a language model, falls back to TF-IDF)</Label>
+                    </div>
+                  </RadioGroup>
                 </TabsContent>
               </Tabs>
             )}
@@ -169,17 +266,70 @@ export default function EnhancedSummarization({ showProcessing, hideProcessing }
                 'Summarize Text'
               )}
             </Button>
+            {summarizeMutation.isPending && progress && (
+              <div className="mt-3 space-y-1">
+                <Progress value={(progress.completed / progress.total) * 100} />
+                <div className="text-xs text-muted-foreground">
+                  {progress.stage === 'map'
+                    ? `Summarizing chunk ${progress.completed} of ${progress.total} (pass ${progress.level})`
+                    : `Combining the chunk summaries (final pass ${progress.level})`}
+                </div>
+              </div>
+            )}
           </div>
         </form>
         
         {summarizeMutation.isSuccess && (
           <div className="mt-6 space-y-2">
-            <Label>Summary Result</Label>
+            <Label>
+              Summary Result
+              {summarizeMutation.data.method && (
+                <span className="ml-2 text-xs font-normal text-muted-foreground">
+                  ({METHOD_LABELS[summarizeMutation.data.method]}{summarizeMutation.data.model && ` · ${summarizeMutation.data.model}`})
+                </span>
+              )}
+            </Label>
             <Card>
               <CardContent className="pt-4">
-                <div className="whitespace-pre-wrap">
-                  {summarizeMutation.data.summary}
+                {summarizeMutation.data.fallbackReason && (
+                  <div className="mb-3 rounded border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+                    Extractive summary shown instead of an abstractive one. {summarizeMutation.data.fallbackReason}
+                  </div>
+                )}
+                {summarizeMutation.data.sentences ? (
+                  <SummarySourceView
+                    sourceText={summarizedText}
+                    sentences={summarizeMutation.data.sentences}
+                    style={summarizedStyle}
+                  />
+                ) : (
+                  <div className="whitespace-pre-wrap">
+                    {summarizeMutation.data.summary}
+                  </div>
+                )}
+                <div className="mt-3 text-xs text-muted-foreground">
+                  {summarizeMutation.data.summary.length} characters · {summarizeMutation.data.summary.split(/\s+/).filter(word => /\w/.test(word)).length} words
                 </div>
+                {summarizeMutation.data.hierarchy && (
+                  <div className="mt-3 text-xs text-muted-foreground">
+                    Long document: summarized {summarizeMutation.data.hierarchy.chunks} chunks in {summarizeMutation.data.hierarchy.levels} passes
+                  </div>
+                )}
+                {summarizeMutation.data.focus && (
+                  <div className="mt-3 text-xs text-muted-foreground">
+                    {summarizeMutation.data.focus.matchedSentences > 0 ? (
+                      <>
+                        Focused on {summarizeMutation.data.focus.terms.join(', ')}
+                        {summarizeMutation.data.focus.expansionTerms.length > 0 && (
+                          <> (also {summarizeMutation.data.focus.expansionTerms.join(', ')})</>
+                        )}
+                        {' '}· {summarizeMutation.data.focus.matchedSentences} matching sentences
+                      </>
+                    ) : (
+                      <>No sentence mentions {summarizeMutation.data.focus.terms.join(', ')}, so this is a general summary</>
+                    )}
+                  </div>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -9,6 +9,7 @@ export default function FileUpload({ onFileProcessed }: FileUploadProps) {
   const [isDragOver, setIsDragOver] = useState(false);
   const [processOption, setProcessOption] = useState<string>('none');
   const [showOptions, setShowOptions] = useState(false);
+  const [sourceLanguage, setSourceLanguage] = useState('auto');
   const [targetLanguage, setTargetLanguage] = useState('Spanish');
   const [summaryLength, setSummaryLength] = useState<'short' | 'medium' | 'long'>('short');
   
@@ -32,6 +33,7 @@ export default function FileUpload({ onFileProcessed }: FileUploadProps) {
           options.operation = processOption;
           
           if (processOption === 'translation') {
+            options.sourceLanguage = sourceLanguage;
             options.targetLanguage = targetLanguage;
           } else if (processOption === 'summarization') {
             options.summaryLength = summaryLength;
@@ -63,6 +65,7 @@ export default function FileUpload({ onFileProcessed }: FileUploadProps) {
           options.operation = processOption;
           
           if (processOption === 'translation') {
+            options.sourceLanguage = sourceLanguage;
             options.targetLanguage = targetLanguage;
           } else if (processOption === 'summarization') {
             options.summaryLength = summaryLength;
@@ -126,6 +129,15 @@ export default function FileUpload({ onFileProcessed }: FileUploadProps) {
       });
     }
     
+    // Surface anything the server was unsure about, such as an undetectable document language
+    uploadedFile.warnings?.forEach(warning => {
+      toast({
+        title: 'Check the result',
+        description: warning,
+        variant: 'destructive',
+      });
+    });
+    
     reset(); // Reset upload state after processing
   }
   
@@ -169,6 +181,22 @@ export default function FileUpload({ onFileProcessed }: FileUploadProps) {
             
             {processOption === 'translation' && (
               <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Document Language:</label>
+                <select 
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md mb-2"
+                  value={sourceLanguage}
+                  onChange={(e) => setSourceLanguage(e.target.value)}
+                >
+                  <option value="auto">Auto-detect</option>
+                  <option>English</option>
+                  <option>Spanish</option>
+                  <option>French</option>
+                  <option>German</option>
+                  <option>Chinese</option>
+                  <option>Russian</option>
+                  <option>Italian</option>
+                  <option>Portuguese</option>
+                </select>
                 <label className="block text-xs font-medium text-gray-700 mb-1">Target Language:</label>
                 <select 
                   className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md"
@@ -180,6 +208,8 @@ export default function FileUpload({ onFileProcessed }: FileUploadProps) {
                   <option>German</option>
                   <option>Chinese</option>
                   <option>Russian</option>
+                  <option>Italian</option>
+                  <option>Portuguese</option>
                 </select>
               </div>
             )}
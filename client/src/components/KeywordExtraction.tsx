@@ -2,7 +2,9 @@ import { useState, useEffect } from 'react';
 import { useMutation } from '@tanstack/react-query';
 import { extractKeywords } from '@/lib/api';
 import { useToast } from '@/hooks/use-toast';
-import { KeywordExtractionRequest, KeywordExtractionResponse } from '@shared/schema';
+import { KeywordExtractionRequest, KeywordExtractionResponse, KeywordExtractionMethod, TermNormalization } from '@shared/schema';
+
+const LANGUAGES = ['English', 'Spanish', 'French', 'German', 'Chinese', 'Russian', 'Italian', 'Portuguese'];
 
 interface KeywordExtractionProps {
   showProcessing: (title: string, message?: string) => void;
@@ -14,8 +16,11 @@ export default function KeywordExtraction({ showProcessing, hideProcessing, init
   const { toast } = useToast();
   const [inputText, setInputText] = useState(initialText);
   const [keywordCount, setKeywordCount] = useState(10);
-  const [method, setMethod] = useState<'enhanced_tfidf' | 'bert_based' | 'standard_tfidf'>('enhanced_tfidf');
+  const [method, setMethod] = useState<KeywordExtractionMethod>('enhanced_tfidf');
+  const [normalization, setNormalization] = useState<TermNormalization>('none');
+  const [language, setLanguage] = useState('auto');
   const [keywords, setKeywords] = useState<Array<{ keyword: string; score: number }>>([]);
+  const [fallbackReason, setFallbackReason] = useState<string | undefined>();
   const [viewMode, setViewMode] = useState<'cloud' | 'list'>('cloud');
 
   // Update input text when initialText changes
@@ -33,6 +38,7 @@ export default function KeywordExtraction({ showProcessing, hideProcessing, init
     },
     onSuccess: (data: KeywordExtractionResponse) => {
       setKeywords(data.keywords);
+      setFallbackReason(data.fallbackReason);
       hideProcessing();
       toast({
         title: 'Keyword Extraction Complete',
@@ -63,7 +69,9 @@ export default function KeywordExtraction({ showProcessing, hideProcessing, init
     keywordMutation.mutate({
       text: inputText,
       count: keywordCount,
-      method
+      method,
+      normalization,
+      language
     });
   };
 
@@ -170,11 +178,40 @@ export default function KeywordExtraction({ showProcessing, hideProcessing, init
             <select 
               className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary"
               value={method}
-              onChange={(e) => setMethod(e.target.value as 'enhanced_tfidf' | 'bert_based' | 'standard_tfidf')}
+              onChange={(e) => setMethod(e.target.value as KeywordExtractionMethod)}
             >
               <option value="enhanced_tfidf">Enhanced TF-IDF</option>
-              <option value="bert_based">BERT-based</option>
+              <option value="bert_based">Embedding-based (KeyBERT)</option>
               <option value="standard_tfidf">Standard TF-IDF</option>
+              <option value="rake">RAKE</option>
+              <option value="yake">YAKE</option>
+            </select>
+          </div>
+          
+          <div className="flex-1 min-w-[150px]">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Word Variants</label>
+            <select 
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary"
+              value={normalization}
+              onChange={(e) => setNormalization(e.target.value as TermNormalization)}
+            >
+              <option value="none">Keep separate</option>
+              <option value="stem">Merge by stem</option>
+              <option value="lemma">Merge by dictionary form</option>
+            </select>
+          </div>
+          
+          <div className="flex-1 min-w-[150px]">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Text Language</label>
+            <select 
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary"
+              value={language}
+              onChange={(e) => setLanguage(e.target.value)}
+            >
+              <option value="auto">Detect automatically</option>
+              {LANGUAGES.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
             </select>
           </div>
           
@@ -305,6 +342,12 @@ export default function KeywordExtraction({ showProcessing, hideProcessing, init
             </div>
           )}
           
+          {keywords.length > 0 && fallbackReason && (
+            <p className="mt-2 rounded border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+              TF-IDF keywords shown instead of embedding-based ones. {fallbackReason}
+            </p>
+          )}
+          
           <div className="mt-2 text-xs text-gray-500 flex justify-between">
             <span>
               {keywords.length > 0 
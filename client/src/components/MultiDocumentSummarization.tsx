@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import {
+  MultiDocumentSummarizationRequest,
+  MultiDocumentSummarizationResponse,
+  SummarizationMethod
+} from '@shared/schema';
+import { getProcessedFiles, summarizeDocuments } from '@/lib/api';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface MultiDocumentSummarizationProps {
+  showProcessing: (title: string, message?: string) => void;
+  hideProcessing: () => void;
+}
+
+export default function MultiDocumentSummarization({ showProcessing, hideProcessing }: MultiDocumentSummarizationProps) {
+  const [selectedFiles, setSelectedFiles] = useState<number[]>([]);
+  const [summaryLength, setSummaryLength] = useState<'short' | 'medium' | 'long'>('medium');
+  const [summaryMethod, setSummaryMethod] = useState<SummarizationMethod>('enhanced_tfidf');
+  const [focusQuery, setFocusQuery] = useState('');
+  const { toast } = useToast();
+
+  // Refetch whenever the tab opens so newly uploaded files show up
+  const { data: files, isLoading, error } = useQuery({
+    queryKey: ['/api/files'],
+    queryFn: () => getProcessedFiles(),
+    staleTime: 0
+  });
+
+  const summarizeMutation = useMutation({
+    mutationFn: (request: MultiDocumentSummarizationRequest) => summarizeDocuments(request),
+    onMutate: () => {
+      showProcessing('Summarizing Documents', 'Finding statements shared across the documents...');
+    },
+    onSuccess: (data: MultiDocumentSummarizationResponse) => {
+      hideProcessing();
+    },
+    onError: (error: Error) => {
+      hideProcessing();
+      toast({
+        title: 'Summarization failed',
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const toggleFile = (id: number, checked: boolean) => {
+    setSelectedFiles(current => checked ? [...current, id] : current.filter(fileId => fileId !== id));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selectedFiles.length < 2) {
+      toast({
+        title: 'Select more files',
+        description: 'Please select at least two processed files',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    summarizeMutation.mutate({
+      fileIds: selectedFiles,
+      length: summaryLength,
+      method: summaryMethod,
+      query: focusQuery.trim() || undefined
+    });
+  };
+
+  const result = summarizeMutation.data;
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle>Multi-Document Summarization</CardTitle>
+        <CardDescription>
+          Build one briefing from several uploaded files. Statements confirmed by more than one document are preferred, and every sentence names its sources.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Processed Files</Label>
+              {isLoading && <div className="text-sm text-muted-foreground">Loading files...</div>}
+              {error && <div className="text-sm text-red-500">{(error as Error).message}</div>}
+              {files && files.length === 0 && (
+                <div className="text-sm text-muted-foreground">
+                  No processed files yet. Upload PDFs or images from the sidebar first.
+                </div>
+              )}
+              {files && files.length > 0 && (
+                <div className="max-h-64 overflow-y-auto rounded border divide-y">
+                  {files.map(file => (
+                    <div key={file.id} className="flex items-center space-x-2 px-3 py-2">
+                      <Checkbox
+                        id={`file-${file.id}`}
+                        checked={selectedFiles.includes(file.id)}
+                        onCheckedChange={(checked) => toggleFile(file.id, checked === true)}
+                        disabled={file.characters === 0}
+                      />
+                      <Label htmlFor={`file-${file.id}`} className="flex-1 font-normal">
+                        {file.title || file.originalFilename}
+                        <span className="ml-2 text-xs text-muted-foreground">
+                          {file.title && <>{file.originalFilename} · </>}
+                          {file.fileType.toUpperCase()} · {file.characters.toLocaleString()} characters
+                          {file.createdAt && <> · {new Date(file.createdAt).toLocaleDateString()}</>}
+                        </span>
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="multi-focus-query">Focus on…</Label>
+              <Input
+                id="multi-focus-query"
+                placeholder="Optional question or topic"
+                value={focusQuery}
+                onChange={(e) => setFocusQuery(e.target.value)}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Summary Length</Label>
+                <Select value={summaryLength} onValueChange={(value) => setSummaryLength(value as 'short' | 'medium' | 'long')}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="short">Short</SelectItem>
+                    <SelectItem value="medium">Medium</SelectItem>
+                    <SelectItem value="long">Long</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Method</Label>
+                <Select value={summaryMethod} onValueChange={(value) => setSummaryMethod(value as SummarizationMethod)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="enhanced_tfidf">Enhanced TF-IDF</SelectItem>
+                    <SelectItem value="textrank">TextRank</SelectItem>
+                    <SelectItem value="lexrank">LexRank</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+
+          <div className="mt-4">
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={summarizeMutation.isPending || selectedFiles.length < 2}
+            >
+              {summarizeMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Summarizing...
+                </>
+              ) : (
+                `Summarize ${selectedFiles.length} Files`
+              )}
+            </Button>
+          </div>
+        </form>
+
+        {summarizeMutation.isSuccess && result && (
+          <div className="mt-6 space-y-2">
+            <Label>Briefing</Label>
+            <Card>
+              <CardContent className="pt-4 space-y-3">
+                <ul className="space-y-2">
+                  {result.sentences.map((sentence, index) => (
+                    <li key={index}>
+                      {sentence.text}
+                      <span className={`ml-2 text-xs ${sentence.sources.length > 1 ? 'text-green-700' : 'text-muted-foreground'}`}>
+                        [{sentence.sources.map(source => source + 1).join(', ')}]
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                <div className="border-t pt-3 text-xs text-muted-foreground space-y-1">
+                  {result.documents.map((document, index) => (
+                    <div key={index}>
+                      [{index + 1}] {document.title} ({document.sentences} sentences)
+                    </div>
+                  ))}
+                  <div>
+                    {result.sharedStatements} statements appear in more than one document
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
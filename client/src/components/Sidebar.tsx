@@ -72,6 +72,20 @@ export default function Sidebar({ activeTab, setActiveTab, onFileProcessed }: Si
           Advanced Summarization
         </a>
         
+        <a 
+          href="#" 
+          className={`flex items-center px-3 py-2 rounded hover:bg-gray-50 ${activeTab === 'multi_summarization' ? 'tab-active' : ''}`}
+          onClick={(e) => {
+            e.preventDefault();
+            setActiveTab('multi_summarization');
+          }}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+          </svg>
+          Multi-Document Summary
+        </a>
+        
         <a 
           href="#" 
           className={`flex items-center px-3 py-2 rounded hover:bg-gray-50 ${activeTab === 'keywords' ? 'tab-active' : ''}`}
@@ -0,0 +1,94 @@
+import React, { useRef, useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { SummarizationRequest, SummarySentence } from '@shared/schema';
+
+interface SummarySourceViewProps {
+  sourceText: string;
+  sentences: SummarySentence[];
+  style?: SummarizationRequest['style'];
+}
+
+// A summary next to its source text: every summary sentence is highlighted where it
+// was taken from, and clicking either side scrolls the other to the matching sentence.
+export default function SummarySourceView({ sourceText, sentences, style }: SummarySourceViewProps) {
+  const [activeSentence, setActiveSentence] = useState<number | null>(null);
+  const summaryRefs = useRef<Record<number, HTMLElement | null>>({});
+  const sourceRefs = useRef<Record<number, HTMLElement | null>>({});
+
+  const activate = (position: number, target: Record<number, HTMLElement | null>) => {
+    setActiveSentence(position);
+    target[position]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  // Split the source into plain runs and highlighted sentences, in text order
+  const located = sentences
+    .map((sentence, position) => ({ sentence, position }))
+    .filter(({ sentence }) => sentence.start >= 0)
+    .sort((a, b) => a.sentence.start - b.sentence.start);
+
+  const segments: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const { sentence, position } of located) {
+    if (sentence.start < cursor) continue;
+    if (sentence.start > cursor) {
+      segments.push(sourceText.slice(cursor, sentence.start));
+    }
+    segments.push(
+      <mark
+        key={position}
+        ref={element => { sourceRefs.current[position] = element; }}
+        className={`cursor-pointer rounded-sm ${activeSentence === position ? 'bg-yellow-300' : 'bg-yellow-100'}`}
+        title={`Source sentence ${sentence.index + 1} · score ${sentence.score.toFixed(3)} · cluster ${sentence.cluster}`}
+        onClick={() => activate(position, summaryRefs.current)}
+      >
+        {sourceText.slice(sentence.start, sentence.end)}
+      </mark>
+    );
+    cursor = sentence.end;
+  }
+  segments.push(sourceText.slice(cursor));
+
+  const renderSentence = (sentence: SummarySentence, position: number) => (
+    <span
+      ref={element => { summaryRefs.current[position] = element; }}
+      className={`cursor-pointer rounded-sm ${activeSentence === position ? 'bg-yellow-300' : 'hover:bg-yellow-100'}`}
+      onClick={() => activate(position, sourceRefs.current)}
+    >
+      {sentence.text}
+      {sentence.paraphrased && (
+        <sup className="ml-0.5 text-muted-foreground" title="Reworded from the source sentence">≈</sup>
+      )}
+      {sentence.start < 0 && (
+        <sup className="ml-0.5 text-red-500" title="Not found in the source text">?</sup>
+      )}
+    </span>
+  );
+
+  return (
+    <div className="space-y-4">
+      {style === 'bullet_points' ? (
+        <ul className="space-y-2">
+          {sentences.map((sentence, position) => (
+            <li key={position}>• {renderSentence(sentence, position)}</li>
+          ))}
+        </ul>
+      ) : (
+        <div>
+          {sentences.map((sentence, position) => (
+            <React.Fragment key={position}>
+              {position > 0 && ' '}
+              {renderSentence(sentence, position)}
+            </React.Fragment>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label>Source</Label>
+        <div className="max-h-96 overflow-y-auto rounded border p-3 text-sm whitespace-pre-wrap">
+          {segments}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,12 @@
 import { useState, useEffect } from 'react';
-import { useMutation } from '@tanstack/react-query';
-import { translateText } from '@/lib/api';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { translateText, translateBatch, getTranslationProviders } from '@/lib/api';
 import { useToast } from '@/hooks/use-toast';
-import { TranslationRequest, TranslationResponse } from '@shared/schema';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { BatchTranslationRequest, BatchTranslationResponse, BatchTranslationItem, TranslationRequest, TranslationResponse, TranslationFormat, DetectedLanguage, GlossaryMatch, TranslationSegment, RegisterRuleMatch, TranslationQuality } from '@shared/schema';
+
+// Languages offered as translation targets
+const LANGUAGES = ['English', 'Spanish', 'French', 'German', 'Chinese', 'Russian', 'Italian', 'Portuguese'];
 
 interface TextTranslationProps {
   showProcessing: (title: string, message?: string) => void;
@@ -16,11 +20,33 @@ export default function TextTranslation({ showProcessing, hideProcessing, initia
   const [translatedText, setTranslatedText] = useState('');
   const [sourceLanguage, setSourceLanguage] = useState('English');
   const [targetLanguage, setTargetLanguage] = useState('Spanish');
+  const [multiTarget, setMultiTarget] = useState(false);
+  const [targetLanguages, setTargetLanguages] = useState<string[]>(['Spanish', 'French', 'German']);
+  const [batchResults, setBatchResults] = useState<Record<string, BatchTranslationItem[]> | null>(null);
+  const [activeTarget, setActiveTarget] = useState('');
   const [formality, setFormality] = useState('Neutral');
   const [domain, setDomain] = useState('General');
+  const [provider, setProvider] = useState('');
+  const [format, setFormat] = useState<TranslationFormat>('plain');
+  const [usedProvider, setUsedProvider] = useState('');
+  const [detectedLanguage, setDetectedLanguage] = useState<DetectedLanguage | null>(null);
+  const [glossaryMatches, setGlossaryMatches] = useState<GlossaryMatch[]>([]);
+  const [segments, setSegments] = useState<TranslationSegment[]>([]);
+  const [registerRules, setRegisterRules] = useState<RegisterRuleMatch[]>([]);
+  const [useMemory, setUseMemory] = useState(true);
+  const [qualityCheck, setQualityCheck] = useState(false);
+  const [quality, setQuality] = useState<TranslationQuality | null>(null);
+  const [includeTransliteration, setIncludeTransliteration] = useState(true);
+  const [transliteration, setTransliteration] = useState('');
   const [characterCount, setCharacterCount] = useState(0);
   const [showAdvanced, setShowAdvanced] = useState(false);
 
+  // Available translation backends for the advanced options
+  const { data: providers } = useQuery({
+    queryKey: ['/api/translate/providers'],
+    queryFn: getTranslationProviders
+  });
+
   // Update character count when source text changes
   useEffect(() => {
     setCharacterCount(sourceText.length);
@@ -41,6 +67,13 @@ export default function TextTranslation({ showProcessing, hideProcessing, initia
     },
     onSuccess: (data: TranslationResponse) => {
       setTranslatedText(data.translatedText);
+      setUsedProvider(data.provider);
+      setDetectedLanguage(data.detectedLanguage ?? null);
+      setGlossaryMatches(data.glossaryMatches ?? []);
+      setSegments(data.segments ?? []);
+      setRegisterRules(data.registerRules ?? []);
+      setQuality(data.quality ?? null);
+      setTransliteration(data.transliteration?.transliteratedText ?? '');
       hideProcessing();
       toast({
         title: 'Translation Complete',
@@ -57,6 +90,41 @@ export default function TextTranslation({ showProcessing, hideProcessing, initia
     }
   });
 
+  // Batch translation mutation for several target languages
+  const batchMutation = useMutation({
+    mutationFn: (request: BatchTranslationRequest) => translateBatch(request),
+    onMutate: () => {
+      showProcessing('Translating', `Translating into ${targetLanguages.length} languages...`);
+    },
+    onSuccess: (data: BatchTranslationResponse) => {
+      setBatchResults(data.results);
+      setActiveTarget(Object.keys(data.results)[0] ?? '');
+      hideProcessing();
+      toast({
+        title: data.failed > 0 ? 'Translation Partly Complete' : 'Translation Complete',
+        description: data.failed > 0
+          ? `${data.succeeded} translations succeeded, ${data.failed} failed`
+          : `Translated into ${Object.keys(data.results).length} languages`,
+        variant: data.failed > 0 ? 'destructive' : 'default',
+      });
+    },
+    onError: (error: Error) => {
+      hideProcessing();
+      toast({
+        title: 'Translation Failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  // Toggle a language in the multi-target selection
+  const toggleTargetLanguage = (language: string) => {
+    setTargetLanguages(current => current.includes(language)
+      ? current.filter(l => l !== language)
+      : [...current, language]);
+  };
+
   // Handle translation
   const handleTranslate = () => {
     if (!sourceText.trim()) {
@@ -68,20 +136,60 @@ export default function TextTranslation({ showProcessing, hideProcessing, initia
       return;
     }
 
+    if (multiTarget) {
+      if (targetLanguages.length === 0) {
+        toast({
+          title: 'Error',
+          description: 'Please choose at least one target language',
+          variant: 'destructive',
+        });
+        return;
+      }
+      
+      batchMutation.mutate({
+        text: sourceText,
+        sourceLanguage,
+        targetLanguages,
+        formality,
+        domain,
+        provider: provider || undefined,
+        format,
+        useTranslationMemory: useMemory,
+        qualityCheck,
+        includeTransliteration
+      });
+      return;
+    }
+
     translationMutation.mutate({
       text: sourceText,
       sourceLanguage,
       targetLanguage,
       formality,
-      domain
+      domain,
+      provider: provider || undefined,
+      format,
+      useTranslationMemory: useMemory,
+      qualityCheck,
+      includeTransliteration
     });
   };
 
   // Swap languages
   const swapLanguages = () => {
-    const temp = sourceLanguage;
+    // With auto-detect the detected language becomes the new target
+    const temp = sourceLanguage === 'auto' ? detectedLanguage?.language : sourceLanguage;
+    if (!temp) {
+      toast({
+        title: 'Source language unknown',
+        description: 'Translate once so the source language can be detected before swapping',
+        variant: 'destructive',
+      });
+      return;
+    }
     setSourceLanguage(targetLanguage);
     setTargetLanguage(temp);
+    setDetectedLanguage(null);
     // Also swap the text if there's translated content
     if (translatedText) {
       setSourceText(translatedText);
@@ -89,10 +197,13 @@ export default function TextTranslation({ showProcessing, hideProcessing, initia
     }
   };
 
-  // Copy translation to clipboard
+  // Copy translation to clipboard (the active tab in multi-target mode)
   const copyTranslation = () => {
-    if (translatedText) {
-      navigator.clipboard.writeText(translatedText);
+    const text = multiTarget
+      ? batchResults?.[activeTarget]?.[0]?.result?.translatedText
+      : translatedText;
+    if (text) {
+      navigator.clipboard.writeText(text);
       toast({
         title: 'Copied',
         description: 'Translation copied to clipboard',
@@ -114,12 +225,15 @@ export default function TextTranslation({ showProcessing, hideProcessing, initia
               value={sourceLanguage}
               onChange={(e) => setSourceLanguage(e.target.value)}
             >
+              <option value="auto">Auto-detect</option>
               <option>English</option>
               <option>Spanish</option>
               <option>French</option>
               <option>German</option>
               <option>Chinese</option>
               <option>Russian</option>
+              <option>Italian</option>
+              <option>Portuguese</option>
             </select>
           </div>
           
@@ -135,19 +249,49 @@ export default function TextTranslation({ showProcessing, hideProcessing, initia
           </div>
           
           <div className="flex-1 min-w-[150px]">
-            <label className="block text-sm font-medium text-gray-700 mb-1">Target Language</label>
-            <select 
-              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary"
-              value={targetLanguage}
-              onChange={(e) => setTargetLanguage(e.target.value)}
-            >
-              <option>Spanish</option>
-              <option>English</option>
-              <option>French</option>
-              <option>German</option>
-              <option>Chinese</option>
-              <option>Russian</option>
-            </select>
+            <label className="block text-sm font-medium text-gray-700 mb-1 flex justify-between">
+              <span>Target {multiTarget ? 'Languages' : 'Language'}</span>
+              <span className="flex items-center text-xs font-normal">
+                <input 
+                  id="multi-target"
+                  type="checkbox"
+                  className="h-3 w-3 mr-1 text-primary border-gray-300 rounded"
+                  checked={multiTarget}
+                  onChange={(e) => setMultiTarget(e.target.checked)}
+                />
+                <label htmlFor="multi-target">Several</label>
+              </span>
+            </label>
+            {multiTarget ? (
+              <div className="flex flex-wrap gap-x-3 gap-y-1 px-3 py-2 border border-gray-300 rounded-md">
+                {LANGUAGES.filter(language => language !== sourceLanguage).map(language => (
+                  <label key={language} className="flex items-center text-sm text-gray-700">
+                    <input 
+                      type="checkbox"
+                      className="h-4 w-4 mr-1 text-primary border-gray-300 rounded"
+                      checked={targetLanguages.includes(language)}
+                      onChange={() => toggleTargetLanguage(language)}
+                    />
+                    {language}
+                  </label>
+                ))}
+              </div>
+            ) : (
+              <select 
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary"
+                value={targetLanguage}
+                onChange={(e) => setTargetLanguage(e.target.value)}
+              >
+                <option>Spanish</option>
+                <option>English</option>
+                <option>French</option>
+                <option>German</option>
+                <option>Chinese</option>
+                <option>Russian</option>
+                <option>Italian</option>
+                <option>Portuguese</option>
+              </select>
+            )}
           </div>
         </div>
         
@@ -161,6 +305,12 @@ export default function TextTranslation({ showProcessing, hideProcessing, initia
               value={sourceText}
               onChange={(e) => setSourceText(e.target.value)}
             />
+            {sourceLanguage === 'auto' && detectedLanguage && (
+              <div className={`text-xs mt-1 ${detectedLanguage.reliable ? 'text-gray-500' : 'text-amber-600'}`}>
+                Detected language: {detectedLanguage.language} ({Math.round(detectedLanguage.confidence * 100)}% confidence)
+                {!detectedLanguage.reliable && ' - low confidence, please choose the source language if this is wrong'}
+              </div>
+            )}
           </div>
           
           <div>
@@ -169,19 +319,116 @@ export default function TextTranslation({ showProcessing, hideProcessing, initia
               <button 
                 className="text-xs text-primary hover:underline"
                 onClick={copyTranslation}
-                disabled={!translatedText}
+                disabled={multiTarget ? !batchResults : !translatedText}
               >
                 Copy
               </button>
             </label>
-            <div className="relative">
-              <textarea 
-                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary h-48 bg-gray-50" 
-                placeholder="Translation will appear here..." 
-                readOnly
-                value={translatedText}
-              />
-            </div>
+            {multiTarget && batchResults ? (
+              <Tabs value={activeTarget} onValueChange={setActiveTarget} className="w-full">
+                <TabsList className="flex flex-wrap h-auto">
+                  {Object.entries(batchResults).map(([language, items]) => (
+                    <TabsTrigger key={language} value={language} className={items.some(item => item.error) ? 'text-red-600' : ''}>
+                      {language}
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+                {Object.entries(batchResults).map(([language, items]) => (
+                  <TabsContent key={language} value={language}>
+                    {items.map(item => item.error ? (
+                      <div key={item.index} className="px-3 py-2 border border-red-200 rounded-md bg-red-50 text-sm text-red-700 h-40">
+                        {item.error}
+                      </div>
+                    ) : (
+                      <div key={item.index}>
+                        <textarea 
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm h-40 bg-gray-50" 
+                          readOnly
+                          value={item.result?.translatedText ?? ''}
+                        />
+                        {item.result?.transliteration && (
+                          <p className="mt-1 text-sm italic text-gray-600 whitespace-pre-wrap">
+                            {item.result.transliteration.transliteratedText}
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                  </TabsContent>
+                ))}
+              </Tabs>
+            ) : (
+              <div className="relative">
+                <textarea 
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary h-48 bg-gray-50" 
+                  placeholder="Translation will appear here..." 
+                  readOnly
+                  value={translatedText}
+                />
+                {transliteration && (
+                  <p className="mt-1 text-sm italic text-gray-600 whitespace-pre-wrap" title="Romanised reading">
+                    {transliteration}
+                  </p>
+                )}
+              </div>
+            )}
+            {quality && (
+              <div className="mt-2 text-sm">
+                <div className={`font-medium ${quality.score >= 70 ? 'text-green-700' : quality.score >= 50 ? 'text-amber-600' : 'text-red-600'}`}>
+                  Quality estimate: {Math.round(quality.score)}/100
+                  <span className="text-xs text-gray-500 font-normal ml-2">
+                    chrF {quality.metrics.chrF} · BLEU {quality.metrics.bleu} · overlap {quality.metrics.tokenOverlap}% · untranslated {Math.round(quality.metrics.untranslatedRatio * 100)}%
+                  </span>
+                </div>
+                {quality.suspiciousSegments.length > 0 && (
+                  <div className="mt-1 p-2 border border-gray-200 rounded-md bg-white leading-relaxed">
+                    {segments.map((segment, index) => {
+                      const issue = quality.suspiciousSegments.find(suspicious => suspicious.index === index);
+                      return (
+                        <span 
+                          key={index}
+                          className={issue ? 'bg-amber-100 border-b-2 border-amber-400 cursor-help' : ''}
+                          title={issue ? `${issue.reasons.join('; ')}\nBack-translation: ${issue.backTranslation}` : undefined}
+                        >
+                          {segment.translation}{' '}
+                        </span>
+                      );
+                    })}
+                    <div className="text-xs text-gray-500 mt-1">
+                      Highlighted segments have low confidence; hover for details.
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+            {usedProvider && (
+              <div className="text-xs text-gray-500 mt-1">
+                Translated with: {usedProvider}
+              </div>
+            )}
+            {segments.some(segment => segment.match !== 'none') && (
+              <div className="text-xs text-gray-500 mt-1">
+                Translation memory: {segments.filter(segment => segment.match === 'exact').length} exact, {segments.filter(segment => segment.match === 'fuzzy').length} fuzzy of {segments.length} segments
+                {segments.filter(segment => segment.match === 'fuzzy').map((segment, index) => (
+                  <div key={index} className="mt-1 pl-2 border-l-2 border-amber-300">
+                    {segment.score}% match: "{segment.memorySource}" → "{segment.memoryTranslation}"
+                  </div>
+                ))}
+              </div>
+            )}
+            {registerRules.length > 0 && (
+              <div className="text-xs text-gray-500 mt-1">
+                {registerRules[0].register === 'formal' ? 'Formal' : 'Informal'} register: {registerRules.map(rule => 
+                  `${rule.from} → ${rule.to}${rule.occurrences > 1 ? ` (×${rule.occurrences})` : ''}`
+                ).join(', ')}
+              </div>
+            )}
+            {glossaryMatches.length > 0 && (
+              <div className="text-xs text-gray-500 mt-1">
+                Glossary terms applied: {glossaryMatches.map(match => 
+                  match.keepAsIs ? match.sourceTerm : `${match.sourceTerm} → ${match.replacement}`
+                ).join(', ')}
+              </div>
+            )}
           </div>
         </div>
         
@@ -194,7 +441,7 @@ export default function TextTranslation({ showProcessing, hideProcessing, initia
             type="button" 
             className="bg-primary text-white px-5 py-2 rounded-md hover:bg-indigo-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary"
             onClick={handleTranslate}
-            disabled={translationMutation.isPending || !sourceText.trim()}
+            disabled={translationMutation.isPending || batchMutation.isPending || !sourceText.trim()}
           >
             Translate
           </button>
@@ -236,6 +483,67 @@ export default function TextTranslation({ showProcessing, hideProcessing, initia
                   <option>Business</option>
                 </select>
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Translation Engine</label>
+                <select 
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary"
+                  value={provider}
+                  onChange={(e) => setProvider(e.target.value)}
+                >
+                  <option value="">Default (server configuration)</option>
+                  {providers?.filter(p => p.available).map(p => (
+                    <option key={p.name} value={p.name}>{p.description}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Text Format</label>
+                <select 
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary"
+                  value={format}
+                  onChange={(e) => setFormat(e.target.value as TranslationFormat)}
+                >
+                  <option value="plain">Plain text</option>
+                  <option value="markdown">Markdown (keeps code, links and formatting)</option>
+                  <option value="html">HTML (keeps tags, attributes and scripts)</option>
+                </select>
+              </div>
+              <div className="flex items-center mt-6">
+                <input 
+                  id="use-translation-memory"
+                  type="checkbox"
+                  className="h-4 w-4 text-primary border-gray-300 rounded"
+                  checked={useMemory}
+                  onChange={(e) => setUseMemory(e.target.checked)}
+                />
+                <label htmlFor="use-translation-memory" className="ml-2 text-sm text-gray-700">
+                  Reuse previous translations (translation memory)
+                </label>
+              </div>
+              <div className="flex items-center">
+                <input 
+                  id="quality-check"
+                  type="checkbox"
+                  className="h-4 w-4 text-primary border-gray-300 rounded"
+                  checked={qualityCheck}
+                  onChange={(e) => setQualityCheck(e.target.checked)}
+                />
+                <label htmlFor="quality-check" className="ml-2 text-sm text-gray-700">
+                  Estimate quality by back-translation
+                </label>
+              </div>
+              <div className="flex items-center">
+                <input 
+                  id="include-transliteration"
+                  type="checkbox"
+                  className="h-4 w-4 text-primary border-gray-300 rounded"
+                  checked={includeTransliteration}
+                  onChange={(e) => setIncludeTransliteration(e.target.checked)}
+                />
+                <label htmlFor="include-transliteration" className="ml-2 text-sm text-gray-700">
+                  Show a romanised reading of Russian, Greek and Chinese
+                </label>
+              </div>
             </div>
           </details>
         </div>
@@ -13,6 +13,7 @@ interface FileUploadHookResult {
     processedText?: string;
     operation?: string;
     keywords?: Array<{keyword: string; score: number}>;
+    warnings?: string[];
   } | null;
   handleFileUpload: (file: File, options?: any) => Promise<void>;
   reset: () => void;
@@ -30,6 +31,7 @@ export default function useFileUpload(): FileUploadHookResult {
     processedText?: string;
     operation?: string;
     keywords?: Array<{keyword: string; score: number}>;
+    warnings?: string[];
   } | null>(null);
 
   const handleFileUpload = useCallback(async (file: File, options?: any) => {
@@ -84,7 +86,8 @@ export default function useFileUpload(): FileUploadHookResult {
         fileId: result.fileId,
         processedText: result.processedText,
         operation: result.operation,
-        keywords: result.keywords
+        keywords: result.keywords,
+        warnings: result.warnings
       });
       
     } catch (err) {
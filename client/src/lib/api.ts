@@ -2,8 +2,22 @@ import { apiRequest } from '@/lib/queryClient';
 import {
   TranslationRequest,
   TranslationResponse,
+  BatchTranslationRequest,
+  BatchTranslationResponse,
+  TranslationProviderInfo,
+  LanguageDetectionResponse,
+  TransliterationRequest,
+  TransliterationResponse,
   SummarizationRequest,
   SummarizationResponse,
+  SummaryProgress,
+  MultiDocumentSummarizationRequest,
+  MultiDocumentSummarizationResponse,
+  ProcessedFileSummary,
+  ParaphraseRequest,
+  ParaphraseResponse,
+  HeadlineRequest,
+  HeadlineResponse,
   ContentGenerationRequest,
   ContentGenerationResponse,
   KeywordExtractionRequest,
@@ -16,12 +30,114 @@ export async function translateText(request: TranslationRequest): Promise<Transl
   return response.json();
 }
 
+// API for translating texts into several target languages at once
+export async function translateBatch(request: BatchTranslationRequest): Promise<BatchTranslationResponse> {
+  const response = await apiRequest('POST', '/api/translate/batch', request);
+  return response.json();
+}
+
+// API for identifying the language of a text
+export async function detectLanguage(text: string): Promise<LanguageDetectionResponse> {
+  const response = await apiRequest('POST', '/api/detect-language', { text });
+  return response.json();
+}
+
+// API for romanising Cyrillic, Greek and Chinese text
+export async function transliterateText(request: TransliterationRequest): Promise<TransliterationResponse> {
+  const response = await apiRequest('POST', '/api/transliterate', request);
+  return response.json();
+}
+
+// API for listing the available translation providers
+export async function getTranslationProviders(): Promise<TranslationProviderInfo[]> {
+  const response = await fetch('/api/translate/providers');
+  
+  if (!response.ok) {
+    throw new Error('Failed to fetch translation providers');
+  }
+  
+  return response.json();
+}
+
 // API for text summarization
 export async function summarizeText(request: SummarizationRequest): Promise<SummarizationResponse> {
   const response = await apiRequest('POST', '/api/summarize', request);
   return response.json();
 }
 
+// API for summarizing long documents: the server streams newline-delimited JSON
+// progress events while it works through the chunks, then the result
+export async function summarizeTextWithProgress(
+  request: SummarizationRequest,
+  onProgress: (progress: SummaryProgress) => void
+): Promise<SummarizationResponse> {
+  const response = await apiRequest('POST', '/api/summarize/stream', request);
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this browser');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+
+    const lines = buffered.split('\n');
+    buffered = done ? '' : lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event = JSON.parse(line);
+      if (event.type === 'progress') {
+        const { type, ...progress } = event;
+        onProgress(progress as SummaryProgress);
+      } else if (event.type === 'result') {
+        return event.result as SummarizationResponse;
+      } else if (event.type === 'error') {
+        throw new Error(event.message);
+      }
+    }
+
+    if (done) break;
+  }
+
+  throw new Error('The summarization stream ended without a result');
+}
+
+// API for one summary across several texts and processed files
+export async function summarizeDocuments(request: MultiDocumentSummarizationRequest): Promise<MultiDocumentSummarizationResponse> {
+  const response = await apiRequest('POST', '/api/summarize/multi', request);
+  return response.json();
+}
+
+// API for listing previously processed files
+export async function getProcessedFiles(limit = 20): Promise<ProcessedFileSummary[]> {
+  const response = await fetch(`/api/files?limit=${limit}`);
+  
+  if (response.status === 401) {
+    throw new Error('Sign in to see your processed files');
+  }
+  if (!response.ok) {
+    throw new Error('Failed to fetch processed files');
+  }
+  
+  return response.json();
+}
+
+// API for rule-based paraphrasing
+export async function paraphraseText(request: ParaphraseRequest): Promise<ParaphraseResponse> {
+  const response = await apiRequest('POST', '/api/paraphrase', request);
+  return response.json();
+}
+
+// API for headline generation
+export async function generateHeadlines(request: HeadlineRequest): Promise<HeadlineResponse> {
+  const response = await apiRequest('POST', '/api/headline', request);
+  return response.json();
+}
+
 // API for content generation
 export async function generateContent(request: ContentGenerationRequest): Promise<ContentGenerationResponse> {
   const response = await apiRequest('POST', '/api/generate', request);
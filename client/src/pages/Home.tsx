@@ -6,6 +6,7 @@ import TextTranslation from '@/components/TextTranslation';
 import ContentGeneration from '@/components/ContentGeneration';
 import TextSummarization from '@/components/TextSummarization';
 import EnhancedSummarization from '@/components/EnhancedSummarization';
+import MultiDocumentSummarization from '@/components/MultiDocumentSummarization';
 import KeywordExtraction from '@/components/KeywordExtraction';
 import AlgorithmRecommendation from '@/components/AlgorithmRecommendation';
 import ProcessingState from '@/components/ProcessingState';
@@ -68,6 +69,13 @@ export default function Home() {
             hideProcessing={hideProcessing}
           />
         );
+      case 'multi_summarization':
+        return (
+          <MultiDocumentSummarization 
+            showProcessing={showProcessing} 
+            hideProcessing={hideProcessing}
+          />
+        );
       case 'keywords':
         return (
           <KeywordExtraction 
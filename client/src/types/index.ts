@@ -11,4 +11,4 @@ export interface FileUploadProps {
 }
 
 // Tab types
-export type TabType = 'translation' | 'generation' | 'summarization' | 'enhanced_summarization' | 'keywords' | 'algorithm_recommendation';
+export type TabType = 'translation' | 'generation' | 'summarization' | 'enhanced_summarization' | 'multi_summarization' | 'keywords' | 'algorithm_recommendation';
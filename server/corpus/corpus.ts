@@ -0,0 +1,132 @@
+import { ProcessedFile, TextOperation } from '@shared/schema';
+import type { IStorage } from '../storage';
+import { documentTerms } from '../nlp';
+
+// Corpus statistics: how many documents of our history contain each term, so
+// that IDF reflects how common a term is across everything users process rather
+// than across the paragraphs of one text. Every processed file and every
+// operation on a pasted text counts as a document in the global scope, in its
+// user's scope and, for files, in its collection's scope.
+
+export type CorpusStore = Pick<
+  IStorage,
+  | 'addCorpusDocument'
+  | 'getCorpusFrequencies'
+  | 'replaceCorpusScope'
+  | 'getCorpusScopes'
+  | 'getOwnedCollections'
+  | 'getCorpusFileTexts'
+  | 'getCorpusOperationTexts'
+>;
+
+// A scope's document count and the document frequencies of one text's terms
+export type CorpusStatistics = {
+  scope: string;
+  documentCount: number;
+  frequencies: Map<string, number>;
+};
+
+export const GLOBAL_CORPUS = 'global';
+
+// Operations whose input is a document of its own; generation prompts,
+// recommendations and file processing (the file counts instead) are not
+export const CORPUS_OPERATION_TYPES = ['summarization', 'translation', 'keyword_extraction', 'paraphrase', 'headline'];
+
+// Stored texts read at a time when rebuilding, so a rebuild never holds the
+// whole history in memory
+const REBUILD_PAGE_SIZE = 200;
+
+const SCOPE_PATTERN = /^(?:global|user:\d+|collection:[\w .-]{1,100})$/;
+
+export function isCorpusScope(scope: string): boolean {
+  return SCOPE_PATTERN.test(scope);
+}
+
+// The scopes a document of this user and collection counts in
+export function corpusScopesFor(userId: number | null, collection?: string | null): string[] {
+  const scopes = [GLOBAL_CORPUS];
+  if (userId !== null) scopes.push(`user:${userId}`);
+  if (collection) scopes.push(`collection:${collection}`);
+  return scopes;
+}
+
+export async function indexProcessedFile(store: CorpusStore, file: ProcessedFile): Promise<void> {
+  if (!file.extractedText?.trim()) return;
+  await store.addCorpusDocument(corpusScopesFor(file.userId, file.collection), await documentTerms(file.extractedText));
+}
+
+export async function indexTextOperation(store: CorpusStore, operation: TextOperation): Promise<void> {
+  if (!CORPUS_OPERATION_TYPES.includes(operation.operationType) || operation.fileId || !operation.inputText.trim()) return;
+  await store.addCorpusDocument(corpusScopesFor(operation.userId), await documentTerms(operation.inputText));
+}
+
+// The scopes a user may weigh texts against: the global one, their own and
+// those of collections only they uploaded to. Other scopes would reveal what
+// other users' documents contain; anonymous callers only get the global one.
+export async function readableCorpusScopes(store: CorpusStore, userId: number | null): Promise<string[]> {
+  if (userId === null) return [GLOBAL_CORPUS];
+  const collections = await store.getOwnedCollections(userId);
+  return [GLOBAL_CORPUS, `user:${userId}`, ...collections.map(collection => `collection:${collection}`)];
+}
+
+export async function loadCorpusStatistics(store: CorpusStore, scope: string, text: string): Promise<CorpusStatistics> {
+  if (!isCorpusScope(scope)) {
+    throw new Error(`Invalid corpus scope: ${scope}`);
+  }
+  const { documentCount, frequencies } = await store.getCorpusFrequencies(scope, await documentTerms(text));
+  return { scope, documentCount, frequencies };
+}
+
+// Recount a scope from the stored files and operations, or every scope known so
+// far (and the global one) when none is given. Fixes statistics that drifted
+// from the history, e.g. after records were deleted or a collection renamed.
+export async function rebuildCorpus(
+  store: CorpusStore,
+  scope?: string
+): Promise<Array<{ scope: string; documentCount: number; terms: number }>> {
+  if (scope !== undefined && !isCorpusScope(scope)) {
+    throw new Error(`Invalid corpus scope: ${scope}`);
+  }
+  const scopes = scope !== undefined
+    ? [scope]
+    : Array.from(new Set([GLOBAL_CORPUS, ...(await store.getCorpusScopes()).map(known => known.scope)]));
+
+  const results: Array<{ scope: string; documentCount: number; terms: number }> = [];
+  for (const current of scopes) {
+    const [kind, value] = current.split(/:(.*)/);
+    const filter = kind === 'user' ? { userId: parseInt(value, 10) } : kind === 'collection' ? { collection: value } : {};
+    const frequencies = new Map<string, number>();
+    let documentCount = 0;
+    const count = async (text: string | null) => {
+      if (!text) return;
+      documentCount++;
+      for (const term of await documentTerms(text)) {
+        frequencies.set(term, (frequencies.get(term) || 0) + 1);
+      }
+    };
+
+    await forEachPage((afterId, limit) => store.getCorpusFileTexts(filter, afterId, limit), count);
+    // Operations belong to no collection
+    if (kind !== 'collection') {
+      await forEachPage((afterId, limit) => store.getCorpusOperationTexts(filter.userId, CORPUS_OPERATION_TYPES, afterId, limit), count);
+    }
+
+    await store.replaceCorpusScope(current, documentCount, frequencies);
+    results.push({ scope: current, documentCount, terms: frequencies.size });
+  }
+  return results;
+}
+
+// Read stored texts page by page in id order and handle each one
+async function forEachPage(
+  readPage: (afterId: number, limit: number) => Promise<Array<{ id: number; text: string | null }>>,
+  handle: (text: string | null) => Promise<void>
+): Promise<void> {
+  let afterId = 0;
+  for (;;) {
+    const page = await readPage(afterId, REBUILD_PAGE_SIZE);
+    for (const row of page) await handle(row.text);
+    if (page.length < REBUILD_PAGE_SIZE) return;
+    afterId = page[page.length - 1].id;
+  }
+}
@@ -0,0 +1,12 @@
+export {
+  indexProcessedFile,
+  indexTextOperation,
+  loadCorpusStatistics,
+  readableCorpusScopes,
+  rebuildCorpus,
+  corpusScopesFor,
+  isCorpusScope,
+  GLOBAL_CORPUS,
+  CORPUS_OPERATION_TYPES
+} from './corpus';
+export type { CorpusStatistics, CorpusStore } from './corpus';
@@ -0,0 +1,179 @@
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  BenchmarkDocumentResult,
+  BenchmarkMethodSummary,
+  SummarizationMethod,
+  SummaryBenchmark,
+  SummaryBenchmarkReport,
+  SummaryBenchmarkRequest
+} from '@shared/schema';
+import type { IStorage } from '../storage';
+import { summarizeText } from '../nlp';
+import { isAbstractiveAvailable } from '../summarization';
+import { evaluateSummary } from './rouge';
+import { isFileNotFound } from '../utils/errors';
+
+// A document and its reference summaries
+export type BenchmarkPair = {
+  name: string;
+  document: string;
+  references: string[];
+};
+
+// Each dataset is a subdirectory of <name>.txt documents with reference summaries
+// in <name>.ref.txt, <name>.ref2.txt, ...
+const BENCHMARK_DIR = process.env.SUMMARY_BENCHMARK_DIR || path.join(import.meta.dirname, '../data/benchmark');
+
+const REFERENCE_FILE = /^(.+)\.ref\d*\.txt$/;
+
+const EXTRACTIVE_METHODS: SummarizationMethod[] = ['enhanced_tfidf', 'textrank', 'lexrank'];
+
+// Every method that can run here: abstractive only with a configured model,
+// because otherwise it would only measure the extractive fallback again
+export function benchmarkMethods(): SummarizationMethod[] {
+  return isAbstractiveAvailable() ? [...EXTRACTIVE_METHODS, 'abstractive'] : EXTRACTIVE_METHODS;
+}
+
+export async function listBenchmarkDatasets(): Promise<string[]> {
+  const entries = await fs.readdir(BENCHMARK_DIR, { withFileTypes: true });
+  return entries.filter(entry => entry.isDirectory()).map(entry => entry.name).sort();
+}
+
+export async function loadBenchmarkDataset(dataset: string): Promise<BenchmarkPair[]> {
+  if (!/^[\w-]+$/.test(dataset)) {
+    throw new Error(`Invalid dataset name: ${dataset}`);
+  }
+
+  const directory = path.join(BENCHMARK_DIR, dataset);
+  let files: string[];
+  try {
+    files = (await fs.readdir(directory)).filter(file => file.endsWith('.txt')).sort();
+  } catch (error) {
+    if (isFileNotFound(error)) throw new Error(`Benchmark dataset not found: ${dataset}`);
+    throw error;
+  }
+
+  const pairs: BenchmarkPair[] = [];
+  for (const file of files.filter(file => !REFERENCE_FILE.test(file))) {
+    const name = file.slice(0, -'.txt'.length);
+    const referenceFiles = files.filter(candidate => candidate.match(REFERENCE_FILE)?.[1] === name);
+    // Documents without a reference cannot be scored
+    if (referenceFiles.length === 0) continue;
+
+    const [document, ...references] = await Promise.all(
+      [file, ...referenceFiles].map(candidate => fs.readFile(path.join(directory, candidate), 'utf-8'))
+    );
+    pairs.push({ name, document, references: references.map(reference => reference.trim()) });
+  }
+
+  if (pairs.length === 0) {
+    throw new Error(`Benchmark dataset ${dataset} has no documents with reference summaries`);
+  }
+  return pairs;
+}
+
+// Summarize every document with every method and score the summaries against the
+// references. Documents run one after another so the timings are comparable.
+export async function runSummaryBenchmark(request: SummaryBenchmarkRequest = {}): Promise<SummaryBenchmarkReport> {
+  const dataset = request.dataset || 'sample';
+  const length = request.length || 'medium';
+  const methods = request.methods?.length ? request.methods : benchmarkMethods();
+  const pairs = await loadBenchmarkDataset(dataset);
+
+  const results: BenchmarkDocumentResult[] = [];
+  const fallbacks = new Map<SummarizationMethod, number>();
+
+  for (const method of methods) {
+    for (const pair of pairs) {
+      const started = performance.now();
+      try {
+        const summary = await summarizeText({ text: pair.document, length, method });
+        if (summary.fallbackReason) {
+          fallbacks.set(method, (fallbacks.get(method) || 0) + 1);
+        }
+        results.push({
+          document: pair.name,
+          method,
+          evaluation: evaluateSummary(summary.summary, pair.references, pair.document),
+          milliseconds: performance.now() - started
+        });
+      } catch (error) {
+        results.push({
+          document: pair.name,
+          method,
+          milliseconds: performance.now() - started,
+          error: (error as Error).message
+        });
+      }
+    }
+  }
+
+  return {
+    dataset,
+    length,
+    documents: pairs.length,
+    methods: methods.map(method => summarizeMethod(method, results, fallbacks.get(method) || 0)),
+    results
+  };
+}
+
+function summarizeMethod(method: SummarizationMethod, results: BenchmarkDocumentResult[], fallbacks: number): BenchmarkMethodSummary {
+  const runs = results.filter(result => result.method === method);
+  const evaluations = runs.flatMap(result => result.evaluation ? [result.evaluation] : []);
+  const average = (values: number[]) => values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+  return {
+    method,
+    documents: evaluations.length,
+    rouge1: average(evaluations.map(evaluation => evaluation.rouge1.f1)),
+    rouge2: average(evaluations.map(evaluation => evaluation.rouge2.f1)),
+    rougeL: average(evaluations.map(evaluation => evaluation.rougeL.f1)),
+    compressionRatio: average(evaluations.map(evaluation => evaluation.compressionRatio || 0)),
+    averageMilliseconds: average(runs.map(result => result.milliseconds)),
+    fallbacks
+  };
+}
+
+// Store a run, with each method's F1 changes relative to the latest earlier run on
+// the same dataset and summary length
+export async function saveSummaryBenchmark(
+  storage: Pick<IStorage, 'createSummaryBenchmark' | 'getSummaryBenchmarks'>,
+  report: SummaryBenchmarkReport,
+  label: string
+): Promise<SummaryBenchmark> {
+  const [previousRun] = await storage.getSummaryBenchmarks(1, report.dataset, report.length);
+
+  let compared = report;
+  if (previousRun) {
+    const previous = previousRun.report as SummaryBenchmarkReport;
+    compared = {
+      ...report,
+      methods: report.methods.map(summary => {
+        const before = previous.methods.find(candidate => candidate.method === summary.method);
+        return before && before.documents > 0 && summary.documents > 0
+          ? {
+              ...summary,
+              change: {
+                rouge1: summary.rouge1 - before.rouge1,
+                rouge2: summary.rouge2 - before.rouge2,
+                rougeL: summary.rougeL - before.rougeL
+              }
+            }
+          : summary;
+      }),
+      previous: {
+        id: previousRun.id,
+        label: previousRun.label,
+        createdAt: previousRun.createdAt ? previousRun.createdAt.toISOString() : null
+      }
+    };
+  }
+
+  return storage.createSummaryBenchmark({
+    label,
+    dataset: report.dataset,
+    length: report.length,
+    report: compared
+  });
+}
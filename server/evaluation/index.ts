@@ -0,0 +1,9 @@
+export { evaluateSummary, rougeN, rougeL, rougeTokens } from './rouge';
+export {
+  runSummaryBenchmark,
+  saveSummaryBenchmark,
+  loadBenchmarkDataset,
+  listBenchmarkDatasets,
+  benchmarkMethods
+} from './benchmark';
+export type { BenchmarkPair } from './benchmark';
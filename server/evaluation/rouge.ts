@@ -0,0 +1,84 @@
+import { RougeScore, SummaryEvaluation } from '@shared/schema';
+
+// ROUGE (Lin, 2004) on lowercased word tokens, without stemming or stopword
+// removal. With several references every metric is taken from the reference
+// that scores best (the "best" multi-reference mode of the ROUGE toolkit).
+
+const TOKEN = new RegExp(String.raw`[\p{L}\p{N}]+`, 'gu');
+
+export function rougeTokens(text: string): string[] {
+  return text.toLowerCase().match(TOKEN) || [];
+}
+
+function score(overlap: number, candidateCount: number, referenceCount: number): RougeScore {
+  const precision = candidateCount > 0 ? overlap / candidateCount : 0;
+  const recall = referenceCount > 0 ? overlap / referenceCount : 0;
+  const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+  return { precision, recall, f1 };
+}
+
+function countNgrams(tokens: string[], n: number): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i + n <= tokens.length; i++) {
+    const gram = tokens.slice(i, i + n).join(' ');
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+  return counts;
+}
+
+// ROUGE-N: overlapping n-grams, each counted at most as often as it occurs in the reference
+export function rougeN(candidate: string[], reference: string[], n: number): RougeScore {
+  const candidateGrams = countNgrams(candidate, n);
+  const referenceGrams = countNgrams(reference, n);
+
+  let overlap = 0;
+  candidateGrams.forEach((count, gram) => {
+    overlap += Math.min(count, referenceGrams.get(gram) || 0);
+  });
+  return score(overlap, Math.max(0, candidate.length - n + 1), Math.max(0, reference.length - n + 1));
+}
+
+// ROUGE-L: longest common subsequence, two rows of the DP table at a time
+export function rougeL(candidate: string[], reference: string[]): RougeScore {
+  let previous = new Int32Array(reference.length + 1);
+  let current = new Int32Array(reference.length + 1);
+
+  for (let i = 1; i <= candidate.length; i++) {
+    for (let j = 1; j <= reference.length; j++) {
+      current[j] = candidate[i - 1] === reference[j - 1]
+        ? previous[j - 1] + 1
+        : Math.max(previous[j], current[j - 1]);
+    }
+    [previous, current] = [current, previous];
+  }
+  return score(previous[reference.length], candidate.length, reference.length);
+}
+
+function best(scores: RougeScore[]): RougeScore {
+  return scores.reduce((top, candidate) => candidate.f1 > top.f1 ? candidate : top, scores[0]);
+}
+
+// ROUGE-1/2/L of a candidate summary against one or more references. The
+// compression ratio needs the summarized source; the length ratio compares
+// with the average reference.
+export function evaluateSummary(candidate: string, references: string[], source?: string): SummaryEvaluation {
+  if (references.length === 0) {
+    throw new Error('At least one reference summary is required');
+  }
+
+  const candidateTokens = rougeTokens(candidate);
+  const referenceTokens = references.map(rougeTokens);
+  const referenceWords = referenceTokens.reduce((sum, tokens) => sum + tokens.length, 0) / references.length;
+  const sourceWords = source === undefined ? undefined : rougeTokens(source).length;
+
+  return {
+    rouge1: best(referenceTokens.map(reference => rougeN(candidateTokens, reference, 1))),
+    rouge2: best(referenceTokens.map(reference => rougeN(candidateTokens, reference, 2))),
+    rougeL: best(referenceTokens.map(reference => rougeL(candidateTokens, reference))),
+    candidateWords: candidateTokens.length,
+    referenceWords,
+    sourceWords,
+    compressionRatio: sourceWords ? candidateTokens.length / sourceWords : undefined,
+    lengthRatio: referenceWords > 0 ? candidateTokens.length / referenceWords : 0
+  };
+}
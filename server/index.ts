@@ -6,7 +6,8 @@ import { db } from "./db";
 import { sql } from "drizzle-orm";
 
 const app = express();
-app.use(express.json());
+// Large enough for the long documents the summarizer handles, matching the upload limit
+app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: false }));
 
 // Setup request logging
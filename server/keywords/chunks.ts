@@ -0,0 +1,25 @@
+// Runs of words between punctuation marks, with the words as written. Numbers
+// count as punctuation: none of the methods here makes keywords of them.
+const CHUNK_TOKEN = new RegExp(String.raw`\p{L}[\p{L}\p{M}'’-]*|\d[\d.,]*|[^\s\p{L}\d]`, 'gu');
+
+const WORD = new RegExp(String.raw`^\p{L}`, 'u');
+
+export function wordChunks(text: string): string[][] {
+  const chunks: string[][] = [[]];
+  for (const token of text.match(CHUNK_TOKEN) || []) {
+    if (WORD.test(token)) {
+      chunks[chunks.length - 1].push(token.replace(/[-'’]+$/, ''));
+    } else if (chunks[chunks.length - 1].length > 0) {
+      chunks.push([]);
+    }
+  }
+  return chunks.filter(chunk => chunk.length > 0);
+}
+
+// Function words that general stopword lists often lack but that never start or
+// end a keyphrase: modal verbs, linking adverbs and less common prepositions
+export const PHRASE_DELIMITERS = new Set([
+  'will', 'can', 'may', 'might', 'must', 'shall', 'also', 'however', 'even', 'still', 'just', 'yet', 'ever',
+  'rather', 'quite', 'less', 'much', 'many', 'several', 'per', 'via', 'within', 'without', 'upon', 'among',
+  'across', 'around', 'toward', 'towards', 'whether', 'though', 'although', 'since', 'unless', 'whose', 'thus'
+]);
@@ -0,0 +1,91 @@
+import fs from 'fs';
+import readline from 'readline';
+import path from 'path';
+
+// Static word vectors in the GloVe or fastText text format: one word per line
+// followed by its components, separated by spaces. fastText files start with a
+// "<words> <dimensions>" header line, which is skipped.
+export type WordEmbeddings = {
+  dimensions: number;
+  vectors: Map<string, Float32Array>;
+  source: string;
+};
+
+const EMBEDDINGS_PATH = process.env.WORD_EMBEDDINGS_PATH || path.join(import.meta.dirname, '../data/embeddings/vectors.txt');
+
+// Embedding files list frequent words first, so the first words cover nearly all
+// text while keeping memory bounded (100,000 300-dimensional vectors take 120 MB)
+const MAX_WORDS = parseInt(process.env.WORD_EMBEDDINGS_MAX_WORDS || '', 10) || 100000;
+
+let embeddings: Promise<WordEmbeddings | null> | null = null;
+
+// The installed vectors, or null when there is no embedding file
+export function loadWordEmbeddings(): Promise<WordEmbeddings | null> {
+  if (!embeddings) {
+    embeddings = readEmbeddings();
+    embeddings.catch(() => {
+      embeddings = null;
+    });
+  }
+  return embeddings;
+}
+
+async function readEmbeddings(): Promise<WordEmbeddings | null> {
+  try {
+    await fs.promises.access(EMBEDDINGS_PATH, fs.constants.R_OK);
+  } catch {
+    return null;
+  }
+
+  const vectors = new Map<string, Float32Array>();
+  let dimensions = 0;
+  const lines = readline.createInterface({ input: fs.createReadStream(EMBEDDINGS_PATH, 'utf-8'), crlfDelay: Infinity });
+
+  for await (const line of lines) {
+    const fields = line.trimEnd().split(' ');
+    if (fields.length < 3) continue;
+
+    const word = fields[0].toLowerCase();
+    if (dimensions === 0) dimensions = fields.length - 1;
+    // Lines of another length are multi-word tokens or a broken file
+    if (fields.length - 1 !== dimensions || vectors.has(word)) continue;
+
+    vectors.set(word, Float32Array.from(fields.slice(1), Number));
+    if (vectors.size >= MAX_WORDS) {
+      lines.close();
+      break;
+    }
+  }
+
+  if (vectors.size === 0) {
+    throw new Error(`No word vectors found in ${EMBEDDINGS_PATH}`);
+  }
+  return { dimensions, vectors, source: path.basename(EMBEDDINGS_PATH) };
+}
+
+// Mean of the vectors of the words that have one, or null when none do
+export function averageVector(words: string[], embeddings: WordEmbeddings): Float32Array | null {
+  const sum = new Float32Array(embeddings.dimensions);
+  let found = 0;
+  for (const word of words) {
+    const vector = embeddings.vectors.get(word);
+    if (!vector) continue;
+    for (let i = 0; i < sum.length; i++) sum[i] += vector[i];
+    found++;
+  }
+  if (found === 0) return null;
+  for (let i = 0; i < sum.length; i++) sum[i] /= found;
+  return sum;
+}
+
+export function cosine(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,6 @@
+export { rakeKeywords, MAX_RAKE_PHRASE_WORDS } from './rake';
+export { yakeKeywords, MAX_YAKE_PHRASE_WORDS } from './yake';
+export { wordChunks } from './chunks';
+export { loadWordEmbeddings, averageVector, cosine } from './embeddings';
+export type { WordEmbeddings } from './embeddings';
+export { embeddingKeywords, DEFAULT_KEYWORD_DIVERSITY, MAX_EMBEDDING_PHRASE_WORDS } from './keybert';
@@ -0,0 +1,83 @@
+import { PHRASE_DELIMITERS, wordChunks } from './chunks';
+import { averageVector, cosine, WordEmbeddings } from './embeddings';
+
+// Embedding-based keyword extraction in the style of KeyBERT: candidate phrases
+// and the whole document are embedded (here as the mean of static word vectors),
+// candidates are ranked by cosine similarity to the document, and Maximal
+// Marginal Relevance picks them one by one, trading similarity to the document
+// against similarity to the keywords already picked.
+
+export const MAX_EMBEDDING_PHRASE_WORDS = 3;
+
+// 0 ranks purely by similarity to the document, 1 purely by difference from the
+// keywords already picked
+export const DEFAULT_KEYWORD_DIVERSITY = 0.5;
+
+// MMR compares every pick with every remaining candidate, so only the phrases
+// most similar to the document compete
+export const MAX_MMR_CANDIDATES = 300;
+
+type Candidate = {
+  keyword: string;
+  vector: Float32Array;
+  relevance: number;
+};
+
+export function embeddingKeywords(
+  text: string,
+  embeddings: WordEmbeddings,
+  stopwords: Set<string>,
+  count: number,
+  diversity = DEFAULT_KEYWORD_DIVERSITY
+): Array<{ keyword: string; score: number }> {
+  const isStopword = (word: string) => stopwords.has(word) || PHRASE_DELIMITERS.has(word) || word.length < 2;
+  const chunks = wordChunks(text).map(chunk => chunk.map(word => word.toLowerCase()));
+
+  const documentVector = averageVector(chunks.flat().filter(word => !isStopword(word)), embeddings);
+  if (!documentVector) return [];
+
+  // Phrases of content words only, as KeyBERT's default vectorizer produces
+  const candidates = new Map<string, Candidate>();
+  for (const words of chunks) {
+    for (let start = 0; start < words.length; start++) {
+      for (let length = 1; length <= MAX_EMBEDDING_PHRASE_WORDS && start + length <= words.length; length++) {
+        const phrase = words.slice(start, start + length);
+        if (isStopword(phrase[phrase.length - 1])) break;
+        const keyword = phrase.join(' ');
+        if (candidates.has(keyword)) continue;
+
+        const vector = averageVector(phrase, embeddings);
+        if (vector) candidates.set(keyword, { keyword, vector, relevance: cosine(vector, documentVector) });
+      }
+    }
+  }
+
+  const remaining = Array.from(candidates.values())
+    .sort((a, b) => b.relevance - a.relevance)
+    .slice(0, MAX_MMR_CANDIDATES);
+  // Highest similarity to any picked keyword, per remaining candidate
+  const redundancy = new Map<Candidate, number>(remaining.map(candidate => [candidate, 0]));
+  const selected: Candidate[] = [];
+
+  while (selected.length < count && remaining.length > 0) {
+    let best = 0;
+    let bestScore = -Infinity;
+    remaining.forEach((candidate, index) => {
+      const score = selected.length === 0
+        ? candidate.relevance
+        : (1 - diversity) * candidate.relevance - diversity * redundancy.get(candidate)!;
+      if (score > bestScore) {
+        best = index;
+        bestScore = score;
+      }
+    });
+
+    const [picked] = remaining.splice(best, 1);
+    selected.push(picked);
+    for (const candidate of remaining) {
+      redundancy.set(candidate, Math.max(redundancy.get(candidate)!, cosine(candidate.vector, picked.vector)));
+    }
+  }
+
+  return selected.map(candidate => ({ keyword: candidate.keyword, score: candidate.relevance }));
+}
@@ -0,0 +1,49 @@
+import { PHRASE_DELIMITERS, wordChunks } from './chunks';
+
+// RAKE (Rapid Automatic Keyword Extraction, Rose et al. 2010). Stopwords and
+// punctuation split the text into candidate phrases; a word scores its degree
+// (the words it shares phrases with, itself included) over its frequency, and a
+// phrase the sum of its word scores. Works on a single document.
+
+// Longer candidates are mostly clauses that happen to contain no stopword
+export const MAX_RAKE_PHRASE_WORDS = 4;
+
+export function rakeKeywords(text: string, stopwords: Set<string>, count: number): Array<{ keyword: string; score: number }> {
+  const phrases: string[][] = [];
+  for (const chunk of wordChunks(text)) {
+    let phrase: string[] = [];
+    for (const word of chunk.map(word => word.toLowerCase())) {
+      if (stopwords.has(word) || PHRASE_DELIMITERS.has(word) || word.length < 2) {
+        if (phrase.length) phrases.push(phrase);
+        phrase = [];
+      } else {
+        phrase.push(word);
+      }
+    }
+    if (phrase.length) phrases.push(phrase);
+  }
+
+  const candidates = phrases.filter(phrase => phrase.length <= MAX_RAKE_PHRASE_WORDS);
+  const frequency = new Map<string, number>();
+  const degree = new Map<string, number>();
+  for (const phrase of candidates) {
+    for (const word of phrase) {
+      frequency.set(word, (frequency.get(word) || 0) + 1);
+      degree.set(word, (degree.get(word) || 0) + phrase.length);
+    }
+  }
+
+  const scores = new Map<string, number>();
+  for (const phrase of candidates) {
+    const keyword = phrase.join(' ');
+    if (scores.has(keyword)) continue;
+    scores.set(keyword, phrase.reduce((sum, word) => sum + degree.get(word)! / frequency.get(word)!, 0));
+  }
+
+  const ranked = Array.from(scores, ([keyword, score]) => ({ keyword, score }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, count);
+
+  const maxScore = ranked[0]?.score || 1;
+  return ranked.map(keyword => ({ ...keyword, score: keyword.score / maxScore }));
+}
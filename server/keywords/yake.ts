@@ -0,0 +1,133 @@
+import { PHRASE_DELIMITERS, wordChunks } from './chunks';
+
+// YAKE (Campos et al. 2020): every word gets a weight from statistics of the
+// document alone, lower meaning more important:
+//   casing      how often it is capitalized mid-sentence or written as an acronym
+//   position    how early the sentences it occurs in come
+//   frequency   its count against the document's mean and spread
+//   relatedness how many different words surround it (stopword-like words have many)
+//   spread      the share of sentences it occurs in
+// Candidates are n-grams within a punctuation chunk that neither start nor end
+// with a stopword, scored from their words' weights and their own count.
+
+export const MAX_YAKE_PHRASE_WORDS = 3;
+
+// Candidates more alike than this (by edit distance) are shown only once
+const DEDUPLICATION_THRESHOLD = 0.8;
+
+type TermStatistics = {
+  count: number;
+  capitalized: number;
+  acronym: number;
+  sentences: number[];
+  left: string[];
+  right: string[];
+};
+
+export function yakeKeywords(sentences: string[], stopwordList: Set<string>, count: number): Array<{ keyword: string; score: number }> {
+  const stopwords = new Set(Array.from(stopwordList).concat(Array.from(PHRASE_DELIMITERS)));
+  const terms = new Map<string, TermStatistics>();
+  const chunks: string[][] = [];
+
+  sentences.forEach((sentence, sentenceIndex) => {
+    wordChunks(sentence).forEach((chunk, chunkIndex) => {
+      const words = chunk.map(word => word.toLowerCase());
+      chunks.push(words);
+      chunk.forEach((written, position) => {
+        const word = words[position];
+        let term = terms.get(word);
+        if (!term) {
+          term = { count: 0, capitalized: 0, acronym: 0, sentences: [], left: [], right: [] };
+          terms.set(word, term);
+        }
+        term.count++;
+        if (written.length > 1 && written === written.toUpperCase() && written !== word) {
+          term.acronym++;
+        } else if (written !== word && !(chunkIndex === 0 && position === 0)) {
+          term.capitalized++;
+        }
+        term.sentences.push(sentenceIndex);
+        if (position > 0) term.left.push(words[position - 1]);
+        if (position < chunk.length - 1) term.right.push(words[position + 1]);
+      });
+    });
+  });
+
+  const weights = termWeights(terms, stopwords, sentences.length);
+
+  // Score each distinct candidate: the product of its words' weights over its
+  // count times one plus their sum, so frequent phrases of strong words win.
+  // Stopwords inside a phrase ("rate of return") do not count.
+  const phraseCounts = new Map<string, number>();
+  for (const words of chunks) {
+    for (let start = 0; start < words.length; start++) {
+      for (let length = 1; length <= MAX_YAKE_PHRASE_WORDS && start + length <= words.length; length++) {
+        const phrase = words.slice(start, start + length);
+        if (stopwords.has(phrase[0]) || stopwords.has(phrase[phrase.length - 1]) || phrase.some(word => word.length < 2)) continue;
+        const keyword = phrase.join(' ');
+        phraseCounts.set(keyword, (phraseCounts.get(keyword) || 0) + 1);
+      }
+    }
+  }
+
+  const candidates = Array.from(phraseCounts, ([keyword, frequency]) => {
+    const content = keyword.split(' ').filter(word => !stopwords.has(word));
+    const product = content.reduce((result, word) => result * weights.get(word)!, 1);
+    const sum = content.reduce((result, word) => result + weights.get(word)!, 0);
+    return { keyword, weight: product / (frequency * (1 + sum)) };
+  }).sort((a, b) => a.weight - b.weight);
+
+  const selected: Array<{ keyword: string; weight: number }> = [];
+  for (const candidate of candidates) {
+    if (selected.length >= count) break;
+    if (selected.some(other => similarity(other.keyword, candidate.keyword) > DEDUPLICATION_THRESHOLD)) continue;
+    selected.push(candidate);
+  }
+
+  // Report higher-is-better scores like the other methods, the best one as 1
+  const best = selected[0]?.weight || 1;
+  return selected.map(({ keyword, weight }) => ({ keyword, score: weight > 0 ? best / weight : 1 }));
+}
+
+function termWeights(terms: Map<string, TermStatistics>, stopwords: Set<string>, sentenceCount: number): Map<string, number> {
+  const contentCounts = Array.from(terms)
+    .filter(([word]) => !stopwords.has(word))
+    .map(([, term]) => term.count);
+  const counts = contentCounts.length ? contentCounts : Array.from(terms.values(), term => term.count);
+  const mean = counts.reduce((sum, value) => sum + value, 0) / counts.length;
+  const deviation = Math.sqrt(counts.reduce((sum, value) => sum + (value - mean) ** 2, 0) / counts.length);
+  const maxCount = Math.max(...counts);
+
+  const weights = new Map<string, number>();
+  terms.forEach((term, word) => {
+    const casing = Math.max(term.capitalized, term.acronym) / (1 + Math.log(term.count));
+    const position = Math.log(Math.log(3 + median(term.sentences)));
+    const frequency = term.count / (mean + deviation);
+    const leftVariety = term.left.length ? new Set(term.left).size / term.left.length : 0;
+    const rightVariety = term.right.length ? new Set(term.right).size / term.right.length : 0;
+    const relatedness = 1 + (leftVariety + rightVariety) * (term.count / maxCount);
+    const spread = new Set(term.sentences).size / sentenceCount;
+
+    weights.set(word, (relatedness * position) / (casing + frequency / relatedness + spread / relatedness));
+  });
+  return weights;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// 1 minus the Levenshtein distance over the longer length
+function similarity(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / Math.max(a.length, b.length, 1);
+}
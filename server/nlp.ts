@@ -3,13 +3,108 @@ import {
   TranslationResponse,
   SummarizationRequest,
   SummarizationResponse,
+  SummarizationMethod,
+  SummaryQueryFocus,
+  SummarySentence,
+  SummaryProgress,
+  MultiDocumentSummarizationRequest,
+  MultiDocumentSummarizationResponse,
+  SummaryDocument,
   ContentGenerationRequest,
   ContentGenerationResponse,
   KeywordExtractionRequest,
   KeywordExtractionResponse,
   AlgorithmRecommendationRequest,
-  AlgorithmRecommendationResponse
+  AlgorithmRecommendationResponse,
+  DetectedLanguage,
+  GlossaryEntry,
+  TranslationSegment,
+  TranslationQuality,
+  SuspiciousSegment,
+  InsertTranslationMemoryEntry,
+  BatchTranslationRequest,
+  BatchTranslationResponse,
+  BatchTranslationItem,
+  ParaphraseRequest,
+  ParaphraseResponse,
+  HeadlineRequest,
+  HeadlineResponse,
+  HeadlineCandidate,
+  HeadlineSource,
+  TermNormalization
 } from '@shared/schema';
+import { randomUUID } from 'crypto';
+import {
+  resolveTranslationProvider,
+  detectLanguage,
+  isAutoDetect,
+  getLanguageCode,
+  maskGlossaryTerms,
+  restoreGlossaryTerms,
+  remaskGlossaryTerms,
+  summarizeGlossaryMatches,
+  DEFAULT_FUZZY_THRESHOLD,
+  MEMORY_CANDIDATE_LIMIT,
+  translationMemoryScope,
+  candidateLengths,
+  normalizeSegment,
+  locateSegments,
+  findMemoryMatch,
+  parseMarkup,
+  translatableRuns,
+  renderMarkup,
+  restoreMarkup,
+  stripPlaceholders,
+  joinNumbered,
+  splitNumbered,
+  createRegisterRewriter,
+  roundTripMetrics,
+  roundTripScore,
+  describeIssues,
+  transliterate,
+  TranslationProvider,
+  TranslationMemoryStore,
+  MaskedText,
+  ProtectedText,
+  RegisterRewriter
+} from './translation';
+import { mapWithConcurrency } from './utils/concurrency';
+import {
+  pageRank,
+  buildSentenceGraph,
+  bm25Scores,
+  chunkDocument,
+  chunkSentences,
+  locateSentences,
+  findSpanIndex,
+  selectWithinBudget,
+  truncateToBudget,
+  countWords,
+  hasBudget,
+  SummaryBudget,
+  abstractiveSummarize,
+  isAbstractiveAvailable,
+  LEXRANK_THRESHOLD,
+  compressToHeadline,
+  formatHeadline
+} from './summarization';
+import { loadParaphraseLexicon, paraphrase, tagTokens, tokenize, ParaphraseLexicon } from './paraphrase';
+import { rakeKeywords, yakeKeywords, loadWordEmbeddings, embeddingKeywords } from './keywords';
+import type { CorpusStatistics } from './corpus';
+import { loadTermNormalizer, surfaceForms, TermNormalizer } from './normalization';
+import {
+  CJK_RUN,
+  describeLanguage,
+  isContentWord,
+  joinCjkWords,
+  loadCjkSegmenter,
+  loadTextLanguage,
+  resolveTextLanguage,
+  spaceCjkWords,
+  splitElisions,
+  splitWords,
+  TextLanguage
+} from './tokenization';
 
 // Enhanced OpenAI integration can be added here if an API key is provided
 let openaiApiKey: string | null = process.env.OPENAI_API_KEY || null;
@@ -17,51 +112,107 @@ let openaiApiKey: string | null = process.env.OPENAI_API_KEY || null;
 // Advanced NLP Utility Functions
 // =============================
 
-// Extended list of English stopwords for NLP processing
-const STOPWORDS = new Set([
-  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'am', 'an', 'and', 'any', 'are', 'aren\'t', 'as', 'at',
-  'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by', 'can\'t', 'cannot', 'could',
-  'couldn\'t', 'did', 'didn\'t', 'do', 'does', 'doesn\'t', 'doing', 'don\'t', 'down', 'during', 'each', 'few', 'for',
-  'from', 'further', 'had', 'hadn\'t', 'has', 'hasn\'t', 'have', 'haven\'t', 'having', 'he', 'he\'d', 'he\'ll', 'he\'s',
-  'her', 'here', 'here\'s', 'hers', 'herself', 'him', 'himself', 'his', 'how', 'how\'s', 'i', 'i\'d', 'i\'ll', 'i\'m',
-  'i\'ve', 'if', 'in', 'into', 'is', 'isn\'t', 'it', 'it\'s', 'its', 'itself', 'let\'s', 'me', 'more', 'most', 'mustn\'t',
-  'my', 'myself', 'no', 'nor', 'not', 'of', 'off', 'on', 'once', 'only', 'or', 'other', 'ought', 'our', 'ours', 'ourselves',
-  'out', 'over', 'own', 'same', 'shan\'t', 'she', 'she\'d', 'she\'ll', 'she\'s', 'should', 'shouldn\'t', 'so', 'some',
-  'such', 'than', 'that', 'that\'s', 'the', 'their', 'theirs', 'them', 'themselves', 'then', 'there', 'there\'s', 'these',
-  'they', 'they\'d', 'they\'ll', 'they\'re', 'they\'ve', 'this', 'those', 'through', 'to', 'too', 'under', 'until', 'up',
-  'very', 'was', 'wasn\'t', 'we', 'we\'d', 'we\'ll', 'we\'re', 'we\'ve', 'were', 'weren\'t', 'what', 'what\'s', 'when',
-  'when\'s', 'where', 'where\'s', 'which', 'while', 'who', 'who\'s', 'whom', 'why', 'why\'s', 'with', 'won\'t', 'would',
-  'wouldn\'t', 'you', 'you\'d', 'you\'ll', 'you\'re', 'you\'ve', 'your', 'yours', 'yourself', 'yourselves'
-]);
+// Sentence boundaries before a capital of any alphabet
+const SENTENCE_END = new RegExp(String.raw`([.?!])\s*(\p{Lu})`, 'gu');
+const SINGLE_LETTER_ABBREVIATION = new RegExp(String.raw`(?<!\p{L})(\p{Lu}\.\s*)`, 'gu');
+const ABBREVIATION = new RegExp(String.raw`(?<!\p{L})(\p{L}+\.)\s+(?=\p{Lu})`, 'gu');
 
 // Tokenize text into sentences
 function tokenizeSentences(text: string): string[] {
   // Handle common abbreviations and edge cases
   const prepared = text
-    .replace(/([.?!])\s*([A-Z])/g, "$1\n$2") // Add newline after sentence endings
-    .replace(/(\b[A-Z]\.\s*)/g, "$1 ") // Handle single letter abbreviations like A. B. C.
-    .replace(/(\b[A-Za-z]+\.)\s+(?=[A-Z])/g, "$1\n"); // Handle abbreviations like Mr. Dr. etc.
+    .replace(SENTENCE_END, "$1\n$2") // Add newline after sentence endings
+    .replace(SINGLE_LETTER_ABBREVIATION, "$1 ") // Handle single letter abbreviations like A. B. C.
+    .replace(ABBREVIATION, "$1\n") // Handle abbreviations like Mr. Dr. etc.
+    .replace(/([。！？])\s*/g, "$1\n"); // CJK full stops need no following space or capital
   
   // Split by newlines and filter out empty sentences
   return prepared.split(/\n/).filter(s => s.trim().length > 0);
 }
 
-// Tokenize text into words with more robust handling
-function tokenizeWords(text: string): string[] {
-  // Remove special characters, keep apostrophes for contractions
-  const cleaned = text.toLowerCase().replace(/[^\w\s']|\d+/g, ' ');
-  // Split by whitespace and filter out empty strings
-  return cleaned.split(/\s+/).filter(w => w.length > 0);
+// Tokenize text into words: letters of any script and apostrophes, with runs
+// of CJK characters segmented into words and elided articles split off. With a
+// normalizer, words other than stopwords are replaced by the term their
+// variants share.
+function tokenizeWords(text: string, terms?: TermOptions): string[] {
+  const words = splitWords(splitElisions(text, terms?.language.code), terms?.language.segment);
+  const normalize = terms?.normalize;
+  return normalize ? words.map(w => (terms.language.stopwords.has(w) ? w : normalize(w))) : words;
+}
+
+// How words are counted as terms when scoring: the text's language (word
+// segmentation and stopwords), variants merged by a normalizer, and document
+// frequencies from corpus statistics instead of the text's parts
+type TermOptions = {
+  language: TextLanguage;
+  corpus?: CorpusStatistics;
+  normalize?: TermNormalizer;
+};
+
+// The distinct words of a text, as counted in corpus statistics
+export async function documentTerms(text: string): Promise<string[]> {
+  const segment = await loadCjkSegmenter();
+  return Array.from(new Set(splitWords(splitElisions(text), segment)));
+}
+
+// Stemming and lemmatization only know English words
+async function termOptions(
+  language: TextLanguage,
+  normalization?: TermNormalization,
+  corpus?: CorpusStatistics
+): Promise<TermOptions> {
+  const normalize = language.code === 'en' ? await loadTermNormalizer(normalization) : undefined;
+  return { language, corpus, normalize };
+}
+
+// Words scored as terms, in the language of the text
+function isTerm(word: string, terms: TermOptions): boolean {
+  return isContentWord(word, terms.language.stopwords);
+}
+
+// The number of documents and, per word, how many contain it. With corpus
+// statistics the text itself counts as one more corpus document containing all
+// of its words; otherwise the given documents are the whole corpus.
+function documentFrequencies(
+  documents: string[],
+  terms: TermOptions,
+  include: (word: string) => boolean = () => true
+): { totalDocs: number; wordDocs: Record<string, number> } {
+  const { corpus, normalize } = terms;
+  const wordDocs: Record<string, number> = {};
+  documents.forEach(doc => {
+    // Use a set to count each word only once per document
+    new Set(tokenizeWords(doc, terms).filter(include)).forEach(word => {
+      wordDocs[word] = (wordDocs[word] || 0) + 1;
+    });
+  });
+  
+  if (!corpus) return { totalDocs: documents.length, wordDocs };
+  
+  // The corpus counts written words; a document with any variant of a term
+  // contains the term, so the most common variant is a lower bound
+  let frequencies = corpus.frequencies;
+  if (normalize) {
+    frequencies = new Map();
+    corpus.frequencies.forEach((count, word) => {
+      const term = terms.language.stopwords.has(word) ? word : normalize(word);
+      frequencies.set(term, Math.max(frequencies.get(term) || 0, count));
+    });
+  }
+  for (const word of Object.keys(wordDocs)) {
+    wordDocs[word] = (frequencies.get(word) || 0) + 1;
+  }
+  return { totalDocs: corpus.documentCount + 1, wordDocs };
 }
 
 // Calculate term frequency (TF)
-function calculateTF(text: string): Record<string, number> {
-  const words = tokenizeWords(text);
+function calculateTF(text: string, terms: TermOptions): Record<string, number> {
+  const words = tokenizeWords(text, terms);
   const wordCount: Record<string, number> = {};
   const totalWords = words.length;
   
   words.forEach(word => {
-    if (!STOPWORDS.has(word) && word.length > 2) {
+    if (isTerm(word, terms)) {
       wordCount[word] = (wordCount[word] || 0) + 1;
     }
   });
@@ -75,20 +226,10 @@ function calculateTF(text: string): Record<string, number> {
   return tf;
 }
 
-// Calculate inverse document frequency (IDF) from a collection of documents
-function calculateIDF(documents: string[]): Record<string, number> {
-  const wordDocs: Record<string, number> = {};
-  const totalDocs = documents.length;
-  
-  // Count documents containing each word
-  documents.forEach(doc => {
-    // Use a set to count each word only once per document
-    const uniqueWords = new Set(tokenizeWords(doc).filter(w => !STOPWORDS.has(w) && w.length > 2));
-    
-    uniqueWords.forEach(word => {
-      wordDocs[word] = (wordDocs[word] || 0) + 1;
-    });
-  });
+// Calculate inverse document frequency (IDF) from a collection of documents,
+// or from corpus statistics for the words of those documents
+function calculateIDF(documents: string[], terms: TermOptions): Record<string, number> {
+  const { totalDocs, wordDocs } = documentFrequencies(documents, terms, w => isTerm(w, terms));
   
   // Calculate IDF
   const idf: Record<string, number> = {};
@@ -112,8 +253,8 @@ function calculateTFIDF(tf: Record<string, number>, idf: Record<string, number>)
 }
 
 // Extract phrases (n-grams) from text to catch multi-word concepts
-function extractPhrases(text: string, n: number = 2): Record<string, number> {
-  const words = tokenizeWords(text).filter(w => !STOPWORDS.has(w) && w.length > 2);
+function extractPhrases(text: string, n: number, terms: TermOptions): Record<string, number> {
+  const words = tokenizeWords(text, terms).filter(w => isTerm(w, terms));
   const phrases: Record<string, number> = {};
   
   for (let i = 0; i <= words.length - n; i++) {
@@ -125,11 +266,11 @@ function extractPhrases(text: string, n: number = 2): Record<string, number> {
 }
 
 // Score sentences based on keyword importance (for extractive summarization)
-function scoreSentences(sentences: string[], keywords: Record<string, number>): number[] {
+function scoreSentences(sentences: string[], keywords: Record<string, number>, terms: TermOptions): number[] {
   const scores: number[] = [];
   
   sentences.forEach(sentence => {
-    const words = tokenizeWords(sentence);
+    const words = tokenizeWords(sentence, terms);
     let score = 0;
     
     words.forEach(word => {
@@ -186,126 +327,980 @@ function cosineSimilarity(vectorA: Record<string, number>, vectorB: Record<strin
 // MAIN NLP FUNCTIONS
 // ===================================================================
 
+// Per-call data the translation pipeline needs beyond the request itself
+export type TranslationContext = {
+  // Glossary entries already filtered to the user, target language and domain
+  glossary?: GlossaryEntry[];
+  // Where previously translated segments are looked up and new ones recorded
+  memory?: TranslationMemoryStore;
+  // Owner of the memory entries used and recorded; without one the memory is
+  // skipped, so no caller is shown another user's sentences
+  userId?: number;
+};
+
 // Translation
-export async function translateText(request: TranslationRequest): Promise<TranslationResponse> {
+export async function translateText(request: TranslationRequest, context: TranslationContext = {}): Promise<TranslationResponse> {
   // For demo purposes, if no text is provided, throw an error
   if (!request.text.trim()) {
     throw new Error('No text provided for translation');
   }
   
+  // Resolve the backend outside the try block so configuration errors reach the caller
+  const provider = resolveTranslationProvider(request.provider);
+  
+  // Identify the source language when the caller asked for auto-detection
+  let detectedLanguage: DetectedLanguage | undefined;
+  if (isAutoDetect(request.sourceLanguage)) {
+    const { candidates, ...detection } = await detectLanguage(request.text);
+    detectedLanguage = detection;
+    request = { ...request, sourceLanguage: detection.language };
+  }
+  
+  const glossary = context.glossary ?? [];
+  const memory = request.useTranslationMemory === false || !context.memory || context.userId === undefined
+    ? undefined
+    : { store: context.memory, userId: context.userId };
+  
+  // Only prose reaches the provider; markup, code, URLs and placeholders are rebuilt around it
+  const document = parseMarkup(request.text, request.format);
+  const runs = translatableRuns(document);
+  
   try {
-    // If OpenAI API key is available, we could use it here
-    if (openaiApiKey) {
-      // Implement OpenAI call for translation
-      // Return result
-    }
+    // Formality rules rewrite every translation, from the provider or from
+    // memory, while its glossary terms are still masked
+    const rewriter = await createRegisterRewriter(getLanguageCode(request.targetLanguage), request.formality);
     
-    // Simulate translation for the demo
-    return simulateTranslation(request);
+    // Memory lookups and quality scores both work sentence by sentence
+    const result = memory || request.qualityCheck
+      ? await translateSegments(request, runs, provider, glossary, rewriter, memory)
+      : await translateRuns(request, runs, provider, glossary, rewriter);
+    const { translations, segments: maskedSegments } = result;
+    const registerRules = rewriter?.matches() ?? [];
+    
+    // Segments are reported with their markup restored
+    const segments = maskedSegments?.map((segment, i) => ({
+      ...segment,
+      source: restoreMarkup(segment.source, result.segmentRuns![i], false),
+      translation: restoreMarkup(segment.translation, result.segmentRuns![i], false)
+    }));
+    
+    // Only the words the provider translated go round trip; markup, URLs and
+    // template placeholders would come back mangled and look like errors
+    const quality = request.qualityCheck && segments && maskedSegments
+      ? await estimateQuality(request, provider, segments, maskedSegments.map(segment => ({
+        source: stripPlaceholders(segment.source),
+        translation: stripPlaceholders(segment.translation)
+      })))
+      : undefined;
+    
+    const translatedText = renderMarkup(document, translations);
+    // Only reported when the translation is written in a script that was romanised
+    const transliteration = request.includeTransliteration
+      ? await transliterate(translatedText)
+      : undefined;
+    
+    return {
+      translatedText,
+      characterCount: request.text.length,
+      provider: result.provider,
+      detectedLanguage,
+      glossaryMatches: result.placeholders.length > 0
+        ? summarizeGlossaryMatches({ text: '', placeholders: result.placeholders })
+        : undefined,
+      segments,
+      registerRules: registerRules.length > 0 ? registerRules : undefined,
+      quality,
+      transliteration: transliteration && transliteration.scripts.length > 0 ? transliteration : undefined
+    };
   } catch (error) {
-    console.error('Translation error:', error);
-    throw new Error('Translation failed');
+    console.error(`Translation error (${provider.name}):`, error);
+    throw new Error(`Translation failed: ${error instanceof Error ? error.message : 'unknown error'}`);
   }
 }
 
-// Simulate translation with more realistic output
-function simulateTranslation(request: TranslationRequest): TranslationResponse {
-  // Simple mapping of language prefixes for simulation
-  const languagePrefixes: Record<string, string> = {
-    'Spanish': 'es',
-    'French': 'fr',
-    'German': 'de', 
-    'Chinese': 'zh',
-    'Russian': 'ru',
-    'English': 'en'
-  };
+// Batch translations run at most this many items at once so providers are not flooded
+const BATCH_CONCURRENCY = parseInt(process.env.TRANSLATION_BATCH_CONCURRENCY || '', 10) || 4;
+
+// Translate every text into every target language. Items fail independently:
+// an error is reported on its item and the rest of the batch carries on.
+export async function translateBatch(
+  request: BatchTranslationRequest,
+  contextFor: (targetLanguage: string) => Promise<TranslationContext>
+): Promise<BatchTranslationResponse> {
+  const { text, texts, targetLanguage, targetLanguages, ...options } = request;
+  const sources = texts ?? (text !== undefined ? [text] : []);
+  const targets = Array.from(new Set(targetLanguages ?? (targetLanguage ? [targetLanguage] : [])));
+  
+  if (sources.length === 0 || targets.length === 0) {
+    throw new Error('A batch needs at least one text and one target language');
+  }
+  
+  // Configuration errors concern the whole batch, not individual items
+  resolveTranslationProvider(options.provider);
+  
+  const contexts = new Map<string, TranslationContext>();
+  for (const target of targets) {
+    contexts.set(target, await contextFor(target));
+  }
   
-  const prefix = languagePrefixes[request.targetLanguage] || '';
-  
-  // Simple word-replacement map for common words to simulate translation
-  const translationMap: Record<string, Record<string, string>> = {
-    'es': {
-      'the': 'el', 'a': 'un', 'is': 'es', 'for': 'para', 'hello': 'hola',
-      'world': 'mundo', 'thank': 'gracias', 'you': 'tú', 'good': 'bueno',
-      'morning': 'mañana', 'night': 'noche', 'day': 'día', 'today': 'hoy',
-      'tomorrow': 'mañana', 'yes': 'sí', 'no': 'no', 'please': 'por favor',
-      'welcome': 'bienvenido', 'goodbye': 'adiós'
-    },
-    'fr': {
-      'the': 'le', 'a': 'un', 'is': 'est', 'for': 'pour', 'hello': 'bonjour',
-      'world': 'monde', 'thank': 'merci', 'you': 'vous', 'good': 'bon',
-      'morning': 'matin', 'night': 'nuit', 'day': 'jour', 'today': 'aujourd\'hui',
-      'tomorrow': 'demain', 'yes': 'oui', 'no': 'non', 'please': 's\'il vous plaît',
-      'welcome': 'bienvenue', 'goodbye': 'au revoir'
+  const jobs = targets.flatMap(target => sources.map((source, index) => ({ target, source, index })));
+  const items = await mapWithConcurrency(jobs, BATCH_CONCURRENCY, async (job): Promise<BatchTranslationItem> => {
+    try {
+      const result = await translateText({ ...options, text: job.source, targetLanguage: job.target }, contexts.get(job.target));
+      return { index: job.index, result };
+    } catch (error) {
+      return { index: job.index, error: error instanceof Error ? error.message : 'Translation failed' };
     }
+  });
+  
+  const results: Record<string, BatchTranslationItem[]> = {};
+  jobs.forEach((job, i) => {
+    (results[job.target] ??= []).push(items[i]);
+  });
+  
+  const failed = items.filter(item => item.error !== undefined).length;
+  return {
+    batchId: randomUUID(),
+    results,
+    succeeded: items.length - failed,
+    failed
+  };
+}
+
+// Translations of a document's runs, still carrying their markup placeholders
+type RunTranslations = {
+  translations: string[];
+  provider: string;
+  // Glossary placeholders enforced across all runs
+  placeholders: MaskedText['placeholders'];
+  // Segments still carrying their markup placeholders, and the run of each
+  segments?: TranslationSegment[];
+  segmentRuns?: ProtectedText[];
+};
+
+// Protect glossary terms from the provider and the register rules, then put
+// the enforced terms back. Glossary placeholders are numbered after the run's
+// markup tokens. The memory keeps the translation before the register rules,
+// so requests for any formality can reuse it.
+async function translateMasked(
+  request: TranslationRequest,
+  provider: TranslationProvider,
+  text: string,
+  run: ProtectedText,
+  glossary: GlossaryEntry[],
+  rewriter: RegisterRewriter | null
+): Promise<{ translatedText: string; memoryText: string; masked: MaskedText }> {
+  const masked = maskGlossaryTerms(text, glossary, run.tokens.length);
+  const result = await provider.translate({ ...request, text: masked.text });
+  return {
+    translatedText: restoreGlossaryTerms(rewriter ? rewriter.rewrite(result.translatedText) : result.translatedText, masked),
+    memoryText: restoreGlossaryTerms(result.translatedText, masked),
+    masked
   };
+}
+
+// Translate each run whole, one provider call per run
+async function translateRuns(
+  request: TranslationRequest,
+  runs: ProtectedText[],
+  provider: TranslationProvider,
+  glossary: GlossaryEntry[],
+  rewriter: RegisterRewriter | null
+): Promise<RunTranslations> {
+  const translations: string[] = [];
+  const placeholders: MaskedText['placeholders'] = [];
+  
+  for (const run of runs) {
+    const { translatedText, masked } = await translateMasked(request, provider, run.text, run, glossary, rewriter);
+    translations.push(translatedText);
+    placeholders.push(...masked.placeholders);
+  }
   
-  // If we have a translation map for this language
-  if (prefix && translationMap[prefix]) {
-    const map = translationMap[prefix];
-    const words = request.text.split(/\s+/);
+  return { translations, provider: provider.name, placeholders };
+}
+
+// Translate sentence by sentence. With a memory, exact matches are reused and
+// fuzzy ones reported; only segments without an exact match reach the provider.
+async function translateSegments(
+  request: TranslationRequest,
+  runs: ProtectedText[],
+  provider: TranslationProvider,
+  glossary: GlossaryEntry[],
+  rewriter: RegisterRewriter | null,
+  memory?: { store: TranslationMemoryStore; userId: number }
+): Promise<RunTranslations> {
+  const sourceLanguage = getLanguageCode(request.sourceLanguage) || request.sourceLanguage.toLowerCase();
+  const targetLanguage = getLanguageCode(request.targetLanguage) || request.targetLanguage.toLowerCase();
+  const threshold = request.fuzzyMatchThreshold ?? DEFAULT_FUZZY_THRESHOLD;
+  const scope = memory ? translationMemoryScope(memory.userId, provider.name, request.domain, glossary) : '';
+  
+  const translations: string[] = [];
+  const segments: TranslationSegment[] = [];
+  const segmentRuns: ProtectedText[] = [];
+  const placeholders: MaskedText['placeholders'] = [];
+  const translatedHere = new Map<string, string>();
+  const newEntries: InsertTranslationMemoryEntry[] = [];
+  const usedIds: number[] = [];
+  
+  for (const run of runs) {
+    const located = locateSegments(run.text, tokenizeSentences(run.text));
+    const spans = located.length > 0 ? located : [{ text: run.text, start: 0, end: run.text.length }];
+    const runSegments: TranslationSegment[] = [];
     
-    // Replace known words with their translations
-    const translated = words.map(word => {
-      const lowerWord = word.toLowerCase();
-      // If the word exists in our map, replace it
-      if (map[lowerWord]) {
-        // Preserve case
-        if (word[0] === word[0].toUpperCase()) {
-          return map[lowerWord].charAt(0).toUpperCase() + map[lowerWord].slice(1);
-        }
-        return map[lowerWord];
+    for (const span of spans) {
+      // Memory keys keep markup placeholders, so a sentence matches whatever link or tag it wraps
+      const key = normalizeSegment(span.text);
+      
+      // Repeated sentences within one request are translated once
+      const repeated = translatedHere.get(key);
+      if (repeated !== undefined) {
+        runSegments.push({ source: span.text, translation: repeated, match: 'exact', score: 100 });
+        continue;
       }
-      return word;
+      
+      const entries = memory
+        ? await memory.store.getTranslationMemory({
+          sourceLanguage,
+          targetLanguage,
+          scope,
+          segment: key,
+          ...candidateLengths(key, threshold),
+          limit: MEMORY_CANDIDATE_LIMIT
+        })
+        : [];
+      const match = findMemoryMatch(span.text, entries, threshold);
+      if (match && match.score === 100) {
+        usedIds.push(match.entry.id);
+        // The entry was made with this glossary; report the terms it enforced
+        // and keep them out of the register rules
+        const masked = maskGlossaryTerms(span.text, glossary, run.tokens.length);
+        placeholders.push(...masked.placeholders);
+        const translation = rewriter
+          ? restoreGlossaryTerms(rewriter.rewrite(remaskGlossaryTerms(match.entry.targetSegment, masked)), masked)
+          : match.entry.targetSegment;
+        runSegments.push({ source: span.text, translation, match: 'exact', score: 100 });
+        continue;
+      }
+      
+      const { translatedText, memoryText, masked } = await translateMasked(request, provider, span.text, run, glossary, rewriter);
+      placeholders.push(...masked.placeholders);
+      translatedHere.set(key, translatedText);
+      newEntries.push({
+        sourceLanguage,
+        targetLanguage,
+        scope,
+        sourceSegment: key,
+        targetSegment: normalizeSegment(memoryText),
+        provider: provider.name
+      });
+      runSegments.push({
+        source: span.text,
+        translation: translatedText,
+        match: match ? 'fuzzy' : 'none',
+        score: match?.score ?? 0,
+        memorySource: match?.entry.sourceSegment,
+        memoryTranslation: match?.entry.targetSegment
+      });
+    }
+    
+    // Rebuild the run around the translated sentences so line breaks and spacing survive
+    let translatedText = '';
+    let cursor = 0;
+    spans.forEach((span, i) => {
+      translatedText += run.text.slice(cursor, span.start) + runSegments[i].translation;
+      cursor = span.end;
     });
+    translations.push(translatedText + run.text.slice(cursor));
     
-    return {
-      translatedText: translated.join(' '),
-      characterCount: request.text.length
-    };
+    segments.push(...runSegments);
+    segmentRuns.push(...runSegments.map(() => run));
+  }
+  
+  // A failure to grow the memory should not cost the caller the translation
+  if (memory) {
+    try {
+      await memory.store.saveTranslationMemory(newEntries);
+      await memory.store.recordTranslationMemoryUse(usedIds);
+    } catch (error) {
+      console.error('Translation memory update failed:', error);
+    }
   }
   
-  // Default case if no specific translation map
   return {
-    translatedText: `[${prefix.toUpperCase()}] ${request.text}`,
-    characterCount: request.text.length
+    translations,
+    // Nothing reached the provider when every segment came from memory
+    provider: newEntries.length > 0 || segments.length === 0 ? provider.name : 'translation-memory',
+    placeholders,
+    segments,
+    segmentRuns
   };
 }
 
+// Translate the prose of every segment back into the source language, in one
+// provider call, and score the round trip. The estimate is advisory, so a
+// failing back-translation leaves it out rather than failing a translation
+// that already succeeded.
+async function estimateQuality(
+  request: TranslationRequest,
+  provider: TranslationProvider,
+  segments: TranslationSegment[],
+  prose: Array<{ source: string; translation: string }>
+): Promise<TranslationQuality | undefined> {
+  try {
+    const result = await provider.translate({
+      ...request,
+      text: joinNumbered(prose.map(segment => segment.translation)),
+      sourceLanguage: request.targetLanguage,
+      targetLanguage: request.sourceLanguage
+    });
+    const backTranslations = splitNumbered(result.translatedText, prose.length);
+    if (!backTranslations) {
+      throw new Error('the provider did not keep the segment markers');
+    }
+    
+    const metrics = prose.map((segment, i) => roundTripMetrics(segment.source, segment.translation, backTranslations[i]));
+    const scores = metrics.map(roundTripScore);
+    segments.forEach((segment, i) => {
+      segment.confidence = scores[i];
+    });
+    
+    // Longer segments weigh more in the overall figures
+    const weights = prose.map(segment => Math.max(segment.source.length, 1));
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    const weighted = (values: number[], precision: number) =>
+      Math.round(values.reduce((sum, value, i) => sum + value * weights[i], 0) / totalWeight * precision) / precision;
+    
+    const suspiciousSegments: SuspiciousSegment[] = [];
+    segments.forEach((segment, i) => {
+      const reasons = describeIssues(metrics[i], scores[i]);
+      if (reasons.length > 0) {
+        suspiciousSegments.push({
+          index: i,
+          source: segment.source,
+          translation: segment.translation,
+          backTranslation: backTranslations[i],
+          score: scores[i],
+          reasons
+        });
+      }
+    });
+    
+    return {
+      score: weighted(scores, 10),
+      metrics: {
+        tokenOverlap: weighted(metrics.map(m => m.tokenOverlap), 10),
+        bleu: weighted(metrics.map(m => m.bleu), 10),
+        chrF: weighted(metrics.map(m => m.chrF), 10),
+        untranslatedRatio: weighted(metrics.map(m => m.untranslatedRatio), 100)
+      },
+      backTranslation: backTranslations.join(' '),
+      suspiciousSegments
+    };
+  } catch (error) {
+    console.error(`Quality check failed (${provider.name}):`, error);
+    return undefined;
+  }
+}
+
 // Enhanced Extractive Summarization
-export async function summarizeText(request: SummarizationRequest): Promise<SummarizationResponse> {
+export async function summarizeText(
+  request: SummarizationRequest,
+  onProgress?: (progress: SummaryProgress) => void,
+  corpus?: CorpusStatistics
+): Promise<SummarizationResponse> {
   if (!request.text.trim()) {
     throw new Error('No text provided for summarization');
   }
+  const language = await resolveTextLanguage(request.text, request.language);
   
   try {
-    // If OpenAI API key is available, we could use it for more accurate summarization
-    if (openaiApiKey) {
-      // Implement OpenAI call for summarization 
-      // Return result
+    // Abstractive summaries are written by a language model; when none is configured
+    // or the call fails, the extractive engine answers and says why
+    let fallbackReason: string | undefined;
+    if (request.method === 'abstractive') {
+      if (isAbstractiveAvailable()) {
+        try {
+          const result = await abstractiveSummarize(request, onProgress);
+          return {
+            summary: fitAbstractiveSummary(result.summary, request),
+            method: 'abstractive',
+            engine: 'abstractive',
+            model: result.model,
+            hierarchy: result.hierarchy,
+            language: language.code
+          };
+        } catch (error) {
+          console.error('Abstractive summarization failed, falling back to extractive:', error);
+          fallbackReason = `The summarization model failed: ${(error as Error).message}`;
+        }
+      } else {
+        fallbackReason = 'No summarization model is configured (set OPENAI_API_KEY or OPENAI_BASE_URL)';
+      }
+      request = { ...request, method: 'enhanced_tfidf' };
     }
     
-    // Use our enhanced TF-IDF algorithm for extractive summarization
-    return enhancedSummarize(request);
+    // Long documents are summarized chunk by chunk, then the chunk summaries are summarized
+    const sentences = tokenizeSentences(request.text);
+    const lexicon = await summaryParaphraser(request, language);
+    const terms = await termOptions(language, request.normalization, corpus);
+    const result = sentences.length > LONG_DOCUMENT_SENTENCES
+      ? await hierarchicalSummarize(request, sentences, lexicon, terms, onProgress)
+      // Use our enhanced TF-IDF algorithm for extractive summarization
+      : enhancedSummarize(request, sentences, lexicon, terms);
+    
+    return { ...result, language: language.code, ...(fallbackReason ? { fallbackReason } : {}) };
   } catch (error) {
     console.error('Summarization error:', error);
     throw new Error('Summarization failed');
   }
 }
 
-// Enhanced extractive summarization using TF-IDF and additional techniques
-function enhancedSummarize(request: SummarizationRequest): SummarizationResponse {
-  const { text, length, style } = request;
-  
-  // Tokenize text into sentences
-  const sentences = tokenizeSentences(text);
+// Models treat length limits as suggestions; enforce them on the generated text
+function fitAbstractiveSummary(summary: string, budget: SummaryBudget): string {
+  let fitted = summary;
+  if (budget.maxSentences !== undefined) {
+    const sentences = tokenizeSentences(fitted);
+    if (sentences.length > budget.maxSentences) {
+      fitted = sentences.slice(0, budget.maxSentences).join(fitted.includes('\n') ? '\n' : ' ');
+    }
+  }
   
-  // Calculate length ratio based on summary length parameter
-  const lengthRatio = length === 'short' ? 0.15 : length === 'medium' ? 0.3 : 0.45;
+  const tooLong = (budget.maxCharacters !== undefined && fitted.length > budget.maxCharacters) ||
+    (budget.maxWords !== undefined && countWords(fitted) > budget.maxWords);
+  return tooLong ? truncateToBudget(fitted, budget.maxCharacters, budget.maxWords) : fitted;
+}
+
+// A sentence with its position in the text, final score and redundancy cluster
+type ScoredSentence = {
+  sentence: string;
+  originalIndex: number;
+  score: number;
+  cluster: number;
+};
+
+// Share of the sentences kept for each summary length
+const SUMMARY_LENGTH_RATIO = { short: 0.15, medium: 0.3, long: 0.45 };
+
+// Extractive summarization: rank sentences with the requested method, then
+// select a diverse set of them and format it in the requested style
+function enhancedSummarize(
+  request: SummarizationRequest,
+  sentences: string[],
+  lexicon: ParaphraseLexicon | null,
+  terms: TermOptions
+): SummarizationResponse {
+  const { text, length, style, method = 'enhanced_tfidf', query } = request;
   
   // Calculate target number of sentences
-  const numSentences = Math.max(1, Math.ceil(sentences.length * lengthRatio));
+  const numSentences = Math.max(1, Math.ceil(sentences.length * SUMMARY_LENGTH_RATIO[length]));
+  
+  const { scoredSentences, focus } = rankSentences(text, sentences, method, query, terms);
+  const orderedSentences = hasBudget(request)
+    ? selectSentencesWithinBudget(scoredSentences, request, style)
+    : selectSentences(scoredSentences, numSentences);
+  const rendered = fitToBudget(renderSentences(orderedSentences, style, lexicon), orderedSentences, request, style);
+  
+  return {
+    summary: formatSummary(rendered.map(r => r.text), style),
+    method,
+    engine: 'extractive',
+    focus,
+    sentences: traceSentences(text, sentences, orderedSentences, rendered, true)
+  };
+}
+
+// Score every sentence with the requested method and assign redundancy clusters
+function rankSentences(
+  text: string,
+  sentences: string[],
+  method: SummarizationMethod,
+  query: string | undefined,
+  terms: TermOptions
+): { scoredSentences: ScoredSentence[]; focus?: SummaryQueryFocus } {
+  let sentenceScores = method === 'textrank' || method === 'lexrank'
+    ? scoreSentencesByGraph(sentences, method, terms)
+    : scoreSentencesWithTFIDF(text, sentences, terms);
+  
+  // Blend in relevance to the query; without any matching sentence the summary stays general
+  let focus: SummaryQueryFocus | undefined;
+  if (query?.trim()) {
+    const relevance = scoreQueryRelevance(query, sentences, terms.language);
+    focus = relevance.focus;
+    if (focus.matchedSentences > 0) {
+      const best = Math.max(...sentenceScores, 0) || 1;
+      sentenceScores = sentenceScores.map((score, index) =>
+        (1 - QUERY_RELEVANCE_WEIGHT) * (score / best) + QUERY_RELEVANCE_WEIGHT * relevance.scores[index]
+      );
+    }
+  }
+  
+  // Analyze sentence similarity for redundancy reduction
+  const similarityClusters = clusterSimilarSentences(sentences, terms);
+  
+  // Create sentence objects with original index and final score
+  const scoredSentences = sentences.map((sentence, index) => ({
+    sentence,
+    originalIndex: index,
+    score: sentenceScores[index],
+    cluster: similarityClusters[index] // Track similarity cluster
+  }));
+  
+  return { scoredSentences, focus };
+}
+
+// Pick the best sentences while avoiding near-duplicates, returned in document order
+function selectSentences(scoredSentences: ScoredSentence[], numSentences: number): ScoredSentence[] {
+  // Rank sentences but avoid redundancy using clusters
+  const rankedSentences = [...scoredSentences].sort((a, b) => b.score - a.score);
+  
+  // Select sentences with diversity (avoid similar sentences)
+  const selectedSentences: ScoredSentence[] = [];
+  const selectedClusters = new Set<number>();
+  
+  for (const sentence of rankedSentences) {
+    // If we already have enough sentences, stop
+    if (selectedSentences.length >= numSentences) break;
+    
+    // If this sentence belongs to a cluster we've already taken from,
+    // skip unless it's a very high-scoring sentence
+    if (selectedClusters.has(sentence.cluster) && sentence.score < 0.8) {
+      continue;
+    }
+    
+    selectedSentences.push(sentence);
+    selectedClusters.add(sentence.cluster);
+  }
+  
+  // If we didn't get enough sentences, add more from the ranked list
+  for (const sentence of rankedSentences) {
+    if (selectedSentences.length >= numSentences) break;
+    if (!selectedSentences.includes(sentence)) {
+      selectedSentences.push(sentence);
+    }
+  }
+  
+  // Re-order sentences based on original position for readability
+  return selectedSentences.sort((a, b) => a.originalIndex - b.originalIndex);
+}
+
+// Pick the highest-scoring set of sentences that fits the length budget, in document
+// order. Each redundancy cluster offers only its best sentence. When not even one
+// sentence fits, the best one is taken and cut down by fitToBudget.
+function selectSentencesWithinBudget(
+  scoredSentences: ScoredSentence[],
+  budget: SummaryBudget,
+  style: SummarizationRequest['style']
+): ScoredSentence[] {
+  const representatives = new Map<number, ScoredSentence>();
+  for (const sentence of scoredSentences) {
+    const current = representatives.get(sentence.cluster);
+    if (!current || sentence.score > current.score) {
+      representatives.set(sentence.cluster, sentence);
+    }
+  }
   
+  const candidates = Array.from(representatives.values()).sort((a, b) => a.originalIndex - b.originalIndex);
+  const chosen = selectWithinBudget(
+    candidates.map(s => ({ value: s.score, words: countWords(s.sentence), characters: s.sentence.length })),
+    budget,
+    style === 'bullet_points' ? { perSentence: 4, saved: 2 } : { perSentence: 1, saved: 1 }
+  );
+  
+  if (chosen.length === 0 && candidates.length > 0) {
+    return [candidates.reduce((best, s) => s.score > best.score ? s : best)];
+  }
+  return chosen.map(index => candidates[index]);
+}
+
+// Make the rendered sentences respect the word and character budgets. Rewording can
+// lengthen a sentence, so the source wording is used where it is shorter; a single
+// sentence that is over budget on its own is cut at a word boundary.
+function fitToBudget(
+  rendered: RenderedSentence[],
+  orderedSentences: ScoredSentence[],
+  budget: SummaryBudget,
+  style: SummarizationRequest['style']
+): RenderedSentence[] {
+  const { maxWords, maxCharacters } = budget;
+  const fits = (sentences: RenderedSentence[]) => {
+    const summary = formatSummary(sentences.map(r => r.text), style);
+    return (maxCharacters === undefined || summary.length <= maxCharacters) &&
+      (maxWords === undefined || countWords(summary) <= maxWords);
+  };
+  if (rendered.length === 0 || fits(rendered)) return rendered;
+  
+  // A rewording longer than its source sentence gives way to the source
+  const shorter = rendered.map((r, i) =>
+    orderedSentences[i].sentence.length < r.text.length ? { text: orderedSentences[i].sentence, paraphrased: false } : r
+  );
+  if (fits(shorter)) return shorter;
+  
+  // Whatever the other sentences and the format take is not available to the last one
+  const last = shorter[shorter.length - 1];
+  const summary = formatSummary(shorter.map(r => r.text), style);
+  const cut = truncateToBudget(
+    last.text,
+    maxCharacters === undefined ? undefined : maxCharacters - (summary.length - last.text.length),
+    maxWords === undefined ? undefined : maxWords - (countWords(summary) - countWords(last.text))
+  );
+  return [...shorter.slice(0, -1), { ...last, text: cut }];
+}
+
+// Chance that each applicable paraphrasing change is made to a summary sentence
+const SUMMARY_PARAPHRASE_STRENGTH = 0.35;
+
+// The paraphrasing word lists when the summary should be reworded: by default only
+// informative summaries are, bullet points and simplified text keep the source words
+async function summaryParaphraser(
+  request: Pick<SummarizationRequest, 'style' | 'paraphrase'>,
+  language: TextLanguage
+): Promise<ParaphraseLexicon | null> {
+  // The paraphrasing word lists are English
+  if (language.code !== 'en') return null;
+  const wanted = request.paraphrase ?? (request.style || 'informative') === 'informative';
+  return wanted ? loadParaphraseLexicon() : null;
+}
+
+// A summary sentence as worded, and whether the paraphraser reworded it;
+// simplified or shortened sentences are not paraphrases
+type RenderedSentence = {
+  text: string;
+  paraphrased: boolean;
+};
+
+// Word the selected sentences for the requested style, reworded when a paraphrasing
+// lexicon is given. Each sentence is paraphrased with a seed derived from its own
+// text, so the same sentence reads the same in every summary.
+function renderSentences(
+  orderedSentences: ScoredSentence[],
+  style: SummarizationRequest['style'],
+  lexicon: ParaphraseLexicon | null
+): RenderedSentence[] {
+  const worded = style !== 'simplified'
+    ? orderedSentences.map(s => s.sentence)
+    // Apply more advanced simplification techniques
+    : orderedSentences.map(s => 
+      s.sentence
+        .replace(/\([^)]*\)/g, '') // Remove parentheticals
+        .replace(/,\s*[^,]+(,|$)/g, '$1') // Remove some clauses
+        .replace(/which\s[^,]+/g, '') // Remove 'which' clauses
+        .replace(/\s{2,}/g, ' ') // Clean up extra spaces
+        .trim()
+    );
+  
+  if (!lexicon) {
+    return worded.map(text => ({ text, paraphrased: false }));
+  }
+  const context = worded.join(' ');
+  return worded.map(sentence => {
+    const result = paraphrase(lexicon, sentence, { strength: SUMMARY_PARAPHRASE_STRENGTH, context });
+    return { text: result.text, paraphrased: result.changes.length > 0 };
+  });
+}
+
+// Join the rendered sentences in the requested style. Citations, when given,
+// are appended to the sentence at the same position.
+function formatSummary(rendered: string[], style: SummarizationRequest['style'], citations?: string[]): string {
+  const cited = citations ? rendered.map((sentence, i) => `${sentence} ${citations[i]}`) : rendered;
+  
+  if (style === 'bullet_points') {
+    return cited.map(sentence => `• ${sentence}`).join('\n\n');
+  }
+  return cited.join(' ');
+}
+
+// Trace every summary sentence back to the text it came from. All sentences of the
+// text are located first; when the selected sentences are not indexed into them
+// (hierarchical summaries), each one is searched for and mapped to the sentence
+// that contains it. Sentences that cannot be found get -1 positions.
+function traceSentences(
+  text: string,
+  sentences: string[],
+  orderedSentences: ScoredSentence[],
+  rendered: RenderedSentence[],
+  indexed: boolean
+): SummarySentence[] {
+  const spans = locateSentences(text, sentences);
+  const found = indexed
+    ? orderedSentences.map(s => spans[s.originalIndex])
+    : locateSentences(text, orderedSentences.map(s => s.sentence));
+  
+  return orderedSentences.map((s, i) => {
+    const span = found[i];
+    return {
+      text: rendered[i].text,
+      index: !span ? -1 : indexed ? s.originalIndex : findSpanIndex(spans, span.start),
+      start: span ? span.start : -1,
+      end: span ? span.end : -1,
+      score: s.score,
+      cluster: s.cluster,
+      paraphrased: rendered[i].paraphrased
+    };
+  });
+}
+
+// Documents with more sentences than this are summarized hierarchically
+const LONG_DOCUMENT_SENTENCES = 300;
+// Absolute summary lengths for long documents, where a ratio would produce pages
+const LONG_DOCUMENT_SUMMARY_SENTENCES = { short: 5, medium: 12, long: 25 };
+// Sentences handed to the final summarization pass
+const REDUCE_INPUT_SENTENCES = 150;
+
+// Map-reduce summarization: chunks are summarized independently (map), and their
+// summaries are regrouped and summarized again until few enough sentences remain
+// for the final pass (reduce). Every pass is quadratic only within a chunk.
+async function hierarchicalSummarize(
+  request: SummarizationRequest,
+  sentences: string[],
+  lexicon: ParaphraseLexicon | null,
+  terms: TermOptions,
+  onProgress?: (progress: SummaryProgress) => void
+): Promise<SummarizationResponse> {
+  const { text, length, style, method = 'enhanced_tfidf', query } = request;
+  
+  const { candidates, chunks, levels } = await condenseDocument(text, method, query, terms, onProgress);
+  
+  onProgress?.({ stage: 'reduce', level: levels + 1, completed: 0, total: 1 });
+  const { scoredSentences, focus } = rankSentences(candidates.join(' '), candidates, method, query, terms);
+  const orderedSentences = hasBudget(request)
+    ? selectSentencesWithinBudget(scoredSentences, request, style)
+    : selectSentences(scoredSentences, LONG_DOCUMENT_SUMMARY_SENTENCES[length]);
+  const rendered = fitToBudget(renderSentences(orderedSentences, style, lexicon), orderedSentences, request, style);
+  onProgress?.({ stage: 'reduce', level: levels + 1, completed: 1, total: 1 });
+  
+  return {
+    summary: formatSummary(rendered.map(r => r.text), style),
+    method,
+    engine: 'extractive',
+    focus,
+    hierarchy: { chunks, levels: levels + 1 },
+    sentences: traceSentences(text, sentences, orderedSentences, rendered, false)
+  };
+}
+
+// The map passes of hierarchical summarization: reduce a long document to about
+// REDUCE_INPUT_SENTENCES of its best sentences, in document order
+async function condenseDocument(
+  text: string,
+  method: SummarizationMethod,
+  query: string | undefined,
+  terms: TermOptions,
+  onProgress?: (progress: SummaryProgress) => void
+): Promise<{ candidates: string[]; chunks: number; levels: number }> {
+  const chunks = chunkDocument(text);
+  let units = chunks.map(chunk => chunk.text);
+  let candidates: string[] = [];
+  let level = 0;
+  
+  do {
+    level++;
+    // Keep enough from each chunk that the next pass has about REDUCE_INPUT_SENTENCES to choose from
+    const keep = Math.max(1, Math.ceil(REDUCE_INPUT_SENTENCES / units.length));
+    candidates = [];
+    
+    for (let index = 0; index < units.length; index++) {
+      const sentences = tokenizeSentences(units[index]);
+      if (sentences.length > 0) {
+        const { scoredSentences } = rankSentences(units[index], sentences, method, query, terms);
+        candidates.push(...selectSentences(scoredSentences, Math.min(keep, sentences.length)).map(s => s.sentence));
+      }
+      
+      onProgress?.({ stage: 'map', level, completed: index + 1, total: units.length });
+      // Let progress reach the client and other requests run between chunks
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    
+    units = chunkSentences(candidates);
+  } while (candidates.length > REDUCE_INPUT_SENTENCES && units.length > 1);
+  
+  return { candidates, chunks: chunks.length, levels: level };
+}
+
+// Extra weight per additional document that makes the same statement
+const CORROBORATION_BOOST = 0.5;
+
+// Multi-document summarization. Each document is ranked on its own so that long
+// documents cannot drown out short ones; sentences are then clustered across
+// documents, statements confirmed by several sources are boosted, and every
+// cluster contributes at most one sentence, attributed to all of its sources.
+export async function summarizeDocuments(
+  documents: SummaryDocument[],
+  options: Omit<MultiDocumentSummarizationRequest, 'texts' | 'fileIds'>
+): Promise<MultiDocumentSummarizationResponse> {
+  const { length, style, method = 'enhanced_tfidf', query } = options;
+  if (documents.length === 0 || documents.every(document => !document.text.trim())) {
+    throw new Error('No text provided for summarization');
+  }
+  const language = await resolveTextLanguage(documents.map(document => document.text).join('\n\n'), options.language);
+  const terms = await termOptions(language, options.normalization);
+  
+  const pool: Array<ScoredSentence & { document: number }> = [];
+  const documentInfo: MultiDocumentSummarizationResponse['documents'] = [];
+  let focus: SummaryQueryFocus | undefined;
+  const unfocused = new Set<number>();
+  
+  for (let index = 0; index < documents.length; index++) {
+    const { title, text, fileId } = documents[index];
+    let sentences = tokenizeSentences(text);
+    documentInfo.push({ title, fileId, sentences: sentences.length });
+    if (sentences.length === 0) continue;
+    
+    // Long documents are first condensed the same way hierarchical summarization does
+    let rankedText = text;
+    if (sentences.length > LONG_DOCUMENT_SENTENCES) {
+      sentences = (await condenseDocument(text, method, query, terms)).candidates;
+      rankedText = sentences.join(' ');
+    }
+    
+    const ranked = rankSentences(rankedText, sentences, method, query, terms);
+    focus = mergeQueryFocus(focus, ranked.focus);
+    
+    // Scale per document so that every source's best sentence scores 1
+    const best = Math.max(...ranked.scoredSentences.map(s => s.score), 0) || 1;
+    for (const scored of ranked.scoredSentences) {
+      pool.push({ ...scored, score: scored.score / best, document: index });
+    }
+    if (ranked.focus && ranked.focus.matchedSentences === 0) unfocused.add(index);
+  }
+  
+  // A document that never mentions the query only keeps the general share of its
+  // scores, as its sentences would within a focused document
+  if (focus && focus.matchedSentences > 0) {
+    for (const entry of pool) {
+      if (unfocused.has(entry.document)) entry.score *= 1 - QUERY_RELEVANCE_WEIGHT;
+    }
+  }
+  
+  // Group statements across documents and record which documents make each one
+  const clusters = clusterSimilarSentences(pool.map(entry => entry.sentence), terms);
+  const sources = new Map<number, Set<number>>();
+  pool.forEach((entry, i) => {
+    entry.cluster = clusters[i];
+    if (!sources.has(entry.cluster)) sources.set(entry.cluster, new Set());
+    sources.get(entry.cluster)!.add(entry.document);
+  });
+  
+  // Prefer information confirmed by several sources, then keep the best sentence per statement
+  const representatives = new Map<number, ScoredSentence & { document: number }>();
+  for (const entry of pool) {
+    const boosted = entry.score * (1 + CORROBORATION_BOOST * (sources.get(entry.cluster)!.size - 1));
+    const current = representatives.get(entry.cluster);
+    if (!current || boosted > current.score) {
+      representatives.set(entry.cluster, { ...entry, score: boosted });
+    }
+  }
+  
+  const statements = Array.from(representatives.values());
+  const numSentences = Math.min(
+    LONG_DOCUMENT_SUMMARY_SENTENCES[length],
+    Math.max(1, Math.ceil(statements.length * SUMMARY_LENGTH_RATIO[length]))
+  );
+  
+  // Present the chosen sentences document by document, in each document's order
+  const selected = statements
+    .sort((a, b) => b.score - a.score)
+    .slice(0, numSentences)
+    .sort((a, b) => a.document - b.document || a.originalIndex - b.originalIndex);
+  
+  const rendered = renderSentences(selected, style, await summaryParaphraser(options, language));
+  const sentences = selected.map((entry, i) => ({
+    text: rendered[i].text,
+    document: entry.document,
+    sources: Array.from(sources.get(entry.cluster)!).sort((a, b) => a - b),
+    paraphrased: rendered[i].paraphrased
+  }));
+  
+  return {
+    summary: formatSummary(
+      rendered.map(r => r.text),
+      style,
+      sentences.map(s => `[${s.sources.map(source => source + 1).join(', ')}]`)
+    ),
+    method,
+    documents: documentInfo,
+    sentences,
+    sharedStatements: Array.from(sources.values()).filter(documentSet => documentSet.size > 1).length,
+    focus,
+    language: language.code
+  };
+}
+
+// Combine the query focus of several documents into one description
+function mergeQueryFocus(merged: SummaryQueryFocus | undefined, next: SummaryQueryFocus | undefined): SummaryQueryFocus | undefined {
+  if (!merged || !next) return merged || next;
+  return {
+    terms: merged.terms,
+    expansionTerms: Array.from(new Set([...merged.expansionTerms, ...next.expansionTerms])),
+    matchedSentences: merged.matchedSentences + next.matchedSentences
+  };
+}
+
+// Share of a sentence's score that comes from query relevance in a focused summary
+const QUERY_RELEVANCE_WEIGHT = 0.7;
+// Weight of an expansion keyword relative to a word the user typed
+const QUERY_EXPANSION_WEIGHT = 0.3;
+// Best-matching sentences that feed keywords back into the query
+const QUERY_FEEDBACK_SENTENCES = 3;
+// Words that frame a question rather than say what it is about
+const QUERY_FILLER_WORDS = new Set([
+  'say', 'says', 'said', 'tell', 'tells', 'mention', 'mentions', 'mentioned', 'describe', 'describes',
+  'explain', 'explains', 'regarding', 'concerning', 'document', 'text', 'article', 'anything', 'something'
+]);
+
+// BM25 relevance of each sentence to the query, scaled so the best scores 1. The
+// query is expanded with keywords of the sentences it matches best (pseudo-relevance
+// feedback), so "termination" also finds sentences about notice periods and ending.
+function scoreQueryRelevance(
+  query: string,
+  sentences: string[],
+  language: TextLanguage
+): { scores: number[]; focus: SummaryQueryFocus } {
+  const words: TermOptions = { language };
+  const queryWords = tokenizeWords(query, words);
+  const contentWords = queryWords.filter(word => isTerm(word, words) && !QUERY_FILLER_WORDS.has(word));
+  const terms = Array.from(new Set(contentWords.length > 0 ? contentWords : queryWords));
+  
+  const weights: Record<string, number> = {};
+  terms.forEach(term => { weights[term] = 1; });
+  
+  const tokenized = sentences.map(sentence => tokenizeWords(sentence, words));
+  const initial = bm25Scores(weights, tokenized);
+  
+  const feedback = initial
+    .map((score, index) => ({ score, index }))
+    .filter(entry => entry.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, QUERY_FEEDBACK_SENTENCES)
+    .map(entry => sentences[entry.index]);
+  
+  const expansionTerms: string[] = [];
+  if (feedback.length > 0) {
+    for (const { keyword, score } of extractWithEnhancedTFIDF(feedback.join(' '), sentences, 5, words)) {
+      for (const word of keyword.split(' ')) {
+        if (weights[word] !== undefined || !isTerm(word, words)) continue;
+        weights[word] = QUERY_EXPANSION_WEIGHT * score;
+        expansionTerms.push(word);
+      }
+    }
+  }
+  
+  const scores = expansionTerms.length > 0 ? bm25Scores(weights, tokenized) : initial;
+  const best = Math.max(...scores, 0);
+  
+  return {
+    scores: best > 0 ? scores.map(score => score / best) : scores,
+    focus: {
+      terms,
+      expansionTerms,
+      matchedSentences: initial.filter(score => score > 0).length
+    }
+  };
+}
+
+// Score sentences with TF-IDF, BM25+ and phrase statistics, weighted by position and length
+function scoreSentencesWithTFIDF(text: string, sentences: string[], terms: TermOptions): number[] {
+  const { normalize } = terms;
+
   // Break text into paragraphs to treat them as documents for IDF calculation
   const paragraphs = text.split(/\n\n+/).filter(p => p.trim().length > 0);
   
@@ -317,22 +1312,19 @@ function enhancedSummarize(request: SummarizationRequest): SummarizationResponse
   
   // 1. Apply BM25+ algorithm (TF-IDF variant used in search engines)
   // Calculate TF with BM25+ weighting
-  const tfBM25 = calculateTFWithBM25(text, sentences);
+  const tfBM25 = calculateTFWithBM25(text, sentences, terms);
   
   // 2. Calculate IDF with smoothing to prevent zero values
-  const idf = calculateIDFWithSmoothing(documents);
+  const idf = calculateIDFWithSmoothing(documents, terms);
   
   // 3. Calculate standard TF-IDF
-  const tf = calculateTF(text);
+  const tf = calculateTF(text, terms);
   const tfidf = calculateTFIDF(tf, idf);
   
   // 4. ADVANCED: Extract multi-word phrases (2-3 words) for context preservation
-  const phrases = extractPhrases(text, 3); // Extract up to 3-word phrases
-  
-  // 5. ADVANCED: Analyze sentence similarity for redundancy reduction
-  const similarityClusters = clusterSimilarSentences(sentences);
+  const phrases = extractPhrases(text, 3, terms); // Extract up to 3-word phrases
   
-  // 6. ADVANCED: Apply domain-specific boosting of important terms
+  // 5. ADVANCED: Apply domain-specific boosting of important terms
   // Merge single-word and phrase scores with intelligent weighting
   const keywordScores: Record<string, number> = { ...tfidf };
   
@@ -346,16 +1338,16 @@ function enhancedSummarize(request: SummarizationRequest): SummarizationResponse
     }
   });
   
-  // 7. Score sentences using multiple factors
-  const initialSentenceScores = scoreSentences(sentences, keywordScores);
+  // 6. Score sentences using multiple factors
+  const initialSentenceScores = scoreSentences(sentences, keywordScores, terms);
   
-  // 8. ADVANCED: Apply positional weighting with Gaussian distribution
+  // 7. ADVANCED: Apply positional weighting with Gaussian distribution
   //    to prioritize intro and conclusion content
   const positionAdjustedScores = initialSentenceScores.map((score, index) => 
     score * getEnhancedPositionWeight(index, sentences.length)
   );
   
-  // 9. ADVANCED: Consider sentence length - penalize very short/long sentences
+  // 8. ADVANCED: Consider sentence length - penalize very short/long sentences
   const lengthAdjustedScores = positionAdjustedScores.map((score, index) => {
     const sentenceLength = sentences[index].split(/\\s+/).length;
     const lengthFactor = sentenceLength < 5 ? 0.7 : // Too short
@@ -364,89 +1356,59 @@ function enhancedSummarize(request: SummarizationRequest): SummarizationResponse
     return score * lengthFactor;
   });
   
-  // 10. ADVANCED: Boost sentences that contain the most frequent phrases
+  // 9. ADVANCED: Boost sentences that contain the most frequent phrases
   const topPhrases = Object.entries(phrases)
     .sort((a, b) => b[1] - a[1])
     .slice(0, 5)
     .map(entry => entry[0]);
     
+  // Normalized phrases, and phrases of languages whose words the text may not
+  // separate by spaces, are looked for among the sentence's content words
+  const phraseTexts = normalize || terms.language.code !== 'en'
+    ? sentences.map(sentence => tokenizeWords(sentence, terms).filter(w => isTerm(w, terms)).join(' '))
+    : sentences;
   const phraseBoostScores = lengthAdjustedScores.map((score, index) => {
     let phraseBoost = 1.0;
     for (const phrase of topPhrases) {
-      if (sentences[index].includes(phrase)) {
+      if (phraseTexts[index].includes(phrase)) {
         phraseBoost += 0.2; // 20% boost per important phrase
       }
     }
     return score * phraseBoost;
   });
   
-  // Create sentence objects with original index and final score
-  const scoredSentences = sentences.map((sentence, index) => ({
-    sentence,
-    originalIndex: index,
-    score: phraseBoostScores[index],
-    cluster: similarityClusters[index] // Track similarity cluster
-  }));
-  
-  // 11. ADVANCED: Rank sentences but avoid redundancy using clusters
-  const rankedSentences = [...scoredSentences].sort((a, b) => b.score - a.score);
-  
-  // 12. ADVANCED: Select sentences with diversity (avoid similar sentences)
-  const selectedSentences: typeof rankedSentences = [];
-  const selectedClusters = new Set<number>();
-  
-  for (const sentence of rankedSentences) {
-    // If we already have enough sentences, stop
-    if (selectedSentences.length >= numSentences) break;
-    
-    // If this sentence belongs to a cluster we've already taken from,
-    // skip unless it's a very high-scoring sentence
-    if (selectedClusters.has(sentence.cluster) && sentence.score < 0.8) {
-      continue;
-    }
-    
-    selectedSentences.push(sentence);
-    selectedClusters.add(sentence.cluster);
-  }
-  
-  // If we didn't get enough sentences, add more from the ranked list
-  while (selectedSentences.length < numSentences && selectedSentences.length < rankedSentences.length) {
-    const nextSentence = rankedSentences[selectedSentences.length];
-    if (!selectedSentences.includes(nextSentence)) {
-      selectedSentences.push(nextSentence);
+  return phraseBoostScores;
+}
+
+// Score sentences by their centrality in a sentence graph, scaled so the best scores 1.
+// TextRank weighs edges by the cosine similarity of term counts; LexRank links
+// sentences whose IDF-weighted cosine similarity clears a threshold.
+function scoreSentencesByGraph(
+  sentences: string[],
+  method: Exclude<SummarizationMethod, 'enhanced_tfidf'>,
+  terms: TermOptions
+): number[] {
+  const idf = method === 'lexrank' ? calculateIDFWithSmoothing(sentences, terms) : null;
+  
+  const vectors = sentences.map(sentence => {
+    const vector: Record<string, number> = {};
+    for (const word of tokenizeWords(sentence, terms)) {
+      if (isTerm(word, terms)) {
+        vector[word] = (vector[word] || 0) + (idf ? idf[word] || 1 : 1);
+      }
     }
-  }
-  
-  // 13. Re-order sentences based on original position for readability
-  const orderedSentences = selectedSentences.sort((a, b) => a.originalIndex - b.originalIndex);
+    return vector;
+  });
   
-  // 14. Format based on style with enhanced output formatting
-  let summary = '';
-  if (style === 'bullet_points') {
-    summary = orderedSentences.map(s => `• ${s.sentence}`).join('\n\n');
-  } else if (style === 'simplified') {
-    // Apply more advanced simplification techniques
-    summary = orderedSentences.map(s => 
-      s.sentence
-        .replace(/\([^)]*\)/g, '') // Remove parentheticals
-        .replace(/,\s*[^,]+(,|$)/g, '$1') // Remove some clauses
-        .replace(/which\s[^,]+/g, '') // Remove 'which' clauses
-        .replace(/\s{2,}/g, ' ') // Clean up extra spaces
-        .trim()
-    ).join(' ');
-  } else { // informative (default)
-    // For informative style, add light paraphrasing by varying sentence structure
-    // This increases copyright-friendly qualities by changing expression while preserving meaning
-    summary = orderedSentences.map((s, i) => {
-      // Apply various light transformations to every other sentence for variety
-      if (i % 2 === 1) {
-        return lightParaphrase(s.sentence);
-      }
-      return s.sentence;
-    }).join(' ');
-  }
+  const graph = buildSentenceGraph(
+    sentences.length,
+    (a, b) => cosineSimilarity(vectors[a], vectors[b]),
+    method === 'lexrank' ? LEXRANK_THRESHOLD : undefined
+  );
+  const scores = pageRank(graph);
   
-  return { summary };
+  const best = Math.max(...scores, 0);
+  return best > 0 ? scores.map(score => score / best) : scores;
 }
 
 // Helper function for enhanced position weighting with emphasis on intro and conclusion
@@ -477,8 +1439,8 @@ function getEnhancedPositionWeight(index: number, total: number): number {
 }
 
 // Calculate TF using BM25+ formula for better term weighting
-function calculateTFWithBM25(text: string, sentences: string[]): Record<string, number> {
-  const words = tokenizeWords(text);
+function calculateTFWithBM25(text: string, sentences: string[], terms: TermOptions): Record<string, number> {
+  const words = tokenizeWords(text, terms);
   const wordCount: Record<string, number> = {};
   const result: Record<string, number> = {};
   
@@ -495,15 +1457,21 @@ function calculateTFWithBM25(text: string, sentences: string[]): Record<string,
   const b = 0.75; // Length normalization parameter
   const delta = 1.0; // BM25+ delta parameter
   
+  // Tokenize each sentence once rather than once per word
+  const sentenceCounts = sentences.map(sentence => {
+    const sentWords = tokenizeWords(sentence, terms);
+    const counts: Record<string, number> = {};
+    sentWords.forEach(w => { counts[w] = (counts[w] || 0) + 1; });
+    return { length: sentWords.length, counts };
+  });
+  
   // Calculate BM25+ term frequency for each word
   for (const word of Object.keys(wordCount)) {
     const tf = wordCount[word];
     
     // Get the word's frequency in each sentence for normalization
-    const sentenceFreqs: number[] = sentences.map(sentence => {
-      const sentWords = tokenizeWords(sentence);
-      const sentLength = sentWords.length;
-      const wordInSent = sentWords.filter(w => w === word).length;
+    const sentenceFreqs: number[] = sentenceCounts.map(({ length: sentLength, counts }) => {
+      const wordInSent = counts[word] || 0;
       
       // BM25+ formula component for this sentence
       return ((k1 + 1) * wordInSent) / 
@@ -518,19 +1486,10 @@ function calculateTFWithBM25(text: string, sentences: string[]): Record<string,
 }
 
 // Calculate IDF with smoothing to prevent division by zero
-function calculateIDFWithSmoothing(documents: string[]): Record<string, number> {
-  const docCount = documents.length;
-  const wordInDocCount: Record<string, number> = {};
+function calculateIDFWithSmoothing(documents: string[], terms: TermOptions): Record<string, number> {
+  const { totalDocs: docCount, wordDocs: wordInDocCount } = documentFrequencies(documents, terms);
   const result: Record<string, number> = {};
   
-  // Count documents containing each word
-  for (const doc of documents) {
-    const words = new Set(tokenizeWords(doc));
-    for (const word of words) {
-      wordInDocCount[word] = (wordInDocCount[word] || 0) + 1;
-    }
-  }
-  
   // Calculate IDF with smoothing
   for (const word in wordInDocCount) {
     // Add 1 to both numerator and denominator for smoothing
@@ -541,10 +1500,13 @@ function calculateIDFWithSmoothing(documents: string[]): Record<string, number>
 }
 
 // Cluster similar sentences to avoid redundancy
-function clusterSimilarSentences(sentences: string[]): number[] {
+function clusterSimilarSentences(sentences: string[], terms: TermOptions): number[] {
   const clusters: number[] = Array(sentences.length).fill(-1);
   let clusterCount = 0;
   
+  // Word vectors are built once; the pairwise comparison is quadratic
+  const vectors = sentences.map(sentence => sentenceVector(sentence, terms));
+  
   // A simple clustering approach based on cosine similarity
   for (let i = 0; i < sentences.length; i++) {
     if (clusters[i] === -1) {
@@ -555,7 +1517,7 @@ function clusterSimilarSentences(sentences: string[]): number[] {
       for (let j = i + 1; j < sentences.length; j++) {
         if (clusters[j] === -1) {
           // Calculate similarity between sentences i and j
-          const similarity = calculateSentenceSimilarity(sentences[i], sentences[j]);
+          const similarity = cosineSimilarity(vectors[i], vectors[j]);
           
           // If similarity is above threshold, add to same cluster
           if (similarity > 0.5) {
@@ -572,82 +1534,187 @@ function clusterSimilarSentences(sentences: string[]): number[] {
 }
 
 // Calculate similarity between two sentences
-function calculateSentenceSimilarity(sentA: string, sentB: string): number {
-  const wordsA = tokenizeWords(sentA);
-  const wordsB = tokenizeWords(sentB);
-  
-  // Create word frequency vectors
-  const vecA: Record<string, number> = {};
-  const vecB: Record<string, number> = {};
-  
-  for (const word of wordsA) {
-    vecA[word] = (vecA[word] || 0) + 1;
-  }
-  
-  for (const word of wordsB) {
-    vecB[word] = (vecB[word] || 0) + 1;
-  }
-  
+function calculateSentenceSimilarity(sentA: string, sentB: string, terms: TermOptions): number {
   // Calculate cosine similarity
-  return cosineSimilarity(vecA, vecB);
+  return cosineSimilarity(sentenceVector(sentA, terms), sentenceVector(sentB, terms));
 }
 
-// Apply light paraphrasing techniques to create copyright-friendly variations
-function lightParaphrase(sentence: string): string {
-  // Don't modify very short sentences
-  if (sentence.split(/\s+/).length < 4) {
-    return sentence;
+// Word frequency vector of a sentence
+function sentenceVector(sentence: string, terms: TermOptions): Record<string, number> {
+  const vector: Record<string, number> = {};
+  for (const word of tokenizeWords(sentence, terms)) {
+    vector[word] = (vector[word] || 0) + 1;
+  }
+  return vector;
+}
+
+// Paraphrasing with synonyms, clause reordering and voice changes; see server/paraphrase
+export async function paraphraseText(request: ParaphraseRequest): Promise<ParaphraseResponse> {
+  if (!request.text.trim()) {
+    throw new Error('No text provided for paraphrasing');
+  }
+  const language = await resolveTextLanguage(request.text, request.language);
+  if (language.code !== 'en') {
+    throw new Error(`Paraphrasing is only available for English text, not ${describeLanguage(language)}`);
   }
   
-  // Apply various transformations
-  const transformations = [
-    // Prepend transition phrases
-    (s: string) => {
-      const transitions = ['Moreover, ', 'Additionally, ', 'Furthermore, ', 'In addition, ', 'Also, '];
-      if (!/^(Moreover|Additionally|Furthermore|In addition|Also|However)/.test(s)) {
-        return transitions[Math.floor(Math.random() * transitions.length)] + s.charAt(0).toLowerCase() + s.slice(1);
-      }
-      return s;
-    },
-    
-    // Convert active to passive or vice versa (simplified version)
-    (s: string) => {
-      // Simplistic active-to-passive conversion for sentences matching common patterns
-      const activePattern = /([A-Z][^\s]*)\s+([a-z]+ed|[a-z]+s)\s+([a-z]+)/;
-      if (activePattern.test(s)) {
-        const match = s.match(activePattern);
-        if (match && match.length >= 4) {
-          const subject = match[1];
-          const verb = match[2];
-          const object = match[3];
-          // Basic passive form
-          return s.replace(activePattern, `${object} was ${verb} by ${subject.toLowerCase()}`);
-        }
-      }
-      return s;
-    },
-    
-    // Reword sentence beginning
-    (s: string) => {
-      const patterns = [
-        [/^It is /, 'This is '],
-        [/^There (is|are) /, 'We can observe '],
-        [/^The ([a-z]+) /, 'This $1 '],
-        [/^([A-Z][a-z]+) ([a-z]+) /, 'The $1 $2 '],
-      ];
-      
-      for (const [pattern, replacement] of patterns) {
-        if (pattern.test(s)) {
-          return s.replace(pattern as RegExp, replacement as string);
-        }
-      }
-      return s;
-    }
-  ];
+  const lexicon = await loadParaphraseLexicon();
+  const result = paraphrase(lexicon, request.text, {
+    seed: request.seed,
+    strength: request.strength,
+    transformations: request.transformations
+  });
   
-  // Apply a random transformation
-  const transform = transformations[Math.floor(Math.random() * transformations.length)];
-  return transform(sentence);
+  return {
+    paraphrasedText: result.text,
+    seed: result.seed,
+    strength: result.strength,
+    changes: result.changes
+  };
+}
+
+// Headline generation
+// ===================
+
+const DEFAULT_HEADLINE_COUNT = 5;
+const DEFAULT_HEADLINE_WORDS = 12;
+const HEADLINE_KEYPHRASES = 10;
+
+// Headlines read best at this many words or more, up to the requested maximum
+const IDEAL_HEADLINE_WORDS = 5;
+
+// A first line that looks like a title is usually the best headline; the lead
+// sentence states the subject more often than the sentence richest in keyphrases
+const HEADLINE_SOURCE_PRIOR: Record<HeadlineSource, number> = {
+  heading: 0.4,
+  lead_sentence: 0.15,
+  key_sentence: 0.1,
+  keyphrases: 0
+};
+
+// Candidate titles from the document's own title line, its lead sentence and the
+// sentence covering most keyphrases (both compressed to headline style), and its
+// top keyphrases, ranked by keyphrase coverage, length and source
+export async function generateHeadlines(request: HeadlineRequest): Promise<HeadlineResponse> {
+  const text = request.text.trim();
+  if (!text) {
+    throw new Error('No text provided for headline generation');
+  }
+
+  const count = request.count || DEFAULT_HEADLINE_COUNT;
+  const maxWords = request.maxWords || DEFAULT_HEADLINE_WORDS;
+  const capitalization = request.capitalization || 'sentence';
+  const language = await resolveTextLanguage(text, request.language);
+  const terms: TermOptions = { language };
+  // Headline compression and noun phrase tagging use the English paraphrasing lexicon
+  const lexicon = language.code === 'en' ? await loadParaphraseLexicon() : null;
+  const wordsIn = (candidate: string) => lexicon ? countWords(candidate) : tokenizeWords(candidate, terms).length;
+  const shorten = (sentence: string) => lexicon
+    ? compressToHeadline(sentence, lexicon, maxWords)
+    : plainHeadline(sentence, maxWords, wordsIn);
+
+  const keyphrases = extractWithEnhancedTFIDF(text, keywordDocuments(text), HEADLINE_KEYPHRASES, terms)
+    .filter(keyphrase => keyphrase.score > 0)
+    .map(keyphrase => {
+      const written = surfaceForm(keyphrase.keyword, text);
+      return {
+        ...keyphrase,
+        keyword: written || joinCjkWords(keyphrase.keyword),
+        words: keyphrase.keyword.split(' '),
+        found: written !== null
+      };
+    });
+  const totalScore = keyphrases.reduce((sum, keyphrase) => sum + keyphrase.score, 0) || 1;
+
+  const coverage = (candidate: string) => {
+    const words = new Set(tokenizeWords(candidate, terms));
+    return keyphrases
+      .filter(keyphrase => keyphrase.words.every(word => words.has(word)))
+      .reduce((sum, keyphrase) => sum + keyphrase.score, 0) / totalScore;
+  };
+
+  const drafts: Array<{ text: string; source: HeadlineSource }> = [];
+
+  const [firstLine, ...rest] = text.split('\n');
+  const headingWords = wordsIn(firstLine.trim());
+  if (rest.some(line => line.trim()) && headingWords >= 2 && headingWords <= 14 && !/[.!?,;。！？，；]$/.test(firstLine.trim())) {
+    drafts.push({ text: firstLine.trim(), source: 'heading' });
+  }
+
+  const sentences = tokenizeSentences(rest.length && drafts.length ? rest.join('\n') : text).map(sentence => sentence.trim());
+  const lead = sentences[0] ? shorten(sentences[0]) : null;
+  if (lead) drafts.push({ text: lead, source: 'lead_sentence' });
+
+  const keySentences = sentences
+    .slice(1)
+    .map(sentence => ({ sentence, coverage: coverage(sentence) }))
+    .sort((a, b) => b.coverage - a.coverage)
+    .slice(0, 2);
+  for (const { sentence } of keySentences) {
+    const compressed = shorten(sentence);
+    if (compressed) drafts.push({ text: compressed, source: 'key_sentence' });
+  }
+
+  // The top keyphrase of several words makes a title on its own when it is a noun
+  // phrase written that way in the text (not an n-gram across a sentence break);
+  // other languages are not tagged, so any keyphrase found in the text will do
+  const nounPhrases = keyphrases
+    .filter(keyphrase => keyphrase.found && keyphrase.words.length > 1)
+    .map(keyphrase => keyphrase.keyword)
+    .filter(phrase => {
+      if (!lexicon) return true;
+      const tags = tagTokens(tokenize(phrase), lexicon, false).filter(token => token.kind === 'word').map(token => token.tag);
+      return tags.every(tag => tag === 'noun' || tag === 'proper' || tag === 'adj') &&
+        (tags[tags.length - 1] === 'noun' || tags[tags.length - 1] === 'proper');
+    });
+  const multiword = nounPhrases[0];
+  if (multiword) drafts.push({ text: multiword, source: 'keyphrases' });
+
+  const seen = new Set<string>();
+  const headlines: HeadlineCandidate[] = [];
+  for (const draft of drafts) {
+    const formatted = formatHeadline(draft.text, capitalization);
+    const key = formatted.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const words = wordsIn(formatted);
+    const lengthFit = words > maxWords
+      ? maxWords / words
+      : Math.min(1, words / IDEAL_HEADLINE_WORDS);
+    headlines.push({
+      text: formatted,
+      score: 0.6 * coverage(formatted) + 0.25 * lengthFit + HEADLINE_SOURCE_PRIOR[draft.source],
+      source: draft.source
+    });
+  }
+
+  return {
+    headlines: headlines.sort((a, b) => b.score - a.score).slice(0, count),
+    keyphrases: keyphrases.map(keyphrase => keyphrase.keyword),
+    language: language.code
+  };
+}
+
+// Without a headline grammar for the language, a sentence is a headline as
+// written, less its closing punctuation, when it is short enough
+function plainHeadline(sentence: string, maxWords: number, wordsIn: (text: string) => number): string | null {
+  const text = sentence.replace(/[.!?;:。！？；：]+["”’」]?\s*$/, '').replace(/\s+/g, ' ').trim();
+  return text && wordsIn(text) <= maxWords ? text : null;
+}
+
+// Keyphrases are lowercase; headlines use them as the text writes them, so that
+// names keep their capitals. Null when the words never occur together. CJK words
+// are written without spaces, and have no word boundary to match.
+function surfaceForm(phrase: string, text: string): string | null {
+  const pattern = joinCjkWords(phrase)
+    .split(' ')
+    .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join(String.raw`[\s-]+`);
+  const characters = Array.from(phrase);
+  const before = CJK_RUN.test(characters[0]) ? '' : String.raw`(?<![\p{L}\p{M}])`;
+  const after = CJK_RUN.test(characters[characters.length - 1]) ? '' : String.raw`(?![\p{L}\p{M}])`;
+  return text.match(new RegExp(before + pattern + after, 'iu'))?.[0].replace(/\s+/g, ' ') ?? null;
 }
 
 // Enhanced Content Generation with NLP Techniques
@@ -663,8 +1730,9 @@ export async function generateContent(request: ContentGenerationRequest): Promis
       // Return result
     }
     
-    // Enhanced template-based content generation
-    return enhancedGenerate(request);
+    // Enhanced template-based content generation; the templates are English
+    const english = await loadTextLanguage('en');
+    return enhancedGenerate(request, english.stopwords);
   } catch (error) {
     console.error('Content generation error:', error);
     throw new Error('Content generation failed');
@@ -672,12 +1740,12 @@ export async function generateContent(request: ContentGenerationRequest): Promis
 }
 
 // Enhanced content generation with templates and NLP techniques for coherence
-function enhancedGenerate(request: ContentGenerationRequest): ContentGenerationResponse {
+function enhancedGenerate(request: ContentGenerationRequest, stopwords: Set<string>): ContentGenerationResponse {
   const { prompt, contentType, tone, length, creativityLevel } = request;
   
   // Generate related keywords based on the prompt for content variation
   const promptWords = tokenizeWords(prompt)
-    .filter(w => !STOPWORDS.has(w) && w.length > 2);
+    .filter(w => isContentWord(w, stopwords));
   
   // Determine target word count based on the length parameter
   let targetWordCount = 0;
@@ -719,7 +1787,7 @@ function enhancedGenerate(request: ContentGenerationRequest): ContentGenerationR
       generatedContent = generateEmail(prompt, generatedSentences, tone);
       break;
     case 'Social Media Post':
-      generatedContent = generateSocialMediaPost(prompt, generatedSentences[0], tone);
+      generatedContent = generateSocialMediaPost(prompt, generatedSentences[0], tone, stopwords);
       break;
     default:
       generatedContent = generateGenericContent(prompt, generatedSentences, targetParagraphs, tone);
@@ -1025,11 +2093,11 @@ function generateEmail(subject: string, sentences: string[], tone: string): stri
 }
 
 // Generate social media post
-function generateSocialMediaPost(topic: string, sentence: string, tone: string): string {
+function generateSocialMediaPost(topic: string, sentence: string, tone: string, stopwords: Set<string>): string {
   // Generate hashtags based on topic
   const words = tokenizeWords(topic);
   const hashtags = words
-    .filter(word => !STOPWORDS.has(word) && word.length > 2)
+    .filter(word => isContentWord(word, stopwords))
     .map(word => `#${word}`)
     .join(' ');
   
@@ -1062,10 +2130,11 @@ function generateGenericContent(topic: string, sentences: string[], paragraphs:
 }
 
 // Enhanced Keyword Extraction with TF-IDF and NLP Techniques
-export async function extractKeywords(request: KeywordExtractionRequest): Promise<KeywordExtractionResponse> {
+export async function extractKeywords(request: KeywordExtractionRequest, corpus?: CorpusStatistics): Promise<KeywordExtractionResponse> {
   if (!request.text.trim()) {
     throw new Error('No text provided for keyword extraction');
   }
+  const language = await resolveTextLanguage(request.text, request.language);
   
   try {
     // If OpenAI API key is available, we could use it for better extraction
@@ -1075,7 +2144,7 @@ export async function extractKeywords(request: KeywordExtractionRequest): Promis
     }
     
     // Use our enhanced TF-IDF and other techniques for keyword extraction
-    return enhancedExtractKeywords(request);
+    return await enhancedExtractKeywords(request, language, corpus);
   } catch (error) {
     console.error('Keyword extraction error:', error);
     throw new Error('Keyword extraction failed');
@@ -1083,45 +2152,105 @@ export async function extractKeywords(request: KeywordExtractionRequest): Promis
 }
 
 // Enhanced keyword extraction using multiple techniques
-function enhancedExtractKeywords(request: KeywordExtractionRequest): KeywordExtractionResponse {
+async function enhancedExtractKeywords(
+  request: KeywordExtractionRequest,
+  language: TextLanguage,
+  corpus?: CorpusStatistics
+): Promise<KeywordExtractionResponse> {
   const { text, count, method } = request;
-  
-  // Break text into paragraphs to treat them as documents for IDF calculation
-  const paragraphs = text.split(/\n\n+/).filter(p => p.trim().length > 0);
-  
-  // If only one paragraph, split into smaller chunks
-  const documents = paragraphs.length > 1 ? paragraphs : tokenizeSentences(text);
+  const documents = keywordDocuments(text);
+  const terms = await termOptions(language, request.normalization, corpus);
+  // Methods that rank written phrases get extra candidates, as variants are merged afterwards
+  const candidateCount = terms.normalize ? count * 2 : count;
+  // Phrase extractors find words between spaces and punctuation
+  const spaced = spaceCjkWords(splitElisions(text, language.code), language.segment);
   
   let keywords: Array<{ keyword: string; score: number }> = [];
   
   switch (method) {
     case 'enhanced_tfidf':
-      keywords = extractWithEnhancedTFIDF(text, documents, count);
-      break;
-    case 'bert_based':
-      // Simulate BERT-based extraction with our enhanced algorithms
-      keywords = extractWithSimulatedBERT(text, documents, count);
+      keywords = extractWithEnhancedTFIDF(text, documents, count, terms);
       break;
+    case 'bert_based': {
+      // Reports its own method, which tells whether it fell back
+      const result = await extractWithEmbeddings(spaced, documents, candidateCount, terms);
+      return {
+        ...result,
+        keywords: displayKeywords(mergeKeywordVariants(result.keywords, text, terms).slice(0, count)),
+        language: language.code
+      };
+    }
     case 'standard_tfidf':
-      keywords = extractWithStandardTFIDF(text, documents, count);
+      keywords = extractWithStandardTFIDF(text, documents, count, terms);
+      break;
+    case 'rake':
+      keywords = rakeKeywords(spaced, language.stopwords, candidateCount);
+      break;
+    case 'yake':
+      keywords = yakeKeywords(tokenizeSentences(spaced), language.stopwords, candidateCount);
       break;
     default:
-      keywords = extractWithEnhancedTFIDF(text, documents, count);
+      keywords = extractWithEnhancedTFIDF(text, documents, count, terms);
   }
   
   return {
-    keywords,
-    method: `enhanced_${method}`
+    keywords: displayKeywords(mergeKeywordVariants(keywords, text, terms).slice(0, count)),
+    method: `enhanced_${method}`,
+    language: language.code
   };
 }
 
+// Keywords are phrases of words joined by spaces; CJK words are written without
+function displayKeywords(keywords: Array<{ keyword: string; score: number }>): Array<{ keyword: string; score: number }> {
+  return keywords.map(keyword => ({ ...keyword, keyword: joinCjkWords(keyword.keyword) }));
+}
+
+// Show normalized keywords in the text's most frequent written form, and merge
+// written keywords that are variants of one another. Keywords keep the order
+// they came in, best first (for MMR, the order of selection), and a merged
+// keyword takes the place and score of its first variant.
+function mergeKeywordVariants(
+  keywords: Array<{ keyword: string; score: number }>,
+  text: string,
+  terms: TermOptions
+): Array<{ keyword: string; score: number }> {
+  const { language, normalize } = terms;
+  if (!normalize) return keywords;
+  
+  const contentWords = tokenizeWords(text, { language }).filter(w => isTerm(w, terms));
+  const forms = surfaceForms(contentWords, normalize, 3);
+  const merged = new Map<string, { keyword: string; score: number }>();
+  
+  for (const { keyword, score } of keywords) {
+    // TF-IDF keywords already are normalized terms
+    const term = forms.has(keyword) ? keyword : tokenizeWords(keyword, terms).join(' ');
+    if (!merged.has(term)) {
+      merged.set(term, { keyword: forms.get(term) || keyword, score });
+    }
+  }
+  
+  return Array.from(merged.values());
+}
+
+// Paragraphs are the documents for IDF calculation; a single paragraph is split
+// into sentences instead
+function keywordDocuments(text: string): string[] {
+  const paragraphs = text.split(/\n\n+/).filter(p => p.trim().length > 0);
+  return paragraphs.length > 1 ? paragraphs : tokenizeSentences(text);
+}
+
 // Extract keywords using standard TF-IDF
-function extractWithStandardTFIDF(text: string, documents: string[], count: number): Array<{ keyword: string; score: number }> {
+function extractWithStandardTFIDF(
+  text: string,
+  documents: string[],
+  count: number,
+  terms: TermOptions
+): Array<{ keyword: string; score: number }> {
   // Calculate TF for the entire text
-  const tf = calculateTF(text);
+  const tf = calculateTF(text, terms);
   
-  // Calculate IDF using the documents
-  const idf = calculateIDF(documents);
+  // Calculate IDF using the documents, or the corpus statistics when given
+  const idf = calculateIDF(documents, terms);
   
   // Calculate TF-IDF
   const tfidf = calculateTFIDF(tf, idf);
@@ -1136,17 +2265,23 @@ function extractWithStandardTFIDF(text: string, documents: string[], count: numb
 }
 
 // Extract keywords using enhanced TF-IDF
-function extractWithEnhancedTFIDF(text: string, documents: string[], count: number): Array<{ keyword: string; score: number }> {
+function extractWithEnhancedTFIDF(
+  text: string,
+  documents: string[],
+  count: number,
+  terms: TermOptions
+): Array<{ keyword: string; score: number }> {
+  const { stopwords } = terms.language;
   // Get standard TF-IDF keywords
-  const tfidfKeywords = extractWithStandardTFIDF(text, documents, Math.ceil(count * 1.5));
+  const tfidfKeywords = extractWithStandardTFIDF(text, documents, Math.ceil(count * 1.5), terms);
   
   // Extract n-grams (phrases) from text
-  const bigrams = extractPhrases(text, 2);
-  const trigrams = extractPhrases(text, 3);
+  const bigrams = extractPhrases(text, 2, terms);
+  const trigrams = extractPhrases(text, 3, terms);
   
   // Convert to keyword array format
   const bigramKeywords = Object.entries(bigrams)
-    .filter(([phrase, freq]) => freq > 1 && !STOPWORDS.has(phrase.split(' ')[0]) && !STOPWORDS.has(phrase.split(' ')[1]))
+    .filter(([phrase, freq]) => freq > 1 && !stopwords.has(phrase.split(' ')[0]) && !stopwords.has(phrase.split(' ')[1]))
     .map(([phrase, freq]) => ({
       keyword: phrase,
       score: freq / documents.length * 1.2  // Give bigrams slight boost
@@ -1156,7 +2291,7 @@ function extractWithEnhancedTFIDF(text: string, documents: string[], count: numb
     .filter(([phrase, freq]) => freq > 1)
     .filter(([phrase]) => {
       const words = phrase.split(' ');
-      return !STOPWORDS.has(words[0]) && !STOPWORDS.has(words[words.length - 1]);
+      return !stopwords.has(words[0]) && !stopwords.has(words[words.length - 1]);
     })
     .map(([phrase, freq]) => ({
       keyword: phrase,
@@ -1179,90 +2314,31 @@ function extractWithEnhancedTFIDF(text: string, documents: string[], count: numb
   }));
 }
 
-// Simulate BERT-based extraction with our JS algorithms
-function extractWithSimulatedBERT(text: string, documents: string[], count: number): Array<{ keyword: string; score: number }> {
-  // We'll use a combination of techniques to simulate semantic understanding
-  
-  // Get TF-IDF keywords as base
-  const tfidfKeywords = extractWithStandardTFIDF(text, documents, Math.ceil(count * 1.2));
-  
-  // Get phrase-based keywords
-  const phraseKeywords = extractWithEnhancedTFIDF(text, documents, Math.ceil(count * 0.8))
-    .filter(k => k.keyword.includes(' ')); // Only keep multi-word phrases
-  
-  // Simulate contextual understanding by boosting keywords that appear in:
-  // 1. Title-like positions (beginning of paragraphs)
-  // 2. Near other important keywords
-  
-  // Get the first sentence of each paragraph as potential title
-  const titleSentences = documents.map(doc => tokenizeSentences(doc)[0] || '');
-  const titleWords = titleSentences.flatMap(s => tokenizeWords(s))
-    .filter(w => !STOPWORDS.has(w) && w.length > 2);
-  
-  // Count occurrences of words in titles
-  const titleWordCounts: Record<string, number> = {};
-  titleWords.forEach(word => {
-    titleWordCounts[word] = (titleWordCounts[word] || 0) + 1;
-  });
-  
-  // Boost keywords that appear in titles
-  const boostedKeywords = [...tfidfKeywords, ...phraseKeywords].map(k => {
-    let boostFactor = 1.0;
-    
-    // Check if single-word keyword appears in titles
-    if (!k.keyword.includes(' ') && titleWordCounts[k.keyword]) {
-      boostFactor += 0.4 * (titleWordCounts[k.keyword] / titleSentences.length);
-    } 
-    // Check if multi-word keyword has parts in titles
-    else if (k.keyword.includes(' ')) {
-      const keywordParts = k.keyword.split(' ');
-      const partsInTitles = keywordParts
-        .filter(part => titleWordCounts[part])
-        .length;
-      
-      if (partsInTitles > 0) {
-        boostFactor += 0.3 * (partsInTitles / keywordParts.length);
-      }
-    }
-    
-    return {
-      ...k,
-      score: k.score * boostFactor
-    };
-  });
-  
-  // Remove duplicates (prefer longer phrases)
-  const uniqueKeywords: Array<{ keyword: string; score: number }> = [];
-  const seen = new Set<string>();
-  
-  // Sort by score and process
-  boostedKeywords.sort((a, b) => b.score - a.score);
-  
-  for (const kw of boostedKeywords) {
-    // Check if this is a subphrase of something we've already seen
-    let isSubphrase = false;
-    for (const seenKw of seen) {
-      if (seenKw.includes(kw.keyword)) {
-        isSubphrase = true;
-        break;
-      }
-    }
-    
-    if (!isSubphrase) {
-      uniqueKeywords.push(kw);
-      seen.add(kw.keyword);
-      
-      // Stop when we have enough keywords
-      if (uniqueKeywords.length >= count) break;
+// Keywords ranked by embedding similarity to the document with MMR for diversity;
+// enhanced TF-IDF, reported as a fallback, when no word vectors are installed
+async function extractWithEmbeddings(
+  text: string,
+  documents: string[],
+  count: number,
+  terms: TermOptions
+): Promise<Pick<KeywordExtractionResponse, 'keywords' | 'method' | 'fallbackReason'>> {
+  let fallbackReason: string;
+  try {
+    const embeddings = await loadWordEmbeddings();
+    if (embeddings) {
+      return { keywords: embeddingKeywords(text, embeddings, terms.language.stopwords, count), method: 'embedding_mmr' };
     }
+    fallbackReason = 'No word embeddings are installed (WORD_EMBEDDINGS_PATH).';
+  } catch (error) {
+    console.error('Word embedding loading error:', error);
+    fallbackReason = `Word embeddings could not be loaded: ${(error as Error).message}`;
   }
-  
-  // Normalize scores
-  const maxScore = Math.max(...uniqueKeywords.map(k => k.score));
-  return uniqueKeywords.map(k => ({
-    ...k,
-    score: Math.min(1, k.score / maxScore)
-  }));
+
+  return {
+    keywords: extractWithEnhancedTFIDF(text, documents, count, terms),
+    method: 'enhanced_tfidf_fallback',
+    fallbackReason
+  };
 }
 
 // Personalized NLP Algorithm Recommendation Engine
@@ -1461,12 +2537,27 @@ export async function recommendAlgorithm(request: AlgorithmRecommendationRequest
         suggestedParameters.style = languageComplexity === 'complex' ? 'simplified' : 'informative';
         break;
         
+      case 'bart_abstractive':
+        suggestedParameters.method = 'abstractive';
+        suggestedParameters.length = textLength > 3000 ? 'short' : 'medium';
+        suggestedParameters.style = languageComplexity === 'complex' ? 'simplified' : 'informative';
+        break;
+        
       case 'enhanced_template':
         suggestedParameters.creativityLevel = priorityFactor === 'quality' ? 80 : 50;
         suggestedParameters.length = textLength > 3000 ? 'Long (600+ words)' : textLength > 1000 ? 'Medium (300-500 words)' : 'Short (100-200 words)';
         suggestedParameters.tone = languageComplexity === 'complex' ? 'Technical' : contentDomain === 'marketing' ? 'Enthusiastic' : 'Professional';
         break;
         
+      case 'statistical_mt':
+        suggestedParameters.provider = 'dictionary';
+        break;
+        
+      case 'neural_transformer':
+        suggestedParameters.provider = 'openai';
+        suggestedParameters.formality = languageComplexity === 'complex' ? 'Formal' : 'Neutral';
+        break;
+        
       case 'enhanced_tfidf':
         suggestedParameters.count = textLength > 3000 ? 15 : 10;
         suggestedParameters.method = 'enhanced_tfidf';
@@ -0,0 +1,5 @@
+export { loadTermNormalizer, surfaceForms } from './normalizer';
+export type { TermNormalizer } from './normalizer';
+export { stem } from './stemmer';
+export { lemmatize, loadLemmaDictionary } from './lemmatizer';
+export type { LemmaDictionary } from './lemmatizer';
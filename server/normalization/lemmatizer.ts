@@ -0,0 +1,88 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+// Dictionary lemmatization: irregular and listed forms are looked up, other
+// words lose their regular inflection (plural -s, -ed, -ing). Unlike stems,
+// lemmas are words, so "studies" becomes "study" rather than "studi".
+
+// Inflected forms mapped to their lemma, plus every lemma of the dictionary
+export type LemmaDictionary = {
+  lemmas: Map<string, string>;
+  known: Set<string>;
+};
+
+// Directory holding en.tsv (form<TAB>lemma)
+const LEMMA_DIR = process.env.LEMMA_DIR || path.join(import.meta.dirname, '../data/lemmas');
+
+// Stems that end like this are only written with a final e: "produced",
+// "solved", "charged", "estimated", "provided", "determined", "handled"
+const SILENT_E_ENDINGS = /(?:[cvu]|[^z]z|[^n]g|[aio]s|[^aeious]s|[^aeiou][aiou]d|[^aeiou][ou]m|[^aeiou][aiu]r|[^aeiou](?:at|ut|ot|in)|[^aeiourl]l)$/;
+
+let dictionary: Promise<LemmaDictionary> | null = null;
+
+export function loadLemmaDictionary(): Promise<LemmaDictionary> {
+  if (!dictionary) {
+    dictionary = readDictionary();
+    dictionary.catch(() => {
+      dictionary = null;
+    });
+  }
+  return dictionary;
+}
+
+async function readDictionary(): Promise<LemmaDictionary> {
+  const file = await fs.readFile(path.join(LEMMA_DIR, 'en.tsv'), 'utf-8');
+  const result: LemmaDictionary = { lemmas: new Map(), known: new Set() };
+
+  for (const line of file.split('\n')) {
+    if (!line.trim() || line.startsWith('#')) continue;
+    const [form, lemma] = line.split('\t').map(column => column.trim());
+    if (!form || !lemma) continue;
+    result.lemmas.set(form, lemma);
+    result.known.add(lemma);
+  }
+  return result;
+}
+
+export function lemmatize(written: string, dictionary: LemmaDictionary): string {
+  // Possessives: "model's", "models'"
+  const word = written.replace(/'s?$/, '');
+  const listed = dictionary.lemmas.get(word);
+  if (listed) return listed;
+  if (word.length <= 3 || dictionary.known.has(word)) return word;
+
+  // Plurals and third person singular
+  if (/ies$/.test(word)) return word.slice(0, -3) + 'y';
+  if (/(sses|xes|zzes|ches|shes)$/.test(word)) return word.slice(0, -2);
+  if (/(ss|us|is)$/.test(word)) return word;
+  if (word.endsWith('s')) return word.slice(0, -1);
+
+  // Past forms and gerunds of regular verbs
+  const suffix = word.endsWith('ing') ? 'ing' : word.endsWith('ed') ? 'ed' : null;
+  if (!suffix) return word;
+  const stemmed = word.slice(0, -suffix.length);
+  if (stemmed.length < 2 || !/[aeiouy]/.test(stemmed)) return word;
+  if (suffix === 'ed' && word.endsWith('ied')) return word.slice(0, -3) + 'y';
+  if (suffix === 'ed' && word.endsWith('eed')) return word.slice(0, -1);
+
+  return restoreStem(stemmed, dictionary);
+}
+
+// Undo the spelling changes of -ed and -ing: a doubled final consonant
+// ("stopped") and a dropped silent e ("making")
+function restoreStem(stemmed: string, dictionary: LemmaDictionary): string {
+  if (dictionary.known.has(stemmed)) return stemmed;
+  if (dictionary.known.has(stemmed + 'e')) return stemmed + 'e';
+
+  // "controlled", "labelled", but not "called" or "installed"
+  if (/[aeiou][^aeiou]+[eo]ll$/.test(stemmed)) return stemmed.slice(0, -1);
+  // "stopped", "running", but not "added"
+  if (stemmed.length > 3 && /([bdgmnprt])\1$/.test(stemmed)) return stemmed.slice(0, -1);
+
+  // A single short syllable ending in one consonant lost its e: "hoping", "using"
+  const vowelGroups = stemmed.match(/[aeiouy]+/g) || [];
+  if (vowelGroups.length === 1 && vowelGroups[0].length === 1 && /[aeiou][^aeiouwxy]$/.test(stemmed)) {
+    return stemmed + 'e';
+  }
+  return SILENT_E_ENDINGS.test(stemmed) ? stemmed + 'e' : stemmed;
+}
@@ -0,0 +1,60 @@
+import { TermNormalization } from '@shared/schema';
+import { stem } from './stemmer';
+import { lemmatize, loadLemmaDictionary } from './lemmatizer';
+
+// Maps a lowercase word to the term that all of its variants share
+export type TermNormalizer = (word: string) => string;
+
+// No normalizer for 'none'; others remember the words they have seen, as texts
+// repeat the same words many times
+export async function loadTermNormalizer(mode: TermNormalization = 'none'): Promise<TermNormalizer | undefined> {
+  if (mode === 'none') return undefined;
+
+  let normalize: TermNormalizer = stem;
+  if (mode === 'lemma') {
+    const dictionary = await loadLemmaDictionary();
+    normalize = word => lemmatize(word, dictionary);
+  }
+
+  const terms = new Map<string, string>();
+  return word => {
+    let term = terms.get(word);
+    if (term === undefined) {
+      term = normalize(word);
+      terms.set(word, term);
+    }
+    return term;
+  };
+}
+
+// The most frequent written form of every normalized n-gram of up to maxLength
+// words, for showing a term the way the text usually writes it
+export function surfaceForms(words: string[], normalize: TermNormalizer, maxLength = 1): Map<string, string> {
+  const counts = new Map<string, Map<string, number>>();
+  const terms = words.map(normalize);
+
+  for (let start = 0; start < words.length; start++) {
+    for (let length = 1; length <= maxLength && start + length <= words.length; length++) {
+      const key = terms.slice(start, start + length).join(' ');
+      const written = words.slice(start, start + length).join(' ');
+      const forms = counts.get(key) || new Map<string, number>();
+      forms.set(written, (forms.get(written) || 0) + 1);
+      counts.set(key, forms);
+    }
+  }
+
+  const result = new Map<string, string>();
+  counts.forEach((forms, key) => {
+    let best = '';
+    let bestCount = 0;
+    // On a tie the form seen first wins
+    forms.forEach((count, written) => {
+      if (count > bestCount) {
+        best = written;
+        bestCount = count;
+      }
+    });
+    result.set(key, best);
+  });
+  return result;
+}
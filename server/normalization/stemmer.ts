@@ -0,0 +1,166 @@
+// The Porter2 ("English Snowball") stemmer: suffixes are removed step by step,
+// each step only within the regions R1 and R2 that follow the word's first and
+// second vowel-consonant sequences, so short words keep their endings.
+// https://snowballstem.org/algorithms/english/stemmer.html
+
+const VOWELS = new Set(['a', 'e', 'i', 'o', 'u', 'y']);
+const DOUBLES = ['bb', 'dd', 'ff', 'gg', 'mm', 'nn', 'pp', 'rr', 'tt'];
+const LI_ENDINGS = new Set(['c', 'd', 'e', 'g', 'h', 'k', 'm', 'n', 'r', 't']);
+
+// Words the rules get wrong, and words left alone
+const EXCEPTIONS: Record<string, string> = {
+  skis: 'ski', skies: 'sky', dying: 'die', lying: 'lie', tying: 'tie',
+  idly: 'idl', gently: 'gentl', ugly: 'ugli', early: 'earli', only: 'onli', singly: 'singl',
+  sky: 'sky', news: 'news', howe: 'howe', atlas: 'atlas', cosmos: 'cosmos', bias: 'bias', andes: 'andes'
+};
+const INVARIANT_AFTER_STEP_1A = new Set(['inning', 'outing', 'canning', 'herring', 'earring', 'proceed', 'exceed', 'succeed']);
+const R1_PREFIXES = ['gener', 'commun', 'arsen'];
+
+const STEP_2: Array<[string, string]> = [
+  ['ization', 'ize'], ['ational', 'ate'], ['fulness', 'ful'], ['ousness', 'ous'], ['iveness', 'ive'],
+  ['tional', 'tion'], ['biliti', 'ble'], ['lessli', 'less'], ['entli', 'ent'], ['ation', 'ate'],
+  ['alism', 'al'], ['aliti', 'al'], ['ousli', 'ous'], ['iviti', 'ive'], ['fulli', 'ful'],
+  ['enci', 'ence'], ['anci', 'ance'], ['abli', 'able'], ['izer', 'ize'], ['ator', 'ate'],
+  ['alli', 'al'], ['bli', 'ble'], ['ogi', 'og'], ['li', '']
+];
+const STEP_3: Array<[string, string]> = [
+  ['ational', 'ate'], ['tional', 'tion'], ['alize', 'al'], ['icate', 'ic'], ['iciti', 'ic'],
+  ['ative', ''], ['ical', 'ic'], ['ness', ''], ['ful', '']
+];
+const STEP_4 = [
+  'ement', 'ance', 'ence', 'able', 'ible', 'ment', 'ant', 'ent', 'ism', 'ate', 'iti', 'ous', 'ive', 'ize',
+  'ion', 'al', 'er', 'ic'
+];
+
+export function stem(word: string): string {
+  if (word.length <= 2) return word;
+  if (EXCEPTIONS[word]) return EXCEPTIONS[word];
+
+  // Consonant y is written Y so that it is not taken for a vowel
+  let w = word.replace(/^'/, '').replace(/^y/, 'Y').replace(/([aeiouy])y/g, '$1Y');
+  const r1 = regionOne(w);
+  const r2 = nextRegion(w, r1);
+
+  w = step0(w);
+  w = step1a(w);
+  if (INVARIANT_AFTER_STEP_1A.has(w)) return w;
+  w = step1b(w, r1);
+  w = step1c(w);
+  w = replaceLongest(w, STEP_2, r1, (stemmed, suffix) =>
+    suffix === 'ogi' ? stemmed.endsWith('l') : suffix === 'li' ? LI_ENDINGS.has(stemmed[stemmed.length - 1]) : true
+  );
+  w = replaceLongest(w, STEP_3, r1, (stemmed, suffix) => suffix !== 'ative' || stemmed.length >= r2);
+  w = step4(w, r2);
+  w = step5(w, r1, r2);
+  return w.replace(/Y/g, 'y');
+}
+
+function isVowel(character: string | undefined): boolean {
+  return character !== undefined && VOWELS.has(character);
+}
+
+// Index where R1 starts: after the first non-vowel that follows a vowel
+function regionOne(word: string): number {
+  const prefix = R1_PREFIXES.find(candidate => word.startsWith(candidate));
+  return prefix ? prefix.length : nextRegion(word, 0);
+}
+
+function nextRegion(word: string, start: number): number {
+  for (let i = start + 1; i < word.length; i++) {
+    if (!isVowel(word[i]) && isVowel(word[i - 1])) return i + 1;
+  }
+  return word.length;
+}
+
+// A vowel followed by a non-vowel other than w, x or Y and preceded by a
+// non-vowel, or a vowel and a non-vowel at the start of the word
+function endsWithShortSyllable(word: string): boolean {
+  const n = word.length;
+  if (n === 2) return isVowel(word[0]) && !isVowel(word[1]);
+  return n > 2 && !isVowel(word[n - 3]) && isVowel(word[n - 2]) && !isVowel(word[n - 1]) && !'wxY'.includes(word[n - 1]);
+}
+
+function isShort(word: string, r1: number): boolean {
+  return r1 >= word.length && endsWithShortSyllable(word);
+}
+
+function step0(word: string): string {
+  for (const suffix of ["'s'", "'s", "'"]) {
+    if (word.endsWith(suffix)) return word.slice(0, -suffix.length);
+  }
+  return word;
+}
+
+function step1a(word: string): string {
+  if (word.endsWith('sses')) return word.slice(0, -2);
+  if (word.endsWith('ied') || word.endsWith('ies')) return word.length > 4 ? word.slice(0, -2) : word.slice(0, -1);
+  if (word.endsWith('us') || word.endsWith('ss')) return word;
+  if (word.endsWith('s')) {
+    // Only when a vowel comes before the letter preceding the s: "gaps", not "gas"
+    const before = word.slice(0, -2);
+    return Array.from(before).some(isVowel) ? word.slice(0, -1) : word;
+  }
+  return word;
+}
+
+function step1b(word: string, r1: number): string {
+  for (const suffix of ['eedly', 'eed']) {
+    if (word.endsWith(suffix)) {
+      return word.length - suffix.length >= r1 ? word.slice(0, -suffix.length) + 'ee' : word;
+    }
+  }
+
+  const suffix = ['ingly', 'edly', 'ing', 'ed'].find(candidate => word.endsWith(candidate));
+  if (!suffix) return word;
+  const stemmed = word.slice(0, -suffix.length);
+  if (!Array.from(stemmed).some(isVowel)) return word;
+
+  if (stemmed.endsWith('at') || stemmed.endsWith('bl') || stemmed.endsWith('iz')) return stemmed + 'e';
+  if (DOUBLES.some(double => stemmed.endsWith(double))) return stemmed.slice(0, -1);
+  if (isShort(stemmed, r1)) return stemmed + 'e';
+  return stemmed;
+}
+
+function step1c(word: string): string {
+  return word.length > 2 && /[yY]$/.test(word) && !isVowel(word[word.length - 2])
+    ? word.slice(0, -1) + 'i'
+    : word;
+}
+
+// Replace the longest listed suffix when it lies in the region and the
+// condition holds; a longest match that fails blocks the shorter ones
+function replaceLongest(
+  word: string,
+  rules: Array<[string, string]>,
+  region: number,
+  condition: (stemmed: string, suffix: string) => boolean
+): string {
+  const match = rules
+    .filter(([suffix]) => word.endsWith(suffix))
+    .sort((a, b) => b[0].length - a[0].length)[0];
+  if (!match) return word;
+
+  const [suffix, replacement] = match;
+  const stemmed = word.slice(0, -suffix.length);
+  return stemmed.length >= region && condition(stemmed, suffix) ? stemmed + replacement : word;
+}
+
+function step4(word: string, r2: number): string {
+  const suffix = STEP_4.filter(candidate => word.endsWith(candidate)).sort((a, b) => b.length - a.length)[0];
+  if (!suffix) return word;
+
+  const stemmed = word.slice(0, -suffix.length);
+  if (stemmed.length < r2) return word;
+  if (suffix === 'ion' && !/[st]$/.test(stemmed)) return word;
+  return stemmed;
+}
+
+function step5(word: string, r1: number, r2: number): string {
+  const stemmed = word.slice(0, -1);
+  if (word.endsWith('e')) {
+    if (stemmed.length >= r2 || (stemmed.length >= r1 && !endsWithShortSyllable(stemmed))) return stemmed;
+  } else if (word.endsWith('l') && stemmed.length >= r2 && stemmed.endsWith('l')) {
+    return stemmed;
+  }
+  return word;
+}
@@ -0,0 +1,90 @@
+import { capitalize, joinWords, sentenceInternalForm, splitTerminal, Token } from './tagger';
+
+// Subordinating conjunctions whose clause can come before or after the main clause
+const REORDERABLE = new Set([
+  'because', 'although', 'though', 'when', 'if', 'after', 'before', 'unless', 'while', 'once', 'since', 'whereas'
+]);
+
+// Concessive clauses keep a comma when they follow the main clause
+const CONCESSIVE = new Set(['although', 'though', 'whereas', 'even']);
+
+// Words that bind a subordinator to what comes before ("only if", "long before")
+// and make the clause unmovable
+const BOUND_BEFORE = new Set(['only', 'just', 'right', 'long', 'soon', 'shortly', 'as', 'ever']);
+
+// Nouns that "when" follows as a relative pronoun ("the day when ...")
+const TIME_NOUNS = new Set(['time', 'times', 'day', 'days', 'year', 'years', 'moment', 'period', 'point', 'case', 'cases', 'era', 'age']);
+
+// Verbs that take an "if" or "when" clause as their object ("ask if ...")
+const QUESTION_VERBS = new Set([
+  'ask', 'asks', 'asked', 'know', 'knows', 'knew', 'wonder', 'wondered', 'see', 'saw', 'check', 'checked',
+  'determine', 'determined', 'decide', 'decided', 'tell', 'told', 'sure', 'unsure', 'whether'
+]);
+
+// Fewest words in either clause, so that fragments are not moved around
+const MIN_CLAUSE_WORDS = 3;
+
+// Move a subordinate clause to the other side of its main clause:
+// "X happened because Y." <-> "Because Y, X happened." Returns null when the
+// sentence has no clause that can safely be moved.
+export function reorderClauses(tokens: Token[], lowercaseWords: Set<string>): string | null {
+  const sentence = splitTerminal(tokens);
+  if (!sentence) return null;
+  const { body, terminal } = sentence;
+  const commas = body.flatMap((token, position) => token.text === ',' ? [position] : []);
+
+  // Subordinate clause first: it ends at the only comma
+  const opening = body[0]?.text.toLowerCase();
+  if (REORDERABLE.has(opening) || (opening === 'even' && /^(though|if)$/i.test(body[1]?.text || ''))) {
+    if (commas.length !== 1) return null;
+    const subordinate = body.slice(0, commas[0]);
+    const main = body.slice(commas[0] + 1);
+    if (!isClause(subordinate.slice(1)) || !isClause(main)) return null;
+
+    const first = main[0].tag === 'proper' ? main[0].text : capitalize(main[0].text);
+    const movedFirst = subordinate[0].text.toLowerCase();
+    return joinWords([{ ...main[0], text: first }, ...main.slice(1)]) +
+      (CONCESSIVE.has(movedFirst) ? ', ' : ' ') +
+      joinWords([{ ...subordinate[0], text: movedFirst }, ...subordinate.slice(1)]) +
+      terminal;
+  }
+
+  // Subordinate clause last: it starts at the first subordinator after a clause
+  const start = body.findIndex((token, position) => position > 0 && isSubordinator(token, body[position - 1]));
+  if (start < 0) return null;
+  // "even though" and "even if" move as one
+  const clauseStart = body[start - 1].text.toLowerCase() === 'even' ? start - 1 : start;
+  const mainEnd = body[clauseStart - 1]?.text === ',' ? clauseStart - 1 : clauseStart;
+  // Other commas could belong to either clause
+  if (commas.some(position => position !== mainEnd)) return null;
+
+  const main = body.slice(0, mainEnd);
+  const subordinate = body.slice(clauseStart);
+  if (!isClause(main) || !isClause(subordinate.slice(clauseStart === start ? 1 : 2))) return null;
+  if (main[0].tag === 'conj' || main[0].tag === 'sub') return null;
+
+  const internal = sentenceInternalForm(main, lowercaseWords);
+  if (internal === null) return null;
+
+  return joinWords([{ ...subordinate[0], text: capitalize(subordinate[0].text.toLowerCase()) }, ...subordinate.slice(1)]) +
+    ', ' +
+    joinWords([{ ...main[0], text: internal }, ...main.slice(1)]) +
+    terminal;
+}
+
+// A subordinator that starts an adverbial clause rather than a relative or object
+// clause, or a noun ("for a while")
+function isSubordinator(token: Token, previous: Token): boolean {
+  const word = token.text.toLowerCase();
+  const before = previous.text.toLowerCase();
+  if (!REORDERABLE.has(word) || BOUND_BEFORE.has(before) || previous.tag === 'det') return false;
+  if (word === 'when' && TIME_NOUNS.has(before)) return false;
+  if ((word === 'if' || word === 'when') && (previous.tag === 'verb' || QUESTION_VERBS.has(before))) return false;
+  return true;
+}
+
+// Long enough and with a finite verb, so not a prepositional phrase ("after the war")
+function isClause(words: Token[]): boolean {
+  return words.filter(token => token.kind !== 'punct').length >= MIN_CLAUSE_WORDS &&
+    words.some(token => token.tag === 'verb' || token.tag === 'aux');
+}
@@ -0,0 +1,6 @@
+export { loadParaphraseLexicon, pluralize } from './lexicon';
+export type { ParaphraseLexicon, VerbEntry, VerbForm, Transitivity, ThesaurusPos } from './lexicon';
+export { paraphrase, DEFAULT_PARAPHRASE_STRENGTH, PARAPHRASE_TRANSFORMATIONS } from './paraphrase';
+export type { ParaphraseOptions, ParaphraseResult } from './paraphrase';
+export { tokenize, tagTokens, joinWords, capitalize } from './tagger';
+export type { Token, Tag } from './tagger';
@@ -0,0 +1,104 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+export type Transitivity = 't' | 'i' | 'ti';
+
+export type VerbEntry = {
+  base: string;
+  third: string;
+  past: string;
+  participle: string;
+  gerund: string;
+  transitivity: Transitivity;
+};
+
+export type VerbForm = 'base' | 'third' | 'past' | 'participle' | 'gerund';
+
+export type ThesaurusPos = 'n' | 'v' | 'adj' | 'adv';
+
+// Word lists for rule-based paraphrasing
+export type ParaphraseLexicon = {
+  // Keyed by base form
+  verbs: Map<string, VerbEntry>;
+  // Every inflected form with the verbs and forms it can be
+  verbForms: Map<string, Array<{ verb: VerbEntry; form: VerbForm }>>;
+  // Synonyms per part of speech, keyed by base form (singular for nouns)
+  synonyms: Record<ThesaurusPos, Map<string, string[]>>;
+  // Singular and plural forms of the thesaurus nouns, mapped to the singular
+  nouns: Map<string, string>;
+};
+
+// Directory holding verbs.tsv (inflections and transitivity) and thesaurus.tsv
+const PARAPHRASE_DIR = process.env.PARAPHRASE_DIR || path.join(import.meta.dirname, '../data/paraphrase');
+
+const VERB_FORMS: VerbForm[] = ['base', 'third', 'past', 'participle', 'gerund'];
+
+let lexicon: Promise<ParaphraseLexicon> | null = null;
+
+export function loadParaphraseLexicon(): Promise<ParaphraseLexicon> {
+  if (!lexicon) {
+    lexicon = readLexicon();
+    lexicon.catch(() => {
+      lexicon = null;
+    });
+  }
+  return lexicon;
+}
+
+// Regular plurals, plus the -sis nouns of the thesaurus (analysis, hypothesis)
+export function pluralize(noun: string): string {
+  if (/sis$/.test(noun)) return noun.slice(0, -2) + 'es';
+  if (/[^aeiou]y$/.test(noun)) return noun.slice(0, -1) + 'ies';
+  if (/(s|x|z|ch|sh)$/.test(noun)) return noun + 'es';
+  return noun + 's';
+}
+
+async function readLexicon(): Promise<ParaphraseLexicon> {
+  const [verbFile, thesaurusFile] = await Promise.all([
+    fs.readFile(path.join(PARAPHRASE_DIR, 'verbs.tsv'), 'utf-8'),
+    fs.readFile(path.join(PARAPHRASE_DIR, 'thesaurus.tsv'), 'utf-8')
+  ]);
+
+  const result: ParaphraseLexicon = {
+    verbs: new Map(),
+    verbForms: new Map(),
+    synonyms: { n: new Map(), v: new Map(), adj: new Map(), adv: new Map() },
+    nouns: new Map()
+  };
+
+  for (const columns of parseRows(verbFile)) {
+    if (columns.length < 6 || !/^(t|i|ti)$/.test(columns[5])) continue;
+    const [base, third, past, participle, gerund, transitivity] = columns;
+    const verb: VerbEntry = { base, third, past, participle, gerund, transitivity: transitivity as Transitivity };
+    result.verbs.set(base, verb);
+
+    for (const form of VERB_FORMS) {
+      const analyses = result.verbForms.get(verb[form]) || [];
+      analyses.push({ verb, form });
+      result.verbForms.set(verb[form], analyses);
+    }
+  }
+
+  for (const [word, pos, list = ''] of parseRows(thesaurusFile)) {
+    if (!(pos in result.synonyms)) continue;
+    const synonyms = list.split(',').map(synonym => synonym.trim().toLowerCase()).filter(Boolean);
+    // Verb synonyms are inflected, so they must be known verbs
+    const usable = pos === 'v' ? synonyms.filter(synonym => result.verbs.has(synonym)) : synonyms;
+    if (usable.length === 0) continue;
+
+    result.synonyms[pos as ThesaurusPos].set(word.toLowerCase(), usable);
+    if (pos === 'n') {
+      result.nouns.set(word.toLowerCase(), word.toLowerCase());
+      result.nouns.set(pluralize(word.toLowerCase()), word.toLowerCase());
+    }
+  }
+
+  return result;
+}
+
+// TSV rows without '#' comment lines and blank lines
+function parseRows(content: string): string[][] {
+  return content.split(/\r?\n/)
+    .filter(line => line.trim() && !line.startsWith('#'))
+    .map(line => line.split('\t').map(column => column.trim()));
+}
@@ -0,0 +1,94 @@
+import { ParaphraseChange, ParaphraseTransformation } from '@shared/schema';
+import { ParaphraseLexicon } from './lexicon';
+import { detokenize, tagTokens, tokenize, Token } from './tagger';
+import { substituteSynonyms } from './synonyms';
+import { reorderClauses } from './clauses';
+import { transformVoice } from './voice';
+
+export type ParaphraseOptions = {
+  // Same text, seed and strength always give the same paraphrase; defaults to a hash of the text
+  seed?: number;
+  // Chance (0 to 1) that each applicable transformation is applied
+  strength?: number;
+  // Defaults to all of them
+  transformations?: ParaphraseTransformation[];
+  // Text that shows which capitalized words are names, when that is more than the input
+  context?: string;
+};
+
+export type ParaphraseResult = {
+  text: string;
+  seed: number;
+  strength: number;
+  changes: ParaphraseChange[];
+};
+
+export const DEFAULT_PARAPHRASE_STRENGTH = 0.5;
+
+export const PARAPHRASE_TRANSFORMATIONS: ParaphraseTransformation[] = ['voice', 'clause_reorder', 'synonym'];
+
+// Sentence boundaries, kept so that the original spacing and line breaks survive
+const SENTENCE_BREAK = /(?<=[.!?]["”’)]?)(\s+)/;
+
+const LOWERCASE_WORD = new RegExp(String.raw`\b\p{Ll}[\p{L}'’-]*`, 'gu');
+
+// Rule-based paraphrasing, sentence by sentence: voice changes first, then clause
+// reordering, then synonyms on the result. Every random choice comes from a
+// generator seeded with options.seed, so the output is reproducible.
+export function paraphrase(lexicon: ParaphraseLexicon, text: string, options: ParaphraseOptions = {}): ParaphraseResult {
+  const seed = options.seed ?? hashText(text);
+  const strength = Math.min(1, Math.max(0, options.strength ?? DEFAULT_PARAPHRASE_STRENGTH));
+  const enabled = new Set(options.transformations ?? PARAPHRASE_TRANSFORMATIONS);
+  const random = mulberry32(seed);
+  const lowercaseWords = new Set((`${text} ${options.context || ''}`.match(LOWERCASE_WORD) || []));
+  const changes: ParaphraseChange[] = [];
+
+  const parts = text.split(SENTENCE_BREAK).map((part, index) => {
+    // Odd parts are the whitespace between sentences
+    if (index % 2 === 1 || !part.trim()) return part;
+
+    let tokens = tag(part, lexicon);
+    const restructure = (type: ParaphraseTransformation, transform: (tokens: Token[]) => string | null) => {
+      if (!enabled.has(type)) return;
+      const replacement = transform(tokens);
+      if (replacement === null || random() >= strength) return;
+      changes.push({ type, original: detokenize(tokens), replacement });
+      tokens = tag(replacement, lexicon);
+    };
+
+    restructure('voice', current => transformVoice(current, lexicon, lowercaseWords));
+    restructure('clause_reorder', current => reorderClauses(current, lowercaseWords));
+    if (enabled.has('synonym')) {
+      changes.push(...substituteSynonyms(tokens, lexicon, random, strength));
+    }
+    return detokenize(tokens);
+  });
+
+  return { text: parts.join(''), seed, strength, changes };
+}
+
+function tag(sentence: string, lexicon: ParaphraseLexicon): Token[] {
+  return tagTokens(tokenize(sentence), lexicon);
+}
+
+// 32-bit FNV-1a
+function hashText(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Small, fast seeded generator returning numbers in [0, 1)
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,120 @@
+import { ParaphraseChange } from '@shared/schema';
+import { ParaphraseLexicon, pluralize, ThesaurusPos } from './lexicon';
+import { contentTokens, isCapitalized, Token } from './tagger';
+
+// Fixed expressions whose words must not be replaced one by one
+const FROZEN_PHRASES = [
+  'as a result', 'in order to', 'for example', 'for instance', 'as usual', 'in addition', 'at least', 'at first',
+  'in fact', 'in particular', 'in general', 'on the other hand', 'as well as', 'in the end', 'at present',
+  'as a whole', 'take place', 'make sure', 'pay attention', 'in part', 'on average', 'by far', 'as soon as',
+  'at last', 'in short', 'of course', 'in turn', 'in place', 'in charge', 'in common', 'at risk', 'by the way'
+].map(phrase => phrase.split(' '));
+
+// Sentence adverbs that are only replaceable where they link clauses
+// ("However, ..." but not "however large")
+const CONNECTIVES = new Set(['however', 'therefore', 'thus', 'consequently', 'moreover', 'furthermore', 'additionally']);
+
+// Words that can stand between a verb and its object
+const OBJECT_START = new Set(['det', 'pron', 'noun', 'adj', 'num', 'proper', 'other']);
+
+// Replace words with thesaurus synonyms, each eligible word with probability
+// strength. Tokens are changed in place; a/an is corrected before a new word.
+export function substituteSynonyms(
+  tokens: Token[],
+  lexicon: ParaphraseLexicon,
+  random: () => number,
+  strength: number
+): ParaphraseChange[] {
+  const words = contentTokens(tokens);
+  const frozen = frozenPositions(words);
+  const changes: ParaphraseChange[] = [];
+
+  words.forEach((token, position) => {
+    if (token.kind !== 'word' || frozen.has(position)) return;
+    // Acronyms and words capitalized mid-sentence are names
+    if (token.tag === 'proper' || (token.text.length > 1 && token.text === token.text.toUpperCase())) return;
+
+    const candidates = synonymsFor(words, position, lexicon);
+    if (candidates.length === 0 || random() >= strength) return;
+
+    const synonym = candidates[Math.floor(random() * candidates.length)];
+    const replacement = isCapitalized(token.text) ? synonym.charAt(0).toUpperCase() + synonym.slice(1) : synonym;
+    changes.push({ type: 'synonym', original: token.text, replacement });
+    token.text = replacement;
+
+    const previous = words[position - 1];
+    if (previous && /^an?$/i.test(previous.text)) {
+      const article = indefiniteArticle(replacement);
+      previous.text = isCapitalized(previous.text) ? article.charAt(0).toUpperCase() + article.slice(1) : article;
+    }
+  });
+
+  return changes;
+}
+
+// Positions of words inside fixed expressions
+function frozenPositions(words: Token[]): Set<number> {
+  const lower = words.map(token => token.text.toLowerCase());
+  const positions = new Set<number>();
+
+  for (let start = 0; start < lower.length; start++) {
+    for (const phrase of FROZEN_PHRASES) {
+      if (phrase.every((word, offset) => lower[start + offset] === word)) {
+        phrase.forEach((_, offset) => positions.add(start + offset));
+      }
+    }
+  }
+  return positions;
+}
+
+// Synonyms of the word at position, inflected like it and fitting its use
+function synonymsFor(words: Token[], position: number, lexicon: ParaphraseLexicon): string[] {
+  const token = words[position];
+  const word = token.text.toLowerCase();
+  const previous = words[position - 1];
+  const next = words[position + 1];
+  const singleWords = (pos: ThesaurusPos, key: string) =>
+    (lexicon.synonyms[pos].get(key) || []).filter(synonym => !synonym.includes(' '));
+
+  switch (token.tag) {
+    case 'adj':
+      return singleWords('adj', word);
+
+    case 'adv': {
+      if (CONNECTIVES.has(word) && !((!previous || previous.text === ',') && next?.text === ',')) return [];
+      return lexicon.synonyms.adv.get(word) || [];
+    }
+
+    case 'noun': {
+      // In compounds ("risk assessment") the words do not mean what they mean alone
+      const isModified = previous?.tag === 'noun' || previous?.tag === 'other' || previous?.tag === 'proper';
+      const isModifier = next?.tag === 'noun' || next?.tag === 'other' || next?.tag === 'proper';
+      const singular = lexicon.nouns.get(word);
+      if (!singular || isModified || isModifier) return [];
+      const synonyms = singleWords('n', singular);
+      return singular === word ? synonyms : synonyms.map(pluralize);
+    }
+
+    case 'verb': {
+      if (!token.verb || next?.tag === 'particle') return [];
+      const { verb, form } = token.verb;
+      // Passive participles and verbs followed by a noun phrase need transitive synonyms
+      const isPassive = form === 'participle' && /^(is|are|was|were|be|been|being)$/i.test(previous?.text || '');
+      const usage = isPassive || (next && OBJECT_START.has(next.tag || '')) ? 't' : 'i';
+      return (lexicon.synonyms.v.get(verb.base) || [])
+        .map(base => lexicon.verbs.get(base)!)
+        .filter(synonym => synonym.transitivity.includes(usage))
+        .map(synonym => synonym[form]);
+    }
+
+    default:
+      return [];
+  }
+}
+
+function indefiniteArticle(word: string): string {
+  const lower = word.toLowerCase();
+  if (/^(hour|honest|honou?r|heir)/.test(lower)) return 'an';
+  if (/^(uni|use|usu|eu|one|once)/.test(lower)) return 'a';
+  return /^[aeiou]/.test(lower) ? 'an' : 'a';
+}
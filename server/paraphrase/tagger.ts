@@ -0,0 +1,196 @@
+import { ParaphraseLexicon, VerbEntry, VerbForm } from './lexicon';
+
+// Coarse part-of-speech tags: closed word classes come from fixed lists, open
+// classes from the lexicon and suffixes, with a little context for words that
+// can be both a noun and a verb. Good enough to tell where a phrase ends, which
+// is all the transformations need.
+export type Tag =
+  | 'det' | 'pron' | 'prep' | 'conj' | 'aux' | 'sub' | 'particle'
+  | 'verb' | 'noun' | 'adj' | 'adv' | 'proper' | 'num' | 'other';
+
+export type Token = {
+  text: string;
+  kind: 'word' | 'number' | 'punct' | 'space';
+  tag?: Tag;
+  // Analyses of a token tagged as a verb
+  verb?: { verb: VerbEntry; form: VerbForm };
+};
+
+export const DETERMINERS = new Set([
+  'the', 'a', 'an', 'this', 'these', 'those', 'my', 'your', 'his', 'her', 'its', 'our', 'their',
+  'some', 'any', 'many', 'several', 'few', 'both', 'each', 'every', 'all', 'no', 'another', 'such', 'much', 'most'
+]);
+
+export const SUBJECT_PRONOUNS = new Set(['i', 'you', 'he', 'she', 'it', 'we', 'they']);
+export const OBJECT_PRONOUNS = new Set(['me', 'him', 'her', 'us', 'them']);
+const OTHER_PRONOUNS = new Set(['who', 'whom', 'which', 'what', 'that', 'there', 'itself', 'themselves', 'one']);
+
+export const PREPOSITIONS = new Set([
+  'of', 'in', 'on', 'at', 'by', 'for', 'with', 'from', 'to', 'into', 'onto', 'over', 'under', 'about', 'after',
+  'before', 'between', 'through', 'during', 'without', 'within', 'across', 'against', 'among', 'around', 'behind',
+  'beyond', 'near', 'since', 'until', 'upon', 'toward', 'towards', 'along', 'despite', 'except', 'like', 'per',
+  'via', 'than', 'as'
+]);
+
+const CONJUNCTIONS = new Set(['and', 'or', 'but', 'nor', 'yet', 'so']);
+
+export const AUXILIARIES = new Set([
+  'be', 'am', 'is', 'are', 'was', 'were', 'been', 'being', 'have', 'has', 'had', 'having', 'do', 'does', 'did',
+  'will', 'would', 'shall', 'should', 'can', 'could', 'may', 'might', 'must', 'not'
+]);
+
+const SUBORDINATORS = new Set(['because', 'although', 'though', 'when', 'if', 'unless', 'while', 'once', 'whereas', 'whenever']);
+
+// Adverbs that turn a verb into a phrasal verb, whose meaning no synonym keeps
+const PARTICLES = new Set(['up', 'out', 'off', 'down', 'away', 'back']);
+
+const WORD_PATTERN = new RegExp(String.raw`\s+|\p{L}+(?:['’-]\p{L}+)*|\d+(?:[.,]\d+)*%?|[^\s\p{L}\d]`, 'gu');
+
+export function tokenize(sentence: string): Token[] {
+  return (sentence.match(WORD_PATTERN) || []).map(text => {
+    if (/^\s/.test(text)) return { text, kind: 'space' as const };
+    if (/^\d/.test(text)) return { text, kind: 'number' as const };
+    if (new RegExp(String.raw`^\p{L}`, 'u').test(text)) return { text, kind: 'word' as const };
+    return { text, kind: 'punct' as const };
+  });
+}
+
+export function detokenize(tokens: Token[]): string {
+  return tokens.map(token => token.text).join('');
+}
+
+// Words and punctuation without the whitespace between them
+export function contentTokens(tokens: Token[]): Token[] {
+  return tokens.filter(token => token.kind !== 'space');
+}
+
+export function isCapitalized(word: string): boolean {
+  return new RegExp(String.raw`^\p{Lu}`, 'u').test(word);
+}
+
+// Tag every token in place. isSentenceStart tells whether the first word may be
+// capitalized only because it starts the sentence.
+export function tagTokens(tokens: Token[], lexicon: ParaphraseLexicon, isSentenceStart = true): Token[] {
+  const words = contentTokens(tokens);
+
+  words.forEach((token, position) => {
+    if (token.kind === 'number') {
+      token.tag = 'num';
+      return;
+    }
+    if (token.kind !== 'word') return;
+
+    const word = token.text.toLowerCase();
+    const previous = words[position - 1];
+    const next = words[position + 1];
+
+    if (isCapitalized(token.text) && !(position === 0 && isSentenceStart) && word !== 'i') {
+      token.tag = 'proper';
+    } else if (AUXILIARIES.has(word)) {
+      token.tag = 'aux';
+    } else if (DETERMINERS.has(word) && !(word === 'her' && (!next || next.kind !== 'word'))) {
+      token.tag = 'det';
+    } else if (SUBJECT_PRONOUNS.has(word) || OBJECT_PRONOUNS.has(word) || OTHER_PRONOUNS.has(word)) {
+      token.tag = 'pron';
+    } else if (SUBORDINATORS.has(word)) {
+      token.tag = 'sub';
+    } else if (PREPOSITIONS.has(word)) {
+      token.tag = 'prep';
+    } else if (CONJUNCTIONS.has(word)) {
+      token.tag = 'conj';
+    } else if (PARTICLES.has(word) && previous?.tag === 'verb') {
+      token.tag = 'particle';
+    } else {
+      tagOpenClass(token, word, previous, lexicon);
+    }
+  });
+
+  return tokens;
+}
+
+// Content words: verb forms from the verb table, thesaurus entries, then suffixes
+function tagOpenClass(token: Token, word: string, previous: Token | undefined, lexicon: ParaphraseLexicon): void {
+  const analyses = lexicon.verbForms.get(word);
+  const isNoun = lexicon.nouns.has(word);
+
+  // Nothing but a noun follows a determiner ("the supply chain")
+  const afterDeterminer = previous?.tag === 'det';
+
+  if (analyses && !afterDeterminer && (!isNoun || prefersVerb(previous, analyses[0].form))) {
+    token.tag = 'verb';
+    token.verb = pickAnalysis(analyses, previous);
+    return;
+  }
+  if (isNoun || analyses) {
+    token.tag = 'noun';
+  } else if (lexicon.synonyms.adj.has(word)) {
+    token.tag = 'adj';
+  } else if (lexicon.synonyms.adv.has(word) || /ly$/.test(word)) {
+    token.tag = 'adv';
+  } else if (/(al|ic|ous|ive|ful|less|able|ible)$/.test(word)) {
+    token.tag = 'adj';
+  } else if (/(tion|sion|ment|ness|ity|ance|ence|ship|ism|ist|er|or|s)$/.test(word)) {
+    token.tag = 'noun';
+  } else {
+    token.tag = 'other';
+  }
+}
+
+// A word that is both a noun and a verb ("increase", "studies") is a verb after
+// a pronoun, an auxiliary or "to", and in its finite forms after a noun phrase
+function prefersVerb(previous: Token | undefined, form: VerbForm): boolean {
+  if (!previous || previous.kind !== 'word') return false;
+  const word = previous.text.toLowerCase();
+  if (previous.tag === 'pron' || previous.tag === 'aux' || word === 'to') return true;
+  return (form === 'past' || form === 'third') && (previous.tag === 'noun' || previous.tag === 'proper');
+}
+
+// Forms that are spelled alike (past and participle of regular verbs) are told
+// apart by a preceding form of "have" or "be"
+function pickAnalysis(analyses: Array<{ verb: VerbEntry; form: VerbForm }>, previous: Token | undefined) {
+  const preferred: VerbForm[] = previous?.tag === 'aux'
+    ? ['participle', 'gerund', 'base', 'past', 'third']
+    : ['past', 'third', 'base', 'gerund', 'participle'];
+  return [...analyses].sort((a, b) => preferred.indexOf(a.form) - preferred.indexOf(b.form))[0];
+}
+
+// Tags of words that are lowercase wherever they occur
+const CLOSED_CLASSES = new Set<Tag | undefined>(['det', 'pron', 'prep', 'conj', 'aux', 'sub']);
+
+// A sentence's words without its final full stop or exclamation mark, or null when
+// it is a question or has punctuation other than commas (quotes, brackets, colons,
+// dashes) that restructuring could break
+export function splitTerminal(tokens: Token[]): { body: Token[]; terminal: string } | null {
+  const words = contentTokens(tokens);
+  const last = words[words.length - 1];
+  const terminal = last && (last.text === '.' || last.text === '!') ? last.text : '';
+  const body = terminal ? words.slice(0, -1) : words;
+
+  if (body.some(token => token.kind === 'punct' && token.text !== ',')) {
+    return null;
+  }
+  return { body, terminal };
+}
+
+// Words joined by single spaces, punctuation attached to the word before it
+export function joinWords(tokens: Token[]): string {
+  return tokens.reduce((text, token) =>
+    !text ? token.text : token.kind === 'punct' ? text + token.text : `${text} ${token.text}`, '');
+}
+
+export function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+// The form of a sentence-initial word for the middle of a sentence: lowercase for
+// function words and words written in lowercase elsewhere, unchanged for names
+// (a capitalized word followed by another one) and "I", and null when it cannot
+// be told whether the word is a name
+export function sentenceInternalForm(words: Token[], lowercaseWords: Set<string>): string | null {
+  const first = words[0];
+  const lower = first.text.toLowerCase();
+  if (!isCapitalized(first.text)) return first.text;
+  if (lower === 'i' || words[1]?.tag === 'proper') return first.text;
+  if (CLOSED_CLASSES.has(first.tag) || lowercaseWords.has(lower)) return lower;
+  return null;
+}
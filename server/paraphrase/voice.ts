@@ -0,0 +1,216 @@
+import { ParaphraseLexicon, VerbEntry } from './lexicon';
+import { capitalize, joinWords, sentenceInternalForm, splitTerminal, Token } from './tagger';
+
+// Active <-> passive for simple clauses at the start of a sentence:
+// "The committee approved the plan." <-> "The plan was approved by the committee."
+// Subject, verb and object are found by part of speech; anything the parse is not
+// sure about leaves the sentence as it is.
+
+const SUBJECT_TO_OBJECT: Record<string, string> = { i: 'me', we: 'us', they: 'them', he: 'him', she: 'her', you: 'you' };
+const OBJECT_TO_SUBJECT: Record<string, string> = { me: 'I', us: 'we', them: 'they', him: 'he', her: 'she', you: 'you' };
+
+const PLURAL_PRONOUNS = new Set(['we', 'they', 'you', 'us', 'them']);
+const PLURAL_DETERMINERS = new Set(['these', 'those', 'many', 'several', 'few', 'both', 'all']);
+const SINGULAR_DETERMINERS = new Set(['a', 'an', 'this', 'each', 'every', 'another']);
+
+// Verbs whose passive sounds wrong ("A key is needed by them", "Three items are included by the list")
+const STATIVE_VERBS = new Set([
+  'have', 'need', 'want', 'lack', 'resemble', 'cost', 'weigh', 'fit', 'suit', 'mean', 'contain', 'include',
+  'own', 'become', 'involve', 'require'
+]);
+
+// Words an object noun phrase can end before
+const PHRASE_BOUNDARIES = new Set(['prep', 'sub']);
+
+type Phrase = { words: Token[]; end: number; plural: boolean; pronoun?: string };
+
+export function transformVoice(tokens: Token[], lexicon: ParaphraseLexicon, lowercaseWords: Set<string>): string | null {
+  const sentence = splitTerminal(tokens);
+  if (!sentence) return null;
+  const { body, terminal } = sentence;
+
+  const subject = parseSubject(body, lexicon, lowercaseWords);
+  if (!subject) return null;
+
+  return toPassive(body, subject, lexicon, lowercaseWords, terminal) ??
+    toActive(body, subject, lexicon, lowercaseWords, terminal);
+}
+
+// "<subject> [adverb] <verb> <object> ..." -> "<object> was [adverb] <participle> by <subject> ..."
+function toPassive(
+  body: Token[],
+  subject: Phrase,
+  lexicon: ParaphraseLexicon,
+  lowercaseWords: Set<string>,
+  terminal: string
+): string | null {
+  let position = subject.end;
+  const adverb = body[position]?.tag === 'adv' ? body[position++] : undefined;
+  const verbToken = body[position];
+  const analysis = verbToken?.verb;
+  if (verbToken?.tag !== 'verb' || !analysis || !isPassivizable(analysis.verb)) return null;
+  if (analysis.form !== 'past' && analysis.form !== 'third') return null;
+
+  const object = parseObject(body, position + 1, lexicon);
+  if (!object || !endsPhrase(body, object.end)) return null;
+
+  const agent = subject.pronoun
+    ? SUBJECT_TO_OBJECT[subject.pronoun]
+    : internalForm(subject.words, lowercaseWords);
+  if (!agent) return null;
+
+  const newSubject = object.pronoun ? capitalize(OBJECT_TO_SUBJECT[object.pronoun]) : capitalizePhrase(object.words);
+  const be = analysis.form === 'past'
+    ? (object.plural ? 'were' : 'was')
+    : object.pronoun === 'me' ? 'am' : (object.plural ? 'are' : 'is');
+
+  return [
+    newSubject,
+    be,
+    adverb?.text,
+    analysis.verb.participle,
+    'by',
+    agent,
+    restOf(body, object.end)
+  ].filter(Boolean).join(' ') + terminal;
+}
+
+// "<subject> was [adverb] <participle> by <agent> ..." -> "<agent> [adverb] <verb> <subject> ..."
+function toActive(
+  body: Token[],
+  subject: Phrase,
+  lexicon: ParaphraseLexicon,
+  lowercaseWords: Set<string>,
+  terminal: string
+): string | null {
+  let position = subject.end;
+  const be = body[position++]?.text.toLowerCase();
+  if (!be || !/^(was|were|is|are)$/.test(be)) return null;
+  const adverb = body[position]?.tag === 'adv' ? body[position++] : undefined;
+
+  // Looked up again: after an adverb the tagger reads regular participles as past tense
+  const analysis = lexicon.verbForms.get(body[position]?.text.toLowerCase() || '')
+    ?.find(candidate => candidate.form === 'participle');
+  if (!analysis || !isPassivizable(analysis.verb)) return null;
+  if (body[position + 1]?.text.toLowerCase() !== 'by') return null;
+
+  const agent = parseAgent(body, position + 2, lexicon);
+  if (!agent || !endsPhrase(body, agent.end)) return null;
+
+  const object = subject.pronoun
+    ? SUBJECT_TO_OBJECT[subject.pronoun]
+    : internalForm(subject.words, lowercaseWords);
+  if (!object) return null;
+
+  const newSubject = agent.pronoun ? capitalize(OBJECT_TO_SUBJECT[agent.pronoun]) : capitalizePhrase(agent.words);
+  const isThirdSingular = !agent.plural && agent.pronoun !== 'me';
+  const verb = /^(was|were)$/.test(be) ? analysis.verb.past : isThirdSingular ? analysis.verb.third : analysis.verb.base;
+
+  return [newSubject, adverb?.text, verb, object, restOf(body, agent.end)].filter(Boolean).join(' ') + terminal;
+}
+
+function isPassivizable(verb: VerbEntry): boolean {
+  return verb.transitivity !== 'i' && !STATIVE_VERBS.has(verb.base);
+}
+
+// The sentence subject: a personal pronoun, a noun phrase with a determiner, a name
+// of several capitalized words or a common noun written in lowercase elsewhere
+function parseSubject(body: Token[], lexicon: ParaphraseLexicon, lowercaseWords: Set<string>): Phrase | null {
+  const first = body[0];
+  if (!first || first.kind !== 'word') return null;
+  const word = first.text.toLowerCase();
+
+  if (first.tag === 'pron') {
+    return word in SUBJECT_TO_OBJECT ? { words: [first], end: 1, plural: PLURAL_PRONOUNS.has(word), pronoun: word } : null;
+  }
+  if (first.tag === 'det') {
+    return parseNounPhrase(body, 0, lexicon);
+  }
+  if (body[1]?.tag === 'proper') {
+    return parseName(body, 0);
+  }
+  if ((first.tag === 'noun' || first.tag === 'other') && lowercaseWords.has(word)) {
+    return parseNounPhrase(body, 0, lexicon, true);
+  }
+  return null;
+}
+
+// The object: a noun phrase with a determiner or a personal pronoun in object case
+function parseObject(body: Token[], start: number, lexicon: ParaphraseLexicon): Phrase | null {
+  const first = body[start];
+  if (!first) return null;
+  const word = first.text.toLowerCase();
+
+  if (first.tag === 'pron') {
+    return word in OBJECT_TO_SUBJECT && word !== 'you'
+      ? { words: [first], end: start + 1, plural: PLURAL_PRONOUNS.has(word), pronoun: word }
+      : null;
+  }
+  return first.tag === 'det' ? parseNounPhrase(body, start, lexicon) : null;
+}
+
+// The agent of a passive: like an object, or a name
+function parseAgent(body: Token[], start: number, lexicon: ParaphraseLexicon): Phrase | null {
+  if (body[start]?.tag === 'proper') return parseName(body, start);
+  return parseObject(body, start, lexicon);
+}
+
+// Determiner (or a bare noun), modifiers and a head noun, optionally followed by
+// "of" and another noun phrase ("the head of the department")
+function parseNounPhrase(body: Token[], start: number, lexicon: ParaphraseLexicon, bare = false): Phrase | null {
+  let position = bare ? start : start + 1;
+  const determiner = bare ? '' : body[start].text.toLowerCase();
+  while (position < body.length && /^(adj|noun|other|num|proper)$/.test(body[position].tag || '')) {
+    position++;
+  }
+
+  const head = body[position - 1];
+  if (position === start + (bare ? 0 : 1) || !/^(noun|other|proper|num)$/.test(head.tag || '')) return null;
+  const plural = PLURAL_DETERMINERS.has(determiner) ||
+    (!SINGULAR_DETERMINERS.has(determiner) && isPluralNoun(head.text.toLowerCase(), lexicon));
+
+  // "of" phrases belong to the head noun; the number stays that of the head
+  if (body[position]?.text.toLowerCase() === 'of') {
+    const next = body[position + 1];
+    const complement = next?.tag === 'det'
+      ? parseNounPhrase(body, position + 1, lexicon)
+      : next?.tag === 'proper' ? parseName(body, position + 1) : parseNounPhrase(body, position + 1, lexicon, true);
+    if (!complement) return null;
+    position = complement.end;
+  }
+
+  return { words: body.slice(start, position), end: position, plural };
+}
+
+// Consecutive capitalized words
+function parseName(body: Token[], start: number): Phrase | null {
+  let position = start + 1;
+  while (body[position]?.tag === 'proper') position++;
+  return { words: body.slice(start, position), end: position, plural: false };
+}
+
+function isPluralNoun(word: string, lexicon: ParaphraseLexicon): boolean {
+  const singular = lexicon.nouns.get(word);
+  if (singular) return singular !== word;
+  return /[^su]s$/.test(word) && !/(ss|us|is)$/.test(word);
+}
+
+// The phrase is followed by the end of the sentence, a preposition or a new clause
+function endsPhrase(body: Token[], end: number): boolean {
+  const next = body[end];
+  if (!next) return true;
+  return PHRASE_BOUNDARIES.has(next.tag || '') && next.text.toLowerCase() !== 'of';
+}
+
+function internalForm(words: Token[], lowercaseWords: Set<string>): string | null {
+  const first = sentenceInternalForm(words, lowercaseWords);
+  return first === null ? null : joinWords([{ ...words[0], text: first }, ...words.slice(1)]);
+}
+
+function capitalizePhrase(words: Token[]): string {
+  return joinWords([{ ...words[0], text: capitalize(words[0].text) }, ...words.slice(1)]);
+}
+
+function restOf(body: Token[], end: number): string {
+  return joinWords(body.slice(end));
+}
@@ -4,19 +4,37 @@ import { storage } from "./storage";
 import multer from "multer";
 import {
   translateText,
+  translateBatch,
   summarizeText,
+  summarizeDocuments,
+  paraphraseText,
+  generateHeadlines,
   generateContent,
   extractKeywords,
   recommendAlgorithm
 } from "./nlp";
+import { listTranslationProviders, detectLanguage, transliterate } from "./translation";
+import { hasBudget } from "./summarization";
+import { evaluateSummary, runSummaryBenchmark, saveSummaryBenchmark, listBenchmarkDatasets } from "./evaluation";
+import { indexProcessedFile, indexTextOperation, isCorpusScope, loadCorpusStatistics, readableCorpusScopes, rebuildCorpus, CorpusStatistics } from "./corpus";
 import { processFile } from "./utils/fileProcessing";
+import { isAuthenticated, isAdmin } from "./auth";
 import {
   TranslationRequest,
+  BatchTranslationRequest,
   SummarizationRequest,
+  SummarizationResponse,
+  SummaryDocument,
+  ProcessedFileSummary,
+  ParaphraseRequest,
+  HeadlineRequest,
   ContentGenerationRequest,
   KeywordExtractionRequest,
   FileProcessingRequest,
-  AlgorithmRecommendationRequest
+  AlgorithmRecommendationRequest,
+  GlossaryEntry,
+  InsertTextOperation,
+  StoredBatchTranslation
 } from "@shared/schema";
 import { z } from "zod";
 
@@ -37,23 +55,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
         sourceLanguage: z.string(),
         targetLanguage: z.string(),
         formality: z.string().optional(),
-        domain: z.string().optional()
+        domain: z.string().optional(),
+        provider: z.string().optional(),
+        format: z.enum(['plain', 'markdown', 'html']).optional(),
+        useTranslationMemory: z.boolean().optional(),
+        qualityCheck: z.boolean().optional(),
+        includeTransliteration: z.boolean().optional(),
+        fuzzyMatchThreshold: z.number().min(0).max(100).optional()
       });
 
       const validatedData = schema.parse(req.body);
-      const result = await translateText(validatedData as TranslationRequest);
+      const glossary = await loadGlossary(req, validatedData.targetLanguage, validatedData.domain);
+      const result = await translateText(validatedData as TranslationRequest, { glossary, memory: storage, userId: req.user?.id });
 
       // Save operation to history
-      await storage.createTextOperation({
+      await recordOperation({
         operationType: "translation",
         inputText: validatedData.text,
         outputText: result.translatedText,
         metadata: JSON.stringify({
-          sourceLanguage: validatedData.sourceLanguage,
+          sourceLanguage: result.detectedLanguage?.language ?? validatedData.sourceLanguage,
           targetLanguage: validatedData.targetLanguage,
-          characterCount: result.characterCount
+          autoDetected: Boolean(result.detectedLanguage),
+          characterCount: result.characterCount,
+          provider: result.provider,
+          memoryMatches: result.segments?.filter(segment => segment.match === 'exact').length,
+          qualityScore: result.quality?.score
         }),
-        userId: null,
+        userId: req.user?.id ?? null,
         fileId: null
       });
 
@@ -64,35 +93,569 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Batch translation endpoint: one or more texts into one or more target languages
+  app.post("/api/translate/batch", async (req: Request, res: Response) => {
+    try {
+      const schema = z.object({
+        text: z.string().min(1, "Text is required").optional(),
+        texts: z.array(z.string().min(1, "Texts must not be empty")).min(1).max(50).optional(),
+        sourceLanguage: z.string(),
+        targetLanguage: z.string().optional(),
+        targetLanguages: z.array(z.string()).min(1).max(10).optional(),
+        formality: z.string().optional(),
+        domain: z.string().optional(),
+        provider: z.string().optional(),
+        format: z.enum(['plain', 'markdown', 'html']).optional(),
+        useTranslationMemory: z.boolean().optional(),
+        qualityCheck: z.boolean().optional(),
+        includeTransliteration: z.boolean().optional()
+      })
+      .refine(data => data.text !== undefined || data.texts !== undefined, {
+        message: "Provide text or texts"
+      })
+      .refine(data => data.targetLanguage !== undefined || data.targetLanguages !== undefined, {
+        message: "Provide targetLanguage or targetLanguages"
+      });
+
+      const validatedData = schema.parse(req.body);
+      const result = await translateBatch(validatedData as BatchTranslationRequest, async targetLanguage => ({
+        glossary: await loadGlossary(req, targetLanguage, validatedData.domain),
+        memory: storage,
+        userId: req.user?.id
+      }));
+
+      // Save every successful item to history, linked by the batch id
+      const texts = validatedData.texts ?? [validatedData.text!];
+      for (const [targetLanguage, items] of Object.entries(result.results)) {
+        for (const item of items) {
+          if (!item.result) continue;
+          
+          await recordOperation({
+            operationType: "translation",
+            inputText: texts[item.index],
+            outputText: item.result.translatedText,
+            metadata: JSON.stringify({
+              sourceLanguage: item.result.detectedLanguage?.language ?? validatedData.sourceLanguage,
+              targetLanguage,
+              autoDetected: Boolean(item.result.detectedLanguage),
+              characterCount: item.result.characterCount,
+              provider: item.result.provider,
+              batchIndex: item.index
+            }),
+            userId: req.user?.id ?? null,
+            fileId: null,
+            batchId: result.batchId
+          });
+        }
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error("Batch translation error:", error);
+      res.status(400).json({ message: (error as Error).message || "Batch translation failed" });
+    }
+  });
+
+  // Translations recorded for one batch, for the user who made it or an admin
+  app.get("/api/translate/batch/:batchId", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const operations = await storage.getTextOperationsByBatch(req.params.batchId);
+      const owned = operations.every(operation => operation.userId === req.user!.id);
+      if (operations.length === 0 || (!owned && req.user!.role !== 'admin')) {
+        return res.status(404).json({ message: "Batch not found" });
+      }
+      
+      const batch: StoredBatchTranslation = { batchId: req.params.batchId, results: {} };
+      for (const operation of operations) {
+        const metadata: Record<string, any> = typeof operation.metadata === 'string'
+          ? JSON.parse(operation.metadata)
+          : operation.metadata ?? {};
+        (batch.results[metadata.targetLanguage] ??= []).push({
+          index: metadata.batchIndex,
+          sourceLanguage: metadata.sourceLanguage,
+          translatedText: operation.outputText ?? ''
+        });
+      }
+      for (const items of Object.values(batch.results)) {
+        items.sort((a, b) => a.index - b.index);
+      }
+      res.json(batch);
+    } catch (error) {
+      console.error("Error fetching batch:", error);
+      res.status(500).json({ message: "Failed to fetch batch" });
+    }
+  });
+
+  // Language identification endpoint
+  app.post("/api/detect-language", async (req: Request, res: Response) => {
+    try {
+      const schema = z.object({
+        text: z.string().min(1, "Text is required")
+      });
+
+      const validatedData = schema.parse(req.body);
+      const result = await detectLanguage(validatedData.text);
+
+      res.json(result);
+    } catch (error) {
+      console.error("Language detection error:", error);
+      res.status(400).json({ message: (error as Error).message || "Language detection failed" });
+    }
+  });
+
+  // Romanisation of Cyrillic, Greek and Chinese text
+  app.post("/api/transliterate", async (req: Request, res: Response) => {
+    try {
+      const schema = z.object({
+        text: z.string().min(1, "Text is required"),
+        cyrillicScheme: z.enum(['iso9', 'bgn']).optional(),
+        pinyinTones: z.enum(['marks', 'numbers', 'none']).optional()
+      });
+
+      const { text, ...options } = schema.parse(req.body);
+      const result = await transliterate(text, options);
+
+      res.json(result);
+    } catch (error) {
+      console.error("Transliteration error:", error);
+      res.status(400).json({ message: (error as Error).message || "Transliteration failed" });
+    }
+  });
+
+  // List registered translation providers and whether they are configured
+  app.get("/api/translate/providers", (_req: Request, res: Response) => {
+    res.json(listTranslationProviders());
+  });
+
+  // Glossary management
+  const glossarySchema = z.object({
+    name: z.string().min(1, "Name is required"),
+    domain: z.string().nullable().optional()
+  });
+
+  const glossaryEntrySchema = z.object({
+    sourceTerm: z.string().trim().min(1, "Source term is required"),
+    targetLanguage: z.string().nullable().optional(),
+    translation: z.string().nullable().optional(),
+    keepAsIs: z.boolean().optional(),
+    caseSensitive: z.boolean().optional()
+  });
+
+  const requireTranslationOrKeep = (entry: { keepAsIs?: boolean; translation?: string | null }) =>
+    Boolean(entry.keepAsIs || entry.translation);
+
+  // Load a glossary owned by the current user, answering 404 otherwise
+  const findOwnGlossary = async (req: Request, res: Response) => {
+    const glossary = await storage.getGlossary(parseInt(req.params.id));
+    if (!glossary || glossary.userId !== req.user!.id) {
+      res.status(404).json({ message: "Glossary not found" });
+      return undefined;
+    }
+    return glossary;
+  };
+
+  app.get("/api/glossaries", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      res.json(await storage.getGlossariesByUser(req.user!.id));
+    } catch (error) {
+      console.error("Error fetching glossaries:", error);
+      res.status(500).json({ message: "Failed to fetch glossaries" });
+    }
+  });
+
+  app.post("/api/glossaries", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const schema = glossarySchema.extend({
+        entries: z.array(glossaryEntrySchema.refine(requireTranslationOrKeep, {
+          message: "A translation is required unless the term is kept as-is"
+        })).optional()
+      });
+
+      const { entries, ...validatedData } = schema.parse(req.body);
+      const glossary = await storage.createGlossary({ ...validatedData, userId: req.user!.id });
+
+      const createdEntries: GlossaryEntry[] = [];
+      for (const entry of entries || []) {
+        createdEntries.push(await storage.createGlossaryEntry({ ...entry, glossaryId: glossary.id }));
+      }
+
+      res.status(201).json({ ...glossary, entries: createdEntries });
+    } catch (error) {
+      console.error("Glossary creation error:", error);
+      res.status(400).json({ message: (error as Error).message || "Glossary creation failed" });
+    }
+  });
+
+  app.get("/api/glossaries/:id", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const glossary = await findOwnGlossary(req, res);
+      if (glossary) {
+        res.json(glossary);
+      }
+    } catch (error) {
+      console.error("Error fetching glossary:", error);
+      res.status(500).json({ message: "Failed to fetch glossary" });
+    }
+  });
+
+  app.patch("/api/glossaries/:id", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const validatedData = glossarySchema.partial().parse(req.body);
+      const glossary = await findOwnGlossary(req, res);
+      if (!glossary) return;
+
+      res.json(await storage.updateGlossary(glossary.id, validatedData));
+    } catch (error) {
+      console.error("Glossary update error:", error);
+      res.status(400).json({ message: (error as Error).message || "Glossary update failed" });
+    }
+  });
+
+  app.delete("/api/glossaries/:id", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const glossary = await findOwnGlossary(req, res);
+      if (!glossary) return;
+
+      await storage.deleteGlossary(glossary.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Glossary deletion error:", error);
+      res.status(500).json({ message: "Glossary deletion failed" });
+    }
+  });
+
+  app.post("/api/glossaries/:id/entries", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const validatedData = glossaryEntrySchema
+        .refine(requireTranslationOrKeep, { message: "A translation is required unless the term is kept as-is" })
+        .parse(req.body);
+      const glossary = await findOwnGlossary(req, res);
+      if (!glossary) return;
+
+      const entry = await storage.createGlossaryEntry({ ...validatedData, glossaryId: glossary.id });
+      res.status(201).json(entry);
+    } catch (error) {
+      console.error("Glossary entry creation error:", error);
+      res.status(400).json({ message: (error as Error).message || "Glossary entry creation failed" });
+    }
+  });
+
+  app.patch("/api/glossaries/:id/entries/:entryId", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const validatedData = glossaryEntrySchema.partial().parse(req.body);
+      const glossary = await findOwnGlossary(req, res);
+      if (!glossary) return;
+
+      const entry = glossary.entries.find(e => e.id === parseInt(req.params.entryId));
+      if (!entry) {
+        return res.status(404).json({ message: "Glossary entry not found" });
+      }
+      if (!requireTranslationOrKeep({ ...entry, ...validatedData })) {
+        return res.status(400).json({ message: "A translation is required unless the term is kept as-is" });
+      }
+
+      res.json(await storage.updateGlossaryEntry(entry.id, validatedData));
+    } catch (error) {
+      console.error("Glossary entry update error:", error);
+      res.status(400).json({ message: (error as Error).message || "Glossary entry update failed" });
+    }
+  });
+
+  app.delete("/api/glossaries/:id/entries/:entryId", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const glossary = await findOwnGlossary(req, res);
+      if (!glossary) return;
+
+      const entry = glossary.entries.find(e => e.id === parseInt(req.params.entryId));
+      if (!entry) {
+        return res.status(404).json({ message: "Glossary entry not found" });
+      }
+
+      await storage.deleteGlossaryEntry(entry.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Glossary entry deletion error:", error);
+      res.status(500).json({ message: "Glossary entry deletion failed" });
+    }
+  });
+
+  // "global", "user:<id>" or "collection:<name>"
+  const corpusScopeSchema = z.string().refine(isCorpusScope, "Invalid corpus scope");
+  const normalizationSchema = z.enum(["none", "stem", "lemma"]);
+  // A language name or ISO 639-1 code, or "auto" to detect it
+  const textLanguageSchema = z.string().min(2).max(40);
+
   // Summarization endpoint
+  const summarizationSchema = z.object({
+    text: z.string().min(1, "Text is required"),
+    length: z.enum(["short", "medium", "long"]),
+    style: z.enum(["informative", "bullet_points", "simplified"]).optional(),
+    method: z.enum(["enhanced_tfidf", "textrank", "lexrank", "abstractive"]).optional(),
+    query: z.string().max(500).optional(),
+    maxWords: z.number().int().positive().max(10000).optional(),
+    maxSentences: z.number().int().positive().max(500).optional(),
+    maxCharacters: z.number().int().positive().max(100000).optional(),
+    paraphrase: z.boolean().optional(),
+    corpus: corpusScopeSchema.optional(),
+    normalization: normalizationSchema.optional(),
+    language: textLanguageSchema.optional()
+  });
+
   app.post("/api/summarize", async (req: Request, res: Response) => {
+    try {
+      const validatedData = summarizationSchema.parse(req.body);
+      const corpus = await requestCorpus(req, validatedData.corpus, validatedData.text);
+      const result = await summarizeText(validatedData as SummarizationRequest, undefined, corpus);
+
+      // Save operation to history
+      await saveSummaryOperation(validatedData as SummarizationRequest, result, req.user?.id ?? null);
+
+      res.json(result);
+    } catch (error) {
+      console.error("Summarization error:", error);
+      res.status(400).json({ message: error.message || "Summarization failed" });
+    }
+  });
+
+  // Summarization with progress: newline-delimited JSON events, one per summarized
+  // chunk of a long document, followed by the result (or an error)
+  app.post("/api/summarize/stream", async (req: Request, res: Response) => {
+    let validatedData: SummarizationRequest;
+    try {
+      validatedData = summarizationSchema.parse(req.body) as SummarizationRequest;
+    } catch (error) {
+      return res.status(400).json({ message: (error as Error).message || "Summarization failed" });
+    }
+
+    res.setHeader("Content-Type", "application/x-ndjson");
+    res.setHeader("Cache-Control", "no-cache");
+    const send = (event: object) => res.write(JSON.stringify(event) + "\n");
+
+    try {
+      const corpus = await requestCorpus(req, validatedData.corpus, validatedData.text);
+      const result = await summarizeText(validatedData, progress => send({ type: "progress", ...progress }), corpus);
+      await saveSummaryOperation(validatedData, result, req.user?.id ?? null);
+      send({ type: "result", result });
+    } catch (error) {
+      console.error("Summarization error:", error);
+      send({ type: "error", message: (error as Error).message || "Summarization failed" });
+    }
+    res.end();
+  });
+
+  // Multi-document summarization over pasted texts and/or previously processed files
+  app.post("/api/summarize/multi", async (req: Request, res: Response) => {
     try {
       const schema = z.object({
-        text: z.string().min(1, "Text is required"),
+        texts: z.array(z.string().min(1)).max(10).optional(),
+        fileIds: z.array(z.number().int().positive()).max(10).optional(),
         length: z.enum(["short", "medium", "long"]),
-        style: z.enum(["informative", "bullet_points", "simplified"]).optional()
+        style: z.enum(["informative", "bullet_points", "simplified"]).optional(),
+        method: z.enum(["enhanced_tfidf", "textrank", "lexrank"]).optional(),
+        query: z.string().max(500).optional(),
+        paraphrase: z.boolean().optional(),
+        normalization: normalizationSchema.optional(),
+        language: textLanguageSchema.optional()
+      }).refine(data => (data.texts?.length || 0) + (data.fileIds?.length || 0) >= 2, {
+        message: "At least two documents are required"
       });
 
-      const validatedData = schema.parse(req.body);
-      const result = await summarizeText(validatedData as SummarizationRequest);
+      const { texts = [], fileIds = [], ...options } = schema.parse(req.body);
+      // Processed files are private to the user who uploaded them
+      if (fileIds.length > 0 && !req.isAuthenticated()) {
+        return res.status(401).json({ message: "Sign in to summarize processed files" });
+      }
+
+      const documents: SummaryDocument[] = texts.map((text, index) => ({ title: `Text ${index + 1}`, text }));
+      for (const fileId of fileIds) {
+        const file = await storage.getProcessedFile(fileId);
+        if (!file || file.userId !== req.user!.id || !file.extractedText) {
+          return res.status(404).json({ message: `File ${fileId} not found or has no extracted text` });
+        }
+        documents.push({ title: file.originalFilename, text: file.extractedText, fileId });
+      }
+
+      const result = await summarizeDocuments(documents, options);
 
       // Save operation to history
-      await storage.createTextOperation({
+      await recordOperation({
         operationType: "summarization",
-        inputText: validatedData.text,
+        inputText: documents.map(document => document.text).join("\n\n"),
         outputText: result.summary,
         metadata: JSON.stringify({
-          length: validatedData.length,
-          style: validatedData.style
+          length: options.length,
+          style: options.style,
+          method: result.method,
+          query: options.query,
+          paraphrase: options.paraphrase,
+          normalization: options.normalization,
+          language: result.language,
+          documents: result.documents
+        }),
+        userId: req.user?.id ?? null,
+        fileId: fileIds.length === 1 ? fileIds[0] : null
+      });
+
+      res.json(result);
+    } catch (error) {
+      console.error("Multi-document summarization error:", error);
+      res.status(400).json({ message: (error as Error).message || "Summarization failed" });
+    }
+  });
+
+  // Summary evaluation: ROUGE against one or more reference summaries
+  app.post("/api/evaluate/summary", async (req: Request, res: Response) => {
+    try {
+      const schema = z.object({
+        candidate: z.string().min(1, "Candidate summary is required").max(50000),
+        references: z.array(z.string().min(1).max(50000)).min(1, "At least one reference is required").max(10),
+        source: z.string().max(500000).optional()
+      });
+
+      const { candidate, references, source } = schema.parse(req.body);
+      res.json(evaluateSummary(candidate, references, source));
+    } catch (error) {
+      console.error("Summary evaluation error:", error);
+      res.status(400).json({ message: (error as Error).message || "Summary evaluation failed" });
+    }
+  });
+
+  // Benchmark every summarization method on a dataset of (document, reference) pairs
+  // and store the report for comparison with later runs. Admins only: a run makes
+  // paid model calls for the abstractive method
+  app.post("/api/evaluate/benchmark", isAdmin, async (req: Request, res: Response) => {
+    try {
+      const schema = z.object({
+        dataset: z.string().regex(/^[\w-]+$/, "Invalid dataset name").optional(),
+        length: z.enum(["short", "medium", "long"]).optional(),
+        methods: z.array(z.enum(["enhanced_tfidf", "textrank", "lexrank", "abstractive"])).optional(),
+        label: z.string().min(1).max(100).optional()
+      });
+
+      const validatedData = schema.parse(req.body);
+      const report = await runSummaryBenchmark(validatedData);
+      const run = await saveSummaryBenchmark(
+        storage,
+        report,
+        validatedData.label || process.env.npm_package_version || "unversioned"
+      );
+
+      res.json(run);
+    } catch (error) {
+      console.error("Summary benchmark error:", error);
+      res.status(400).json({ message: (error as Error).message || "Summary benchmark failed" });
+    }
+  });
+
+  // Stored benchmark runs, newest first
+  app.get("/api/evaluate/benchmarks", async (req: Request, res: Response) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 20;
+      const runs = await storage.getSummaryBenchmarks(
+        limit,
+        req.query.dataset as string | undefined,
+        req.query.length as string | undefined
+      );
+      res.json(runs);
+    } catch (error) {
+      console.error("Error fetching benchmark runs:", error);
+      res.status(500).json({ message: "Failed to fetch benchmark runs" });
+    }
+  });
+
+  app.get("/api/evaluate/benchmarks/:id", async (req: Request, res: Response) => {
+    try {
+      const run = await storage.getSummaryBenchmark(parseInt(req.params.id));
+      if (!run) {
+        return res.status(404).json({ message: "Benchmark run not found" });
+      }
+      res.json(run);
+    } catch (error) {
+      console.error("Error fetching benchmark run:", error);
+      res.status(500).json({ message: "Failed to fetch benchmark run" });
+    }
+  });
+
+  // Datasets available to the benchmark
+  app.get("/api/evaluate/datasets", async (req: Request, res: Response) => {
+    try {
+      res.json(await listBenchmarkDatasets());
+    } catch (error) {
+      console.error("Error listing benchmark datasets:", error);
+      res.status(500).json({ message: "Failed to list benchmark datasets" });
+    }
+  });
+
+  // Paraphrasing endpoint: rule-based and reproducible for a given seed
+  app.post("/api/paraphrase", async (req: Request, res: Response) => {
+    try {
+      const schema = z.object({
+        text: z.string().min(1, "Text is required"),
+        seed: z.number().int().min(0).max(0xffffffff).optional(),
+        strength: z.number().min(0).max(1).optional(),
+        transformations: z.array(z.enum(["synonym", "clause_reorder", "voice"])).min(1).optional(),
+        language: textLanguageSchema.optional()
+      });
+
+      const validatedData = schema.parse(req.body);
+      const result = await paraphraseText(validatedData as ParaphraseRequest);
+
+      // Save operation to history
+      await recordOperation({
+        operationType: "paraphrase",
+        inputText: validatedData.text,
+        outputText: result.paraphrasedText,
+        metadata: JSON.stringify({
+          seed: result.seed,
+          strength: result.strength,
+          transformations: validatedData.transformations,
+          changes: result.changes.length
         }),
-        userId: null,
+        userId: req.user?.id ?? null,
         fileId: null
       });
 
       res.json(result);
     } catch (error) {
-      console.error("Summarization error:", error);
-      res.status(400).json({ message: error.message || "Summarization failed" });
+      console.error("Paraphrasing error:", error);
+      res.status(400).json({ message: (error as Error).message || "Paraphrasing failed" });
+    }
+  });
+
+  // Headline generation endpoint: ranked candidate titles for a text
+  app.post("/api/headline", async (req: Request, res: Response) => {
+    try {
+      const schema = z.object({
+        text: z.string().min(1, "Text is required"),
+        count: z.number().int().min(1).max(20).optional(),
+        maxWords: z.number().int().min(3).max(30).optional(),
+        capitalization: z.enum(["sentence", "title"]).optional(),
+        language: textLanguageSchema.optional()
+      });
+
+      const validatedData = schema.parse(req.body);
+      const result = await generateHeadlines(validatedData as HeadlineRequest);
+
+      // Save operation to history
+      await recordOperation({
+        operationType: "headline",
+        inputText: validatedData.text,
+        outputText: result.headlines[0]?.text || "",
+        metadata: JSON.stringify({
+          count: validatedData.count,
+          maxWords: validatedData.maxWords,
+          capitalization: validatedData.capitalization,
+          language: result.language,
+          candidates: result.headlines.length
+        }),
+        userId: req.user?.id ?? null,
+        fileId: null
+      });
+
+      res.json(result);
+    } catch (error) {
+      console.error("Headline generation error:", error);
+      res.status(400).json({ message: (error as Error).message || "Headline generation failed" });
     }
   });
 
@@ -111,7 +674,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const result = await generateContent(validatedData as ContentGenerationRequest);
 
       // Save operation to history
-      await storage.createTextOperation({
+      await recordOperation({
         operationType: "generation",
         inputText: validatedData.prompt,
         outputText: result.generatedContent,
@@ -121,7 +684,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           length: validatedData.length,
           creativityLevel: validatedData.creativityLevel
         }),
-        userId: null,
+        userId: req.user?.id ?? null,
         fileId: null
       });
 
@@ -137,23 +700,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const schema = z.object({
         text: z.string().min(1, "Text is required"),
-        count: z.number().int().positive(),
-        method: z.enum(["enhanced_tfidf", "bert_based", "standard_tfidf"])
+        count: z.number().int().positive().max(50),
+        method: z.enum(["enhanced_tfidf", "bert_based", "standard_tfidf", "rake", "yake"]),
+        corpus: corpusScopeSchema.optional(),
+        normalization: normalizationSchema.optional(),
+        language: textLanguageSchema.optional()
       });
 
       const validatedData = schema.parse(req.body);
-      const result = await extractKeywords(validatedData as KeywordExtractionRequest);
+      const corpus = await requestCorpus(req, validatedData.corpus, validatedData.text);
+      const result = await extractKeywords(validatedData as KeywordExtractionRequest, corpus);
 
       // Save operation to history
-      await storage.createTextOperation({
+      await recordOperation({
         operationType: "keyword_extraction",
         inputText: validatedData.text,
         outputText: JSON.stringify(result.keywords),
         metadata: JSON.stringify({
           method: validatedData.method,
-          count: validatedData.count
+          count: validatedData.count,
+          corpus: validatedData.corpus,
+          normalization: validatedData.normalization,
+          language: result.language
         }),
-        userId: null,
+        userId: req.user?.id ?? null,
         fileId: null
       });
 
@@ -164,6 +734,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Corpus statistics scopes the user may use, with their document and term counts
+  app.get("/api/corpus", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const readable = new Set(await readableCorpusScopes(storage, req.user!.id));
+      const scopes = await storage.getCorpusScopes();
+      res.json(scopes.filter(summary => readable.has(summary.scope)));
+    } catch (error) {
+      console.error("Error fetching corpus statistics:", error);
+      res.status(500).json({ message: "Failed to fetch corpus statistics" });
+    }
+  });
+
+  // Recount one scope, or every scope, from the stored files and operations.
+  // Admins only: a rebuild reads the whole history.
+  app.post("/api/corpus/rebuild", isAdmin, async (req: Request, res: Response) => {
+    try {
+      const { scope } = z.object({ scope: corpusScopeSchema.optional() }).parse(req.body);
+      const scopes = await rebuildCorpus(storage, scope);
+      res.json({ scopes });
+    } catch (error) {
+      console.error("Corpus rebuild error:", error);
+      res.status(400).json({ message: (error as Error).message || "Corpus rebuild failed" });
+    }
+  });
+
+  // The signed-in user's processed files, newest first, for selecting them as sources
+  app.get("/api/files", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 20;
+      const files = await storage.getRecentProcessedFiles(req.user!.id, limit);
+      const summaries: ProcessedFileSummary[] = files.map(file => ({
+        id: file.id,
+        originalFilename: file.originalFilename,
+        title: file.title,
+        fileType: file.fileType,
+        createdAt: file.createdAt,
+        characters: file.extractedText?.length || 0
+      }));
+      res.json(summaries);
+    } catch (error) {
+      console.error("Error fetching processed files:", error);
+      res.status(500).json({ message: "Failed to fetch processed files" });
+    }
+  });
+
   // File upload endpoint
   app.post("/api/upload", upload.single("file"), async (req: Request, res: Response) => {
     try {
@@ -178,6 +793,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "File size exceeds limit (10MB)" });
       }
 
+      const collection = options?.collection?.trim() || null;
+      if (collection && !isCorpusScope(`collection:${collection}`)) {
+        return res.status(400).json({ message: "Collection names are up to 100 letters, digits, spaces, dots, dashes or underscores" });
+      }
+
       // Process the file to extract text
       const { extractedText, fileName, fileType, processedText } = await processFile(
         req.file.buffer,
@@ -186,16 +806,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
         options
       );
 
+      // Title the file with the best headline for its text; a file without one
+      // is still saved
+      let title: string | null = null;
+      if (extractedText.trim()) {
+        try {
+          const { headlines } = await generateHeadlines({ text: extractedText, count: 1 });
+          title = headlines[0]?.text || null;
+        } catch (headlineError) {
+          console.error("Headline generation error:", headlineError);
+        }
+      }
+
       // Save the processed file record
       const processedFile = await storage.createProcessedFile({
         originalFilename: fileName,
+        title,
         fileType,
         extractedText,
-        userId: null
+        collection,
+        userId: req.user?.id ?? null
       });
 
+      // A file whose text cannot be indexed is still saved
+      try {
+        await indexProcessedFile(storage, processedFile);
+      } catch (indexError) {
+        console.error("Corpus indexing error:", indexError);
+      }
+
       // Create operation record
-      await storage.createTextOperation({
+      await recordOperation({
         operationType: "file_processing",
         inputText: fileName,
         outputText: extractedText,
@@ -204,7 +845,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           fileSize: req.file.size,
           operation: options?.operation || null
         }),
-        userId: null,
+        userId: req.user?.id ?? null,
         fileId: processedFile.id
       });
 
@@ -213,6 +854,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         extractedText,
         fileId: processedFile.id,
         fileName,
+        title,
         fileType
       };
 
@@ -224,11 +866,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
             const summaryResult = await summarizeText({
               text: extractedText,
               length: options.summaryLength,
-              style: 'informative'
+              style: 'informative',
+              language: options.sourceLanguage
             });
             
             // Save the summarization operation
-            await storage.createTextOperation({
+            await recordOperation({
               operationType: "summarization",
               inputText: extractedText,
               outputText: summaryResult.summary,
@@ -237,7 +880,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 fromFile: true,
                 fileName
               }),
-              userId: null,
+              userId: req.user?.id ?? null,
               fileId: processedFile.id
             });
             
@@ -245,41 +888,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
             responseData.operation = 'summarization';
           } 
           else if (options.operation === 'translation' && options.targetLanguage) {
-            // Process translation
+            // Process translation, detecting the document language unless the client named it
+            const glossary = await loadGlossary(req, options.targetLanguage);
             const translationResult = await translateText({
               text: extractedText,
-              sourceLanguage: 'English', // Assuming source is English
+              sourceLanguage: options.sourceLanguage || 'auto',
               targetLanguage: options.targetLanguage
-            });
+            }, { glossary, memory: storage, userId: req.user?.id });
+            
+            const detected = translationResult.detectedLanguage;
+            const sourceLanguage = detected?.language ?? options.sourceLanguage ?? 'auto';
+            
+            // Flag documents whose language could not be trusted instead of translating silently
+            const warnings: string[] = [];
+            if (detected && !detected.reliable) {
+              warnings.push(`The document language could not be detected reliably (best guess: ${detected.language}, ${Math.round(detected.confidence * 100)}% confidence). The translation may be inaccurate.`);
+            }
+            if (sourceLanguage === options.targetLanguage) {
+              warnings.push(`The document already appears to be in ${options.targetLanguage}.`);
+            }
             
             // Save the translation operation
-            await storage.createTextOperation({
+            await recordOperation({
               operationType: "translation",
               inputText: extractedText,
               outputText: translationResult.translatedText,
               metadata: JSON.stringify({
-                sourceLanguage: 'English',
+                sourceLanguage,
                 targetLanguage: options.targetLanguage,
+                autoDetected: Boolean(detected),
+                provider: translationResult.provider,
                 fromFile: true,
                 fileName
               }),
-              userId: null,
+              userId: req.user?.id ?? null,
               fileId: processedFile.id
             });
             
             responseData.processedText = translationResult.translatedText;
             responseData.operation = 'translation';
+            responseData.detectedLanguage = detected;
+            if (warnings.length > 0) {
+              responseData.warnings = warnings;
+            }
           }
           else if (options.operation === 'keyword_extraction') {
             // Extract keywords
             const keywordResult = await extractKeywords({
               text: extractedText,
               count: 15, // Extract 15 keywords by default
-              method: 'enhanced_tfidf'
+              method: 'enhanced_tfidf',
+              language: options.sourceLanguage
             });
             
             // Save the keyword extraction operation
-            await storage.createTextOperation({
+            await recordOperation({
               operationType: "keyword_extraction",
               inputText: extractedText,
               outputText: JSON.stringify(keywordResult.keywords),
@@ -288,7 +951,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 fromFile: true,
                 fileName
               }),
-              userId: null,
+              userId: req.user?.id ?? null,
               fileId: processedFile.id
             });
             
@@ -325,7 +988,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const result = await recommendAlgorithm(validatedData as AlgorithmRecommendationRequest);
 
       // Save operation to history
-      await storage.createTextOperation({
+      await recordOperation({
         operationType: "algorithm_recommendation",
         inputText: JSON.stringify({
           taskType: validatedData.taskType,
@@ -338,7 +1001,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           explanation: result.explanation,
           suggestedParameters: result.suggestedParameters
         }),
-        userId: null,
+        userId: req.user?.id ?? null,
         fileId: null
       });
 
@@ -425,6 +1088,77 @@ export async function registerRoutes(app: Express): Promise<Server> {
   return httpServer;
 }
 
+// Glossary entries that apply to the signed-in user's translation; anonymous requests have none.
+// The UI's "General" domain means no domain, so only domain-independent glossaries apply.
+async function loadGlossary(req: Request, targetLanguage: string, domain?: string): Promise<GlossaryEntry[]> {
+  if (!req.isAuthenticated()) {
+    return [];
+  }
+  
+  const scopedDomain = domain && domain !== 'General' ? domain : undefined;
+  return storage.getGlossaryEntriesForTranslation(req.user.id, targetLanguage, scopedDomain);
+}
+
+// Record an operation in the history and count its input in the corpus
+// statistics; an operation whose text cannot be indexed is still recorded
+async function recordOperation(operation: InsertTextOperation): Promise<void> {
+  const saved = await storage.createTextOperation(operation);
+  try {
+    await indexTextOperation(storage, saved);
+  } catch (error) {
+    console.error("Corpus indexing error:", error);
+  }
+}
+
+// Statistics of the requested corpus scope for the words of a text, if the
+// caller may read that scope
+async function requestCorpus(req: Request, scope: string | undefined, text: string): Promise<CorpusStatistics | undefined> {
+  if (!scope) {
+    return undefined;
+  }
+  
+  const readable = await readableCorpusScopes(storage, req.user?.id ?? null);
+  if (!readable.includes(scope)) {
+    throw new Error(`Corpus scope not available: ${scope}`);
+  }
+  return loadCorpusStatistics(storage, scope, text);
+}
+
+// Record a summarization in the operation history, as the signed-in user's when
+// there is one
+async function saveSummaryOperation(
+  request: SummarizationRequest,
+  result: SummarizationResponse,
+  userId: number | null
+): Promise<void> {
+  await recordOperation({
+    operationType: "summarization",
+    inputText: request.text,
+    outputText: result.summary,
+    metadata: JSON.stringify({
+      length: request.length,
+      style: request.style,
+      method: result.method,
+      engine: result.engine,
+      model: result.model,
+      fallbackReason: result.fallbackReason,
+      query: request.query,
+      paraphrase: request.paraphrase,
+      corpus: request.corpus,
+      normalization: request.normalization,
+      language: result.language,
+      budget: hasBudget(request)
+        ? { maxWords: request.maxWords, maxSentences: request.maxSentences, maxCharacters: request.maxCharacters }
+        : undefined,
+      hierarchy: result.hierarchy,
+      // Keep the trace so a stored summary can still be checked against its input
+      sentences: result.sentences?.map(({ index, start, end, paraphrased }) => ({ index, start, end, paraphrased }))
+    }),
+    userId,
+    fileId: null
+  });
+}
+
 // Helper function to format time ago
 function getTimeAgo(date: Date | null): string {
   if (!date) {
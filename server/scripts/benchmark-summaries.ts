@@ -0,0 +1,73 @@
+// Benchmark the summarization methods on a dataset of (document, reference) pairs
+// and print a comparison table.
+// Usage: tsx server/scripts/benchmark-summaries.ts [dataset] [--length short|medium|long]
+//          [--methods enhanced_tfidf,textrank] [--label v1.4.0] [--save]
+// --save stores the run in the database (DATABASE_URL) next to the runs made
+// through POST /api/evaluate/benchmark, with changes against the previous run.
+
+import { SummarizationMethod, SummaryBenchmarkReport } from '@shared/schema';
+import { runSummaryBenchmark, saveSummaryBenchmark } from '../evaluation';
+
+function option(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+const dataset = process.argv[2] && !process.argv[2].startsWith('--') ? process.argv[2] : 'sample';
+const length = (option('length') || 'medium') as SummaryBenchmarkReport['length'];
+const methods = option('methods')?.split(',') as SummarizationMethod[] | undefined;
+const label = option('label') || process.env.npm_package_version || 'unversioned';
+
+const column = (value: string) => value.padStart(9);
+const percent = (value: number) => column((value * 100).toFixed(1));
+const signed = (value: number) => `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}`;
+
+function printReport(report: SummaryBenchmarkReport): void {
+  console.log(`Dataset ${report.dataset}: ${report.documents} documents, ${report.length} summaries`);
+  if (report.previous) {
+    console.log(`Changes against run ${report.previous.id} (${report.previous.label})`);
+  }
+  console.log('method'.padEnd(16) + ['ROUGE-1', 'ROUGE-2', 'ROUGE-L', 'compr.', 'ms/doc'].map(column).join(''));
+
+  for (const summary of report.methods) {
+    const change = summary.change
+      ? `  (${signed(summary.change.rouge1)} / ${signed(summary.change.rouge2)} / ${signed(summary.change.rougeL)})`
+      : '';
+    const notes = [
+      summary.fallbacks ? `${summary.fallbacks} fallbacks` : '',
+      summary.documents < report.documents ? `${report.documents - summary.documents} failed` : ''
+    ].filter(Boolean).join(', ');
+
+    console.log(
+      summary.method.padEnd(16) +
+      percent(summary.rouge1) + percent(summary.rouge2) + percent(summary.rougeL) +
+      column(summary.compressionRatio.toFixed(2)) +
+      column(summary.averageMilliseconds.toFixed(0)) +
+      change + (notes ? `  [${notes}]` : '')
+    );
+  }
+
+  for (const result of report.results.filter(result => result.error)) {
+    console.log(`${result.method} failed on ${result.document}: ${result.error}`);
+  }
+}
+
+async function main(): Promise<void> {
+  const report = await runSummaryBenchmark({ dataset, length, methods });
+
+  if (process.argv.includes('--save')) {
+    // Loaded only here because connecting requires DATABASE_URL
+    const { storage } = await import('../storage');
+    const run = await saveSummaryBenchmark(storage, report, label);
+    printReport(run.report as SummaryBenchmarkReport);
+    console.log(`Saved as run ${run.id} (${label})`);
+    process.exit(0);
+  }
+
+  printReport(report);
+}
+
+main().catch(error => {
+  console.error('Benchmark failed:', (error as Error).message);
+  process.exit(1);
+});
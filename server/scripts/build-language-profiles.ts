@@ -0,0 +1,46 @@
+// Script to train character n-gram language profiles from sample corpora
+// Usage: tsx server/scripts/build-language-profiles.ts [corpusDir] [outputDir]
+
+import fs from 'fs';
+import path from 'path';
+import { extractCharNgrams } from '../translation/languageDetection';
+
+// Keep the most frequent n-grams of each language
+const PROFILE_SIZE = 2000;
+
+const corpusDir = process.argv[2] || path.join(import.meta.dirname, '../data/language-corpus');
+const outputDir = process.argv[3] || path.join(import.meta.dirname, '../data/language-profiles');
+
+try {
+  fs.mkdirSync(outputDir, { recursive: true });
+  
+  // Each corpus file is named after the ISO 639-1 code of its language
+  const files = fs.readdirSync(corpusDir).filter(file => file.endsWith('.txt'));
+  
+  for (const file of files) {
+    const code = path.basename(file, '.txt');
+    const text = fs.readFileSync(path.join(corpusDir, file), 'utf-8');
+    
+    const counts: Record<string, number> = {};
+    const ngrams = extractCharNgrams(text);
+    for (const gram of ngrams) {
+      counts[gram] = (counts[gram] || 0) + 1;
+    }
+    
+    const top = Object.entries(counts)
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, PROFILE_SIZE);
+    
+    const profile = {
+      code,
+      total: ngrams.length,
+      ngrams: Object.fromEntries(top)
+    };
+    
+    fs.writeFileSync(path.join(outputDir, `${code}.json`), JSON.stringify(profile) + '\n');
+    console.log(`${code}: ${top.length} n-grams from ${ngrams.length} samples`);
+  }
+} catch (error) {
+  console.error('Error building language profiles:', (error as Error).message);
+  process.exit(1);
+}
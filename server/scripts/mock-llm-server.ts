@@ -0,0 +1,65 @@
+// Minimal OpenAI-compatible chat-completions server for trying out the
+// model-backed features without an API key. It answers every request with the
+// first sentences of the user's message, so results are predictable.
+// Usage: tsx server/scripts/mock-llm-server.ts [port]
+// then run the app with OPENAI_BASE_URL=http://localhost:<port>/v1
+// Requests whose system prompt contains MOCK_FAIL_ON (if set) get a 500, to
+// exercise the fallbacks.
+
+import http from 'http';
+
+const port = parseInt(process.argv[2] || process.env.MOCK_LLM_PORT || '8089', 10);
+const failOn = process.env.MOCK_FAIL_ON;
+
+type ChatMessage = { role: string; content: string };
+
+// Echo the opening of the text: up to three sentences, bulleted when asked for bullets
+function reply(messages: ChatMessage[]): string {
+  const system = messages.find(message => message.role === 'system')?.content || '';
+  const user = messages.filter(message => message.role === 'user').map(message => message.content).join('\n');
+  const sentences = user.replace(/\s+/g, ' ').match(/[^.!?]+[.!?]+/g) || [user];
+  const opening = sentences.slice(0, 3).map(sentence => sentence.trim());
+
+  return system.includes('bullet points')
+    ? opening.map(sentence => `• ${sentence}`).join('\n')
+    : opening.join(' ');
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method !== 'POST' || !req.url?.endsWith('/chat/completions')) {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: { message: 'Not found' } }));
+    return;
+  }
+
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    try {
+      const { model, messages } = JSON.parse(body) as { model: string; messages: ChatMessage[] };
+      const system = messages.find(message => message.role === 'system')?.content || '';
+      if (failOn && system.includes(failOn)) {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: { message: 'Mock failure' } }));
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        id: `mock-${Date.now()}`,
+        object: 'chat.completion',
+        created: Math.floor(Date.now() / 1000),
+        model,
+        choices: [{ index: 0, message: { role: 'assistant', content: reply(messages) }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }
+      }));
+    } catch (error) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: (error as Error).message } }));
+    }
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Mock LLM server listening on http://localhost:${port}/v1`);
+});
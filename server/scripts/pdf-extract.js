@@ -11,12 +11,27 @@ if (!filePath) {
   process.exit(1);
 }
 
+// Render a page the way pdf-parse does by default, starting every page after
+// the first with a form feed so long documents can be split by page
+function renderPage(pageData) {
+  return pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false })
+    .then(textContent => {
+      let lastY;
+      let text = pageData.pageIndex > 0 ? '\f' : '';
+      for (const item of textContent.items) {
+        text += lastY === item.transform[5] || lastY === undefined ? item.str : '\n' + item.str;
+        lastY = item.transform[5];
+      }
+      return text;
+    });
+}
+
 try {
   // Read the PDF file
   const dataBuffer = fs.readFileSync(filePath);
 
   // Parse the PDF
-  pdfParse(dataBuffer)
+  pdfParse(dataBuffer, { pagerender: renderPage })
     .then(data => {
       // Output the text content to stdout
       console.log(data.text);
@@ -0,0 +1,22 @@
+// Recount the corpus statistics from the stored files and operations and print
+// the document and term counts per scope.
+// Usage: tsx server/scripts/rebuild-corpus.ts [scope]
+// Without a scope, the global scope and every scope counted so far are rebuilt;
+// a scope is "global", "user:<id>" or "collection:<name>". Requires DATABASE_URL.
+
+import { rebuildCorpus } from '../corpus';
+
+async function main(): Promise<void> {
+  const { storage } = await import('../storage');
+  const scopes = await rebuildCorpus(storage, process.argv[2]);
+
+  for (const { scope, documentCount, terms } of scopes) {
+    console.log(`${scope.padEnd(30)}${String(documentCount).padStart(9)} documents${String(terms).padStart(9)} terms`);
+  }
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error('Corpus rebuild failed:', (error as Error).message);
+  process.exit(1);
+});
@@ -1,4 +1,4 @@
-import { eq, desc, and, sql } from "drizzle-orm";
+import { eq, desc, asc, gt, and, or, isNull, inArray, sql } from "drizzle-orm";
 import { db } from "./db";
 import session from "express-session";
 import createMemoryStore from "memorystore";
@@ -9,10 +9,15 @@ import {
   ProcessedFile, InsertProcessedFile, 
   TextOperation, InsertTextOperation,
   userSessions, UserSession, InsertUserSession,
-  users, processedFiles, textOperations, userPreferences
+  Glossary, InsertGlossary, GlossaryEntry, InsertGlossaryEntry, GlossaryWithEntries,
+  TranslationMemoryEntry, InsertTranslationMemoryEntry,
+  SummaryBenchmark, InsertSummaryBenchmark, CorpusScopeSummary,
+  users, processedFiles, textOperations, userPreferences, glossaries, glossaryEntries, translationMemory,
+  summaryBenchmarks, corpusScopes, corpusTerms
 } from "@shared/schema";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
+import type { TranslationMemoryQuery } from "./translation";
 
 const scryptAsync = promisify(scrypt);
 
@@ -44,6 +49,7 @@ export interface IStorage {
   createProcessedFile(file: InsertProcessedFile): Promise<ProcessedFile>;
   getProcessedFile(id: number): Promise<ProcessedFile | undefined>;
   getProcessedFilesByUserId(userId: number): Promise<ProcessedFile[]>;
+  getRecentProcessedFiles(userId: number | null, limit: number): Promise<ProcessedFile[]>;
   
   // Text operation history
   createTextOperation(operation: InsertTextOperation): Promise<TextOperation>;
@@ -51,9 +57,55 @@ export interface IStorage {
   getRecentTextOperations(userId: number | null, limit: number): Promise<TextOperation[]>;
   getTextOperationsByType(userId: number | null, type: string): Promise<TextOperation[]>;
   getTextOperationsByUser(userId: number, limit: number): Promise<TextOperation[]>;
+  getTextOperationsByBatch(batchId: string): Promise<TextOperation[]>;
   starTextOperation(id: number, isStarred: boolean): Promise<void>;
+  
+  // Glossaries
+  getGlossariesByUser(userId: number): Promise<GlossaryWithEntries[]>;
+  getGlossary(id: number): Promise<GlossaryWithEntries | undefined>;
+  createGlossary(glossary: InsertGlossary): Promise<Glossary>;
+  updateGlossary(id: number, data: Partial<InsertGlossary>): Promise<Glossary | undefined>;
+  deleteGlossary(id: number): Promise<void>;
+  createGlossaryEntry(entry: InsertGlossaryEntry): Promise<GlossaryEntry>;
+  updateGlossaryEntry(id: number, data: Partial<InsertGlossaryEntry>): Promise<GlossaryEntry | undefined>;
+  deleteGlossaryEntry(id: number): Promise<void>;
+  // Entries that apply to a translation into targetLanguage within an optional domain
+  getGlossaryEntriesForTranslation(userId: number, targetLanguage: string, domain?: string): Promise<GlossaryEntry[]>;
+  
+  // Translation memory
+  // The segment's exact entry and up to query.limit fuzzy candidates within the length range
+  getTranslationMemory(query: TranslationMemoryQuery): Promise<TranslationMemoryEntry[]>;
+  // Insert new segment pairs; a segment already in memory takes the newer translation
+  saveTranslationMemory(entries: InsertTranslationMemoryEntry[]): Promise<void>;
+  recordTranslationMemoryUse(ids: number[]): Promise<void>;
+  
+  // Summary benchmark runs
+  createSummaryBenchmark(run: InsertSummaryBenchmark): Promise<SummaryBenchmark>;
+  getSummaryBenchmark(id: number): Promise<SummaryBenchmark | undefined>;
+  // Newest first, optionally only runs on one dataset and summary length
+  getSummaryBenchmarks(limit: number, dataset?: string, length?: string): Promise<SummaryBenchmark[]>;
+  
+  // Corpus statistics
+  // Count one more document, containing the given distinct terms, in each scope
+  addCorpusDocument(scopes: string[], terms: string[]): Promise<void>;
+  // A scope's document count and the document frequencies of the given terms in it
+  getCorpusFrequencies(scope: string, terms: string[]): Promise<{ documentCount: number; frequencies: Map<string, number> }>;
+  // Replace a scope's statistics with ones computed from scratch
+  replaceCorpusScope(scope: string, documentCount: number, frequencies: Map<string, number>): Promise<void>;
+  getCorpusScopes(): Promise<CorpusScopeSummary[]>;
+  // Collections whose files all belong to the user
+  getOwnedCollections(userId: number): Promise<string[]>;
+  // A page of the extracted text of files, in id order after the given id,
+  // optionally only a user's or a collection's
+  getCorpusFileTexts(filter: { userId?: number; collection?: string }, afterId: number, limit: number): Promise<Array<{ id: number; text: string | null }>>;
+  // A page of the input text of operations of the given types made without a
+  // file, in id order after the given id, optionally only a user's
+  getCorpusOperationTexts(userId: number | undefined, operationTypes: string[], afterId: number, limit: number): Promise<Array<{ id: number; text: string }>>;
 }
 
+// Rows per insert when writing corpus terms, well below the parameter limit
+const CORPUS_INSERT_BATCH = 1000;
+
 // Database storage implementation
 export class DatabaseStorage implements IStorage {
   sessionStore: session.Store;
@@ -189,6 +241,22 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(processedFiles.createdAt));
   }
 
+  async getRecentProcessedFiles(userId: number | null, limit: number): Promise<ProcessedFile[]> {
+    if (userId === null) {
+      return db
+        .select()
+        .from(processedFiles)
+        .orderBy(desc(processedFiles.createdAt))
+        .limit(limit);
+    }
+    return db
+      .select()
+      .from(processedFiles)
+      .where(eq(processedFiles.userId, userId))
+      .orderBy(desc(processedFiles.createdAt))
+      .limit(limit);
+  }
+
   // Text operations
   async createTextOperation(operation: InsertTextOperation): Promise<TextOperation> {
     const [textOperation] = await db
@@ -253,12 +321,298 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  async getTextOperationsByBatch(batchId: string): Promise<TextOperation[]> {
+    return db
+      .select()
+      .from(textOperations)
+      .where(eq(textOperations.batchId, batchId))
+      .orderBy(textOperations.id);
+  }
+
   async starTextOperation(id: number, isStarred: boolean): Promise<void> {
     await db
       .update(textOperations)
       .set({ isStarred })
       .where(eq(textOperations.id, id));
   }
+
+  // Glossaries
+  async getGlossariesByUser(userId: number): Promise<GlossaryWithEntries[]> {
+    const userGlossaries = await db
+      .select()
+      .from(glossaries)
+      .where(eq(glossaries.userId, userId))
+      .orderBy(desc(glossaries.createdAt));
+    
+    if (userGlossaries.length === 0) {
+      return [];
+    }
+    
+    const entries = await db
+      .select()
+      .from(glossaryEntries)
+      .where(inArray(glossaryEntries.glossaryId, userGlossaries.map(g => g.id)));
+    
+    return userGlossaries.map(glossary => ({
+      ...glossary,
+      entries: entries.filter(entry => entry.glossaryId === glossary.id)
+    }));
+  }
+
+  async getGlossary(id: number): Promise<GlossaryWithEntries | undefined> {
+    const [glossary] = await db.select().from(glossaries).where(eq(glossaries.id, id));
+    if (!glossary) return undefined;
+    
+    const entries = await db
+      .select()
+      .from(glossaryEntries)
+      .where(eq(glossaryEntries.glossaryId, id));
+    return { ...glossary, entries };
+  }
+
+  async createGlossary(glossary: InsertGlossary): Promise<Glossary> {
+    const [created] = await db.insert(glossaries).values(glossary).returning();
+    return created;
+  }
+
+  async updateGlossary(id: number, data: Partial<InsertGlossary>): Promise<Glossary | undefined> {
+    const [updated] = await db
+      .update(glossaries)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(glossaries.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteGlossary(id: number): Promise<void> {
+    await db.delete(glossaries).where(eq(glossaries.id, id));
+  }
+
+  async createGlossaryEntry(entry: InsertGlossaryEntry): Promise<GlossaryEntry> {
+    const [created] = await db.insert(glossaryEntries).values(entry).returning();
+    return created;
+  }
+
+  async updateGlossaryEntry(id: number, data: Partial<InsertGlossaryEntry>): Promise<GlossaryEntry | undefined> {
+    const [updated] = await db
+      .update(glossaryEntries)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(glossaryEntries.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteGlossaryEntry(id: number): Promise<void> {
+    await db.delete(glossaryEntries).where(eq(glossaryEntries.id, id));
+  }
+
+  async getGlossaryEntriesForTranslation(userId: number, targetLanguage: string, domain?: string): Promise<GlossaryEntry[]> {
+    const rows = await db
+      .select({ entry: glossaryEntries })
+      .from(glossaryEntries)
+      .innerJoin(glossaries, eq(glossaryEntries.glossaryId, glossaries.id))
+      .where(
+        and(
+          eq(glossaries.userId, userId),
+          domain ? or(isNull(glossaries.domain), eq(glossaries.domain, domain)) : isNull(glossaries.domain),
+          or(isNull(glossaryEntries.targetLanguage), eq(glossaryEntries.targetLanguage, targetLanguage))
+        )
+      );
+    return rows.map(row => row.entry);
+  }
+
+  // Translation memory methods
+  async getTranslationMemory(query: TranslationMemoryQuery): Promise<TranslationMemoryEntry[]> {
+    const inScope = and(
+      eq(translationMemory.sourceLanguage, query.sourceLanguage),
+      eq(translationMemory.targetLanguage, query.targetLanguage),
+      eq(translationMemory.scope, query.scope)
+    );
+    const exact = await db
+      .select()
+      .from(translationMemory)
+      .where(and(inScope, eq(translationMemory.sourceSegment, query.segment)));
+    if (exact.length > 0) return exact;
+    
+    return db
+      .select()
+      .from(translationMemory)
+      .where(
+        and(
+          inScope,
+          sql`char_length(${translationMemory.sourceSegment}) between ${query.minLength} and ${query.maxLength}`
+        )
+      )
+      .orderBy(desc(translationMemory.useCount), desc(translationMemory.updatedAt))
+      .limit(query.limit);
+  }
+
+  async saveTranslationMemory(entries: InsertTranslationMemoryEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    
+    await db
+      .insert(translationMemory)
+      .values(entries)
+      .onConflictDoUpdate({
+        target: [translationMemory.sourceLanguage, translationMemory.targetLanguage, translationMemory.scope, translationMemory.sourceSegment],
+        set: {
+          targetSegment: sql`excluded.target_segment`,
+          provider: sql`excluded.provider`,
+          updatedAt: new Date()
+        }
+      });
+  }
+
+  async recordTranslationMemoryUse(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    
+    await db
+      .update(translationMemory)
+      .set({ useCount: sql`${translationMemory.useCount} + 1` })
+      .where(inArray(translationMemory.id, ids));
+  }
+
+  // Summary benchmark methods
+  async createSummaryBenchmark(run: InsertSummaryBenchmark): Promise<SummaryBenchmark> {
+    const [created] = await db.insert(summaryBenchmarks).values(run).returning();
+    return created;
+  }
+
+  async getSummaryBenchmark(id: number): Promise<SummaryBenchmark | undefined> {
+    const [run] = await db.select().from(summaryBenchmarks).where(eq(summaryBenchmarks.id, id));
+    return run;
+  }
+
+  async getSummaryBenchmarks(limit: number, dataset?: string, length?: string): Promise<SummaryBenchmark[]> {
+    return db
+      .select()
+      .from(summaryBenchmarks)
+      .where(
+        and(
+          dataset ? eq(summaryBenchmarks.dataset, dataset) : undefined,
+          length ? eq(summaryBenchmarks.length, length) : undefined
+        )
+      )
+      .orderBy(desc(summaryBenchmarks.createdAt), desc(summaryBenchmarks.id))
+      .limit(limit);
+  }
+
+  // Corpus statistics methods
+  async addCorpusDocument(scopes: string[], terms: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (const scope of scopes) {
+        await tx
+          .insert(corpusScopes)
+          .values({ scope, documentCount: 1 })
+          .onConflictDoUpdate({
+            target: corpusScopes.scope,
+            set: { documentCount: sql`${corpusScopes.documentCount} + 1`, updatedAt: new Date() }
+          });
+        
+        for (let start = 0; start < terms.length; start += CORPUS_INSERT_BATCH) {
+          await tx
+            .insert(corpusTerms)
+            .values(terms.slice(start, start + CORPUS_INSERT_BATCH).map(term => ({ scope, term, documentFrequency: 1 })))
+            .onConflictDoUpdate({
+              target: [corpusTerms.scope, corpusTerms.term],
+              set: { documentFrequency: sql`${corpusTerms.documentFrequency} + 1` }
+            });
+        }
+      }
+    });
+  }
+
+  async getCorpusFrequencies(scope: string, terms: string[]): Promise<{ documentCount: number; frequencies: Map<string, number> }> {
+    const [scopeRow] = await db.select().from(corpusScopes).where(eq(corpusScopes.scope, scope));
+    const frequencies = new Map<string, number>();
+    if (!scopeRow || terms.length === 0) {
+      return { documentCount: scopeRow?.documentCount || 0, frequencies };
+    }
+    
+    const rows = await db
+      .select({ term: corpusTerms.term, documentFrequency: corpusTerms.documentFrequency })
+      .from(corpusTerms)
+      .where(and(eq(corpusTerms.scope, scope), inArray(corpusTerms.term, terms)));
+    rows.forEach(row => frequencies.set(row.term, row.documentFrequency));
+    return { documentCount: scopeRow.documentCount, frequencies };
+  }
+
+  async replaceCorpusScope(scope: string, documentCount: number, frequencies: Map<string, number>): Promise<void> {
+    const rows = Array.from(frequencies, ([term, documentFrequency]) => ({ scope, term, documentFrequency }));
+    
+    await db.transaction(async (tx) => {
+      await tx.delete(corpusTerms).where(eq(corpusTerms.scope, scope));
+      for (let start = 0; start < rows.length; start += CORPUS_INSERT_BATCH) {
+        await tx.insert(corpusTerms).values(rows.slice(start, start + CORPUS_INSERT_BATCH));
+      }
+      
+      const now = new Date();
+      await tx
+        .insert(corpusScopes)
+        .values({ scope, documentCount, rebuiltAt: now, updatedAt: now })
+        .onConflictDoUpdate({
+          target: corpusScopes.scope,
+          set: { documentCount, rebuiltAt: now, updatedAt: now }
+        });
+    });
+  }
+
+  async getCorpusScopes(): Promise<CorpusScopeSummary[]> {
+    const rows = await db
+      .select({
+        scope: corpusScopes.scope,
+        documentCount: corpusScopes.documentCount,
+        terms: sql<number>`(select count(*) from ${corpusTerms} where ${corpusTerms.scope} = ${corpusScopes.scope})`.mapWith(Number),
+        rebuiltAt: corpusScopes.rebuiltAt,
+        updatedAt: corpusScopes.updatedAt
+      })
+      .from(corpusScopes)
+      .orderBy(corpusScopes.scope);
+    return rows;
+  }
+
+  async getOwnedCollections(userId: number): Promise<string[]> {
+    const rows = await db
+      .select({ collection: processedFiles.collection })
+      .from(processedFiles)
+      .where(sql`${processedFiles.collection} is not null`)
+      .groupBy(processedFiles.collection)
+      // Files without a user are nobody's, so they make a collection shared
+      .having(sql`bool_and(coalesce(${processedFiles.userId} = ${userId}, false))`);
+    return rows.flatMap(row => row.collection ? [row.collection] : []);
+  }
+
+  async getCorpusFileTexts(filter: { userId?: number; collection?: string }, afterId: number, limit: number): Promise<Array<{ id: number; text: string | null }>> {
+    return db
+      .select({ id: processedFiles.id, text: processedFiles.extractedText })
+      .from(processedFiles)
+      .where(
+        and(
+          gt(processedFiles.id, afterId),
+          filter.userId !== undefined ? eq(processedFiles.userId, filter.userId) : undefined,
+          filter.collection !== undefined ? eq(processedFiles.collection, filter.collection) : undefined
+        )
+      )
+      .orderBy(asc(processedFiles.id))
+      .limit(limit);
+  }
+
+  async getCorpusOperationTexts(userId: number | undefined, operationTypes: string[], afterId: number, limit: number): Promise<Array<{ id: number; text: string }>> {
+    if (operationTypes.length === 0) return [];
+    return db
+      .select({ id: textOperations.id, text: textOperations.inputText })
+      .from(textOperations)
+      .where(
+        and(
+          gt(textOperations.id, afterId),
+          inArray(textOperations.operationType, operationTypes),
+          isNull(textOperations.fileId),
+          userId !== undefined ? eq(textOperations.userId, userId) : undefined
+        )
+      )
+      .orderBy(asc(textOperations.id))
+      .limit(limit);
+  }
 }
 
 // For backward compatibility, keep MemStorage class
@@ -267,9 +621,18 @@ export class MemStorage implements IStorage {
   private processedFiles: Map<number, ProcessedFile>;
   private textOperations: Map<number, TextOperation>;
   private sessions: Map<string, UserSession>;
+  private glossaries: Map<number, Glossary>;
+  private glossaryEntries: Map<number, GlossaryEntry>;
+  private translationMemory: Map<number, TranslationMemoryEntry>;
+  private summaryBenchmarks: Map<number, SummaryBenchmark>;
+  private corpus: Map<string, { documentCount: number; frequencies: Map<string, number>; rebuiltAt: Date | null; updatedAt: Date }>;
   private currentUserId: number;
   private currentFileId: number;
   private currentOperationId: number;
+  private currentGlossaryId: number;
+  private currentGlossaryEntryId: number;
+  private currentTranslationMemoryId: number;
+  private currentSummaryBenchmarkId: number;
   public sessionStore: session.Store;
 
   constructor() {
@@ -277,9 +640,18 @@ export class MemStorage implements IStorage {
     this.processedFiles = new Map();
     this.textOperations = new Map();
     this.sessions = new Map();
+    this.glossaries = new Map();
+    this.glossaryEntries = new Map();
+    this.translationMemory = new Map();
+    this.summaryBenchmarks = new Map();
+    this.corpus = new Map();
     this.currentUserId = 1;
     this.currentFileId = 1;
     this.currentOperationId = 1;
+    this.currentGlossaryId = 1;
+    this.currentGlossaryEntryId = 1;
+    this.currentTranslationMemoryId = 1;
+    this.currentSummaryBenchmarkId = 1;
     
     // Use memory store for sessions
     this.sessionStore = new MemoryStore({
@@ -433,6 +805,13 @@ export class MemStorage implements IStorage {
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
+  async getRecentProcessedFiles(userId: number | null, limit: number): Promise<ProcessedFile[]> {
+    return Array.from(this.processedFiles.values())
+      .filter(file => userId === null || file.userId === userId)
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0))
+      .slice(0, limit);
+  }
+
   // Text operations
   async createTextOperation(operation: InsertTextOperation): Promise<TextOperation> {
     const id = this.currentOperationId++;
@@ -471,6 +850,12 @@ export class MemStorage implements IStorage {
     return this.getRecentTextOperations(userId, limit);
   }
 
+  async getTextOperationsByBatch(batchId: string): Promise<TextOperation[]> {
+    return Array.from(this.textOperations.values())
+      .filter(operation => operation.batchId === batchId)
+      .sort((a, b) => a.id - b.id);
+  }
+
   async starTextOperation(id: number, isStarred: boolean): Promise<void> {
     const operation = this.textOperations.get(id);
     if (operation) {
@@ -479,6 +864,240 @@ export class MemStorage implements IStorage {
       this.textOperations.set(id, operation);
     }
   }
+
+  // Glossaries
+  private entriesOf(glossaryId: number): GlossaryEntry[] {
+    return Array.from(this.glossaryEntries.values())
+      .filter(entry => entry.glossaryId === glossaryId);
+  }
+
+  async getGlossariesByUser(userId: number): Promise<GlossaryWithEntries[]> {
+    return Array.from(this.glossaries.values())
+      .filter(glossary => glossary.userId === userId)
+      .map(glossary => ({ ...glossary, entries: this.entriesOf(glossary.id) }));
+  }
+
+  async getGlossary(id: number): Promise<GlossaryWithEntries | undefined> {
+    const glossary = this.glossaries.get(id);
+    return glossary ? { ...glossary, entries: this.entriesOf(id) } : undefined;
+  }
+
+  async createGlossary(glossary: InsertGlossary): Promise<Glossary> {
+    const id = this.currentGlossaryId++;
+    const timestamp = new Date();
+    const created: Glossary = {
+      domain: null,
+      ...glossary,
+      id,
+      createdAt: timestamp,
+      updatedAt: timestamp
+    } as Glossary;
+    this.glossaries.set(id, created);
+    return created;
+  }
+
+  async updateGlossary(id: number, data: Partial<InsertGlossary>): Promise<Glossary | undefined> {
+    const glossary = this.glossaries.get(id);
+    if (!glossary) return undefined;
+    
+    const updated = { ...glossary, ...data, updatedAt: new Date() } as Glossary;
+    this.glossaries.set(id, updated);
+    return updated;
+  }
+
+  async deleteGlossary(id: number): Promise<void> {
+    this.glossaries.delete(id);
+    this.entriesOf(id).forEach(entry => this.glossaryEntries.delete(entry.id));
+  }
+
+  async createGlossaryEntry(entry: InsertGlossaryEntry): Promise<GlossaryEntry> {
+    const id = this.currentGlossaryEntryId++;
+    const timestamp = new Date();
+    const created: GlossaryEntry = {
+      targetLanguage: null,
+      translation: null,
+      keepAsIs: false,
+      caseSensitive: false,
+      ...entry,
+      id,
+      createdAt: timestamp,
+      updatedAt: timestamp
+    } as GlossaryEntry;
+    this.glossaryEntries.set(id, created);
+    return created;
+  }
+
+  async updateGlossaryEntry(id: number, data: Partial<InsertGlossaryEntry>): Promise<GlossaryEntry | undefined> {
+    const entry = this.glossaryEntries.get(id);
+    if (!entry) return undefined;
+    
+    const updated = { ...entry, ...data, updatedAt: new Date() } as GlossaryEntry;
+    this.glossaryEntries.set(id, updated);
+    return updated;
+  }
+
+  async deleteGlossaryEntry(id: number): Promise<void> {
+    this.glossaryEntries.delete(id);
+  }
+
+  async getGlossaryEntriesForTranslation(userId: number, targetLanguage: string, domain?: string): Promise<GlossaryEntry[]> {
+    const glossaryIds = new Set(
+      Array.from(this.glossaries.values())
+        .filter(glossary => glossary.userId === userId)
+        .filter(glossary => glossary.domain === null || (domain !== undefined && glossary.domain === domain))
+        .map(glossary => glossary.id)
+    );
+    
+    return Array.from(this.glossaryEntries.values())
+      .filter(entry => glossaryIds.has(entry.glossaryId))
+      .filter(entry => entry.targetLanguage === null || entry.targetLanguage === targetLanguage);
+  }
+
+  // Translation memory methods
+  async getTranslationMemory(query: TranslationMemoryQuery): Promise<TranslationMemoryEntry[]> {
+    const inScope = Array.from(this.translationMemory.values()).filter(entry =>
+      entry.sourceLanguage === query.sourceLanguage &&
+      entry.targetLanguage === query.targetLanguage &&
+      entry.scope === query.scope
+    );
+    const exact = inScope.filter(entry => entry.sourceSegment === query.segment);
+    if (exact.length > 0) return exact;
+    
+    return inScope
+      .filter(entry => entry.sourceSegment.length >= query.minLength && entry.sourceSegment.length <= query.maxLength)
+      .sort((a, b) => b.useCount - a.useCount)
+      .slice(0, query.limit);
+  }
+
+  async saveTranslationMemory(entries: InsertTranslationMemoryEntry[]): Promise<void> {
+    const existing = Array.from(this.translationMemory.values());
+    const timestamp = new Date();
+    
+    for (const entry of entries) {
+      const current = existing.find(candidate =>
+        candidate.sourceLanguage === entry.sourceLanguage &&
+        candidate.targetLanguage === entry.targetLanguage &&
+        candidate.scope === (entry.scope ?? '') &&
+        candidate.sourceSegment === entry.sourceSegment
+      );
+      
+      if (current) {
+        Object.assign(current, { targetSegment: entry.targetSegment, provider: entry.provider ?? null, updatedAt: timestamp });
+      } else {
+        const id = this.currentTranslationMemoryId++;
+        const created: TranslationMemoryEntry = {
+          provider: null,
+          scope: '',
+          ...entry,
+          id,
+          useCount: 1,
+          createdAt: timestamp,
+          updatedAt: timestamp
+        } as TranslationMemoryEntry;
+        this.translationMemory.set(id, created);
+        existing.push(created);
+      }
+    }
+  }
+
+  async recordTranslationMemoryUse(ids: number[]): Promise<void> {
+    ids.forEach(id => {
+      const entry = this.translationMemory.get(id);
+      if (entry) {
+        entry.useCount++;
+      }
+    });
+  }
+
+  // Summary benchmark methods
+  async createSummaryBenchmark(run: InsertSummaryBenchmark): Promise<SummaryBenchmark> {
+    const id = this.currentSummaryBenchmarkId++;
+    const created: SummaryBenchmark = { ...run, id, createdAt: new Date() } as SummaryBenchmark;
+    this.summaryBenchmarks.set(id, created);
+    return created;
+  }
+
+  async getSummaryBenchmark(id: number): Promise<SummaryBenchmark | undefined> {
+    return this.summaryBenchmarks.get(id);
+  }
+
+  async getSummaryBenchmarks(limit: number, dataset?: string, length?: string): Promise<SummaryBenchmark[]> {
+    return Array.from(this.summaryBenchmarks.values())
+      .filter(run => (!dataset || run.dataset === dataset) && (!length || run.length === length))
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
+  // Corpus statistics methods
+  async addCorpusDocument(scopes: string[], terms: string[]): Promise<void> {
+    for (const scope of scopes) {
+      let statistics = this.corpus.get(scope);
+      if (!statistics) {
+        statistics = { documentCount: 0, frequencies: new Map(), rebuiltAt: null, updatedAt: new Date() };
+        this.corpus.set(scope, statistics);
+      }
+      statistics.documentCount++;
+      statistics.updatedAt = new Date();
+      for (const term of terms) {
+        statistics.frequencies.set(term, (statistics.frequencies.get(term) || 0) + 1);
+      }
+    }
+  }
+
+  async getCorpusFrequencies(scope: string, terms: string[]): Promise<{ documentCount: number; frequencies: Map<string, number> }> {
+    const statistics = this.corpus.get(scope);
+    const frequencies = new Map<string, number>();
+    if (!statistics) return { documentCount: 0, frequencies };
+    
+    for (const term of terms) {
+      const frequency = statistics.frequencies.get(term);
+      if (frequency) frequencies.set(term, frequency);
+    }
+    return { documentCount: statistics.documentCount, frequencies };
+  }
+
+  async replaceCorpusScope(scope: string, documentCount: number, frequencies: Map<string, number>): Promise<void> {
+    const now = new Date();
+    this.corpus.set(scope, { documentCount, frequencies: new Map(frequencies), rebuiltAt: now, updatedAt: now });
+  }
+
+  async getCorpusScopes(): Promise<CorpusScopeSummary[]> {
+    return Array.from(this.corpus, ([scope, statistics]) => ({
+      scope,
+      documentCount: statistics.documentCount,
+      terms: statistics.frequencies.size,
+      rebuiltAt: statistics.rebuiltAt,
+      updatedAt: statistics.updatedAt
+    })).sort((a, b) => a.scope.localeCompare(b.scope));
+  }
+
+  async getOwnedCollections(userId: number): Promise<string[]> {
+    const owners = new Map<string, boolean>();
+    for (const file of Array.from(this.processedFiles.values())) {
+      if (!file.collection) continue;
+      owners.set(file.collection, (owners.get(file.collection) ?? true) && file.userId === userId);
+    }
+    return Array.from(owners).flatMap(([collection, owned]) => owned ? [collection] : []);
+  }
+
+  async getCorpusFileTexts(filter: { userId?: number; collection?: string }, afterId: number, limit: number): Promise<Array<{ id: number; text: string | null }>> {
+    return Array.from(this.processedFiles.values())
+      .filter(file => file.id > afterId)
+      .filter(file => filter.userId === undefined || file.userId === filter.userId)
+      .filter(file => filter.collection === undefined || file.collection === filter.collection)
+      .sort((a, b) => a.id - b.id)
+      .slice(0, limit)
+      .map(file => ({ id: file.id, text: file.extractedText }));
+  }
+
+  async getCorpusOperationTexts(userId: number | undefined, operationTypes: string[], afterId: number, limit: number): Promise<Array<{ id: number; text: string }>> {
+    return Array.from(this.textOperations.values())
+      .filter(operation => operation.id > afterId && operationTypes.includes(operation.operationType) && !operation.fileId)
+      .filter(operation => userId === undefined || operation.userId === userId)
+      .sort((a, b) => a.id - b.id)
+      .slice(0, limit)
+      .map(operation => ({ id: operation.id, text: operation.inputText }));
+  }
 }
 
 // Use the database storage
@@ -0,0 +1,137 @@
+import OpenAI from 'openai';
+import { SummarizationRequest, SummaryProgress } from '@shared/schema';
+import { chunkDocument, chunkSentences } from './chunking';
+
+// Abstractive summarization through any OpenAI-compatible chat-completions
+// endpoint (OPENAI_BASE_URL, e.g. `npm run mock:llm` or a self-hosted model).
+// Inputs larger than the context window are summarized chunk by chunk into
+// notes, and the notes are summarized in the requested style.
+
+export type AbstractiveSummary = {
+  summary: string;
+  model: string;
+  // Present when the input did not fit into one request
+  hierarchy?: { chunks: number; levels: number };
+};
+
+// Rough characters per token for English prose, with room left for the prompt and the answer
+const CHARACTERS_PER_TOKEN = 3;
+
+const LENGTH_INSTRUCTIONS = {
+  short: 'Keep it to two or three sentences.',
+  medium: 'Keep it to one short paragraph of about five sentences.',
+  long: 'Cover every main point in one or two paragraphs.'
+};
+
+const STYLE_TEMPLATES: Record<NonNullable<SummarizationRequest['style']>, string> = {
+  informative: 'Write an informative summary of the user\'s text in neutral, complete sentences. Preserve names, figures and dates exactly.',
+  bullet_points: 'Summarize the user\'s text as a list of bullet points, one key point per line, each starting with "• ". Preserve names, figures and dates exactly.',
+  simplified: 'Summarize the user\'s text in plain language for a general reader: short sentences, everyday words, no jargon. Keep names, figures and dates correct.'
+};
+
+const NOTES_TEMPLATE = 'You are summarizing one part of a longer document. Write concise notes on the key facts, claims and figures in this part, as plain sentences. Do not add anything that is not in the text.';
+
+function createClient(): OpenAI {
+  return new OpenAI({
+    apiKey: process.env.OPENAI_API_KEY || 'not-needed',
+    baseURL: process.env.OPENAI_BASE_URL || undefined,
+    timeout: 120 * 1000,
+    maxRetries: 1
+  });
+}
+
+let client: OpenAI | null = null;
+
+export function isAbstractiveAvailable(): boolean {
+  return Boolean(process.env.OPENAI_API_KEY || process.env.OPENAI_BASE_URL);
+}
+
+function summarizationModel(): string {
+  return process.env.OPENAI_SUMMARIZATION_MODEL || process.env.OPENAI_MODEL || 'gpt-4o-mini';
+}
+
+// Characters of source text sent in one request
+function chunkCharacters(): number {
+  const tokens = parseInt(process.env.SUMMARIZATION_CONTEXT_TOKENS || '', 10) || 8000;
+  return tokens * CHARACTERS_PER_TOKEN;
+}
+
+// System prompt for the final summary: style template, length and the optional focus and limits
+function buildSummaryPrompt(request: SummarizationRequest): string {
+  const parts = [STYLE_TEMPLATES[request.style || 'informative']];
+
+  if (request.maxWords || request.maxSentences || request.maxCharacters) {
+    const limits: string[] = [];
+    if (request.maxWords) limits.push(`${request.maxWords} words`);
+    if (request.maxSentences) limits.push(`${request.maxSentences} sentences`);
+    if (request.maxCharacters) limits.push(`${request.maxCharacters} characters`);
+    parts.push(`The summary must stay within ${limits.join(', ')}.`);
+  } else {
+    parts.push(LENGTH_INSTRUCTIONS[request.length]);
+  }
+
+  if (request.query?.trim()) {
+    parts.push(`Focus on what the text says about: ${request.query.trim()}`);
+  }
+
+  parts.push('Reply with the summary only, without any introduction or commentary.');
+  return parts.join(' ');
+}
+
+async function complete(system: string, text: string): Promise<string> {
+  if (!client) {
+    client = createClient();
+  }
+
+  const completion = await client.chat.completions.create({
+    model: summarizationModel(),
+    temperature: 0.3,
+    messages: [
+      { role: 'system', content: system },
+      { role: 'user', content: text }
+    ]
+  });
+
+  const content = completion.choices[0]?.message?.content?.trim();
+  if (!content) {
+    throw new Error('The summarization model returned an empty response');
+  }
+  return content;
+}
+
+export async function abstractiveSummarize(
+  request: SummarizationRequest,
+  onProgress?: (progress: SummaryProgress) => void
+): Promise<AbstractiveSummary> {
+  const maxCharacters = chunkCharacters();
+  const chunks = chunkDocument(request.text, maxCharacters);
+  const notesPrompt = request.query?.trim()
+    ? `${NOTES_TEMPLATE} Pay particular attention to anything about: ${request.query.trim()}`
+    : NOTES_TEMPLATE;
+
+  // Map: turn every chunk into notes until they fit into one request
+  let units = chunks.map(chunk => chunk.text);
+  let level = 0;
+  while (units.length > 1) {
+    level++;
+    const notes: string[] = [];
+    for (let index = 0; index < units.length; index++) {
+      notes.push(await complete(notesPrompt, units[index]));
+      onProgress?.({ stage: 'map', level, completed: index + 1, total: units.length });
+    }
+    const regrouped = chunkSentences(notes, maxCharacters);
+    // Notes that do not get shorter would loop forever; send what there is
+    units = regrouped.length < units.length ? regrouped : [notes.join('\n\n')];
+  }
+
+  // Reduce: the summary proper, in the requested style
+  onProgress?.({ stage: 'reduce', level: level + 1, completed: 0, total: 1 });
+  const summary = await complete(buildSummaryPrompt(request), units[0] || request.text);
+  onProgress?.({ stage: 'reduce', level: level + 1, completed: 1, total: 1 });
+
+  return {
+    summary,
+    model: summarizationModel(),
+    hierarchy: level > 0 ? { chunks: chunks.length, levels: level + 1 } : undefined
+  };
+}
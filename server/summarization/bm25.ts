@@ -0,0 +1,45 @@
+// Okapi BM25 relevance of a query against short documents such as sentences
+
+export type BM25Options = {
+  // Term frequency saturation
+  k1?: number;
+  // How strongly long documents are penalised
+  b?: number;
+};
+
+// Score every document (a list of tokens) against weighted query terms.
+// Term weights let expansion terms count for less than the user's own words.
+export function bm25Scores(
+  query: Record<string, number>,
+  documents: string[][],
+  options: BM25Options = {}
+): number[] {
+  const { k1 = 1.2, b = 0.75 } = options;
+  const count = documents.length;
+  if (count === 0) return [];
+
+  const averageLength = documents.reduce((sum, tokens) => sum + tokens.length, 0) / count || 1;
+  const documentFrequency: Record<string, number> = {};
+  const termCounts = documents.map(tokens => {
+    const counts: Record<string, number> = {};
+    for (const token of tokens) {
+      if (query[token] === undefined) continue;
+      if (!counts[token]) documentFrequency[token] = (documentFrequency[token] || 0) + 1;
+      counts[token] = (counts[token] || 0) + 1;
+    }
+    return counts;
+  });
+
+  return termCounts.map((counts, index) => {
+    const lengthNorm = 1 - b + b * (documents[index].length / averageLength);
+    let score = 0;
+
+    for (const [term, frequency] of Object.entries(counts)) {
+      // Lucene-style IDF, which stays positive for terms in most documents
+      const idf = Math.log((count - documentFrequency[term] + 0.5) / (documentFrequency[term] + 0.5) + 1);
+      score += query[term] * idf * (frequency * (k1 + 1)) / (frequency + k1 * lengthNorm);
+    }
+
+    return score;
+  });
+}
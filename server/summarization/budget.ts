@@ -0,0 +1,129 @@
+// Summary length budgets. Sentences are chosen as a 0/1 knapsack: the set with
+// the highest total score whose words and characters fit, optionally with at
+// most a given number of sentences.
+
+export type SummaryBudget = {
+  maxWords?: number;
+  maxSentences?: number;
+  maxCharacters?: number;
+};
+
+export type BudgetItem = {
+  value: number;
+  words: number;
+  characters: number;
+};
+
+// Characters the summary format adds per sentence (e.g. "• " and the separator) and
+// saves once overall, because n sentences have n - 1 separators
+export type BudgetLayout = {
+  perSentence: number;
+  saved: number;
+};
+
+const WORD_CHARACTER = new RegExp(String.raw`[\p{L}\p{N}]`, 'u');
+
+// Upper bound on DP cells; the cost resolution is lowered to stay within it
+const MAX_TABLE_CELLS = 20_000_000;
+const MAX_COST_UNITS = 1000;
+
+export function hasBudget(budget: SummaryBudget): boolean {
+  return budget.maxWords !== undefined || budget.maxSentences !== undefined || budget.maxCharacters !== undefined;
+}
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(word => WORD_CHARACTER.test(word)).length;
+}
+
+// Indices of the best set of items within the budget, in input order. Word and
+// character limits are combined into one cost (the larger share of either limit),
+// rounded up so the chosen set never exceeds the real limits.
+export function selectWithinBudget(items: BudgetItem[], budget: SummaryBudget, layout: BudgetLayout): number[] {
+  const { maxWords, maxSentences, maxCharacters } = budget;
+  const n = items.length;
+  const limited = maxWords !== undefined || maxCharacters !== undefined;
+
+  // Sentence count only matters when it is below the number of candidates
+  const maxCount = maxSentences !== undefined && maxSentences < n ? maxSentences : undefined;
+  const counts = maxCount === undefined ? 1 : maxCount + 1;
+  const units = !limited ? 0 : Math.max(
+    50,
+    Math.min(MAX_COST_UNITS, Math.floor(MAX_TABLE_CELLS / Math.max(1, n * counts)) - 1)
+  );
+
+  const costs = items.map(item => {
+    if (!limited) return 0;
+    const shares: number[] = [];
+    if (maxCharacters !== undefined) {
+      shares.push((item.characters + layout.perSentence) / (maxCharacters + layout.saved));
+    }
+    if (maxWords !== undefined) {
+      shares.push(item.words / maxWords);
+    }
+    return Math.ceil(Math.max(...shares) * units - 1e-9);
+  });
+
+  // best[k][c]: highest value using exactly k sentences (any number when counts are
+  // not limited) and at most c cost units
+  const width = units + 1;
+  let best = new Float64Array(counts * width).fill(-Infinity);
+  for (let c = 0; c < width; c++) best[c] = 0;
+  const taken = new Uint8Array(n * counts * width);
+
+  for (let i = 0; i < n; i++) {
+    const cost = costs[i];
+    if (cost > units) continue;
+    const next = best.slice();
+
+    for (let k = 0; k < counts; k++) {
+      const from = maxCount === undefined ? k : k - 1;
+      if (from < 0) continue;
+      for (let c = cost; c < width; c++) {
+        const candidate = best[from * width + c - cost] + items[i].value;
+        if (candidate > next[k * width + c]) {
+          next[k * width + c] = candidate;
+          taken[(i * counts + k) * width + c] = 1;
+        }
+      }
+    }
+    best = next;
+  }
+
+  // Best final state, then walk the choices backwards
+  let bestK = 0;
+  for (let k = 1; k < counts; k++) {
+    if (best[k * width + units] > best[bestK * width + units]) bestK = k;
+  }
+
+  const chosen: number[] = [];
+  let k = bestK;
+  let c = units;
+  for (let i = n - 1; i >= 0; i--) {
+    if (taken[(i * counts + k) * width + c]) {
+      chosen.push(i);
+      c -= costs[i];
+      if (maxCount !== undefined) k--;
+    }
+  }
+
+  return chosen.reverse();
+}
+
+// Cut text at a word boundary so that it fits, marking the cut with an ellipsis
+export function truncateToBudget(text: string, maxCharacters?: number, maxWords?: number): string {
+  let words = text.trim().split(/\s+/);
+  if (maxWords !== undefined && countWords(text) > maxWords) {
+    words = words.slice(0, Math.max(1, maxWords));
+  }
+
+  let result = words.join(' ');
+  if (result !== text.trim()) result += '…';
+  while (maxCharacters !== undefined && result.length > maxCharacters && words.length > 1) {
+    words = words.slice(0, -1);
+    result = words.join(' ') + '…';
+  }
+  if (maxCharacters !== undefined && result.length > maxCharacters) {
+    result = result.slice(0, Math.max(0, maxCharacters - 1)) + '…';
+  }
+  return result;
+}
@@ -0,0 +1,116 @@
+// Splitting long documents into chunks for hierarchical summarization. Pages
+// (form feeds from PDF extraction) and section headings are the preferred
+// boundaries; small sections are packed together and oversized ones split at
+// paragraphs, then sentences.
+
+export type DocumentChunk = {
+  // Heading of the first section in the chunk, or its page number
+  title?: string;
+  text: string;
+};
+
+// Roughly 80 sentences of ordinary prose
+export const DEFAULT_CHUNK_CHARACTERS = 8000;
+
+const PAGE_BREAK = /\f/;
+const PARAGRAPH_BREAK = /\n\s*\n/;
+const SENTENCE_BREAK = /(?<=[.!?])\s+/;
+
+// Lines that open a section: Markdown headings, "Chapter 3"/"Section 2.1"-style
+// labels, numbered headings ("4.2 Termination") and short all-caps lines
+const HEADING_PATTERNS = [
+  /^#{1,6}\s+\S/,
+  /^(?:chapter|section|part|article|appendix|schedule)\s+[\dIVXLC]+[.:]?(?:\s|$)/i,
+  /^\d+(?:\.\d+)*\.?\s+[A-Z][^.!?]{0,80}$/,
+  /^[A-Z][A-Z0-9 ,&:'()-]{3,80}$/
+];
+
+function isHeading(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed.length > 0 && trimmed.length <= 100 && HEADING_PATTERNS.some(pattern => pattern.test(trimmed));
+}
+
+// Split on headings, keeping each heading with the text that follows it
+function splitSections(text: string, fallbackTitle?: string): DocumentChunk[] {
+  const sections: DocumentChunk[] = [];
+  let current: DocumentChunk = { title: fallbackTitle, text: '' };
+
+  for (const line of text.split('\n')) {
+    if (isHeading(line)) {
+      const title = line.trim().replace(/^#+\s*/, '');
+      if (current.text.trim()) {
+        sections.push(current);
+        current = { title, text: '' };
+      } else {
+        current.title = title;
+      }
+    }
+    current.text += line + '\n';
+  }
+
+  if (current.text.trim()) sections.push(current);
+  return sections;
+}
+
+// Break an oversized piece at the coarsest boundary that brings it under the limit
+function splitOversized(text: string, maxCharacters: number): string[] {
+  if (text.length <= maxCharacters) return [text];
+
+  for (const boundary of [PARAGRAPH_BREAK, SENTENCE_BREAK]) {
+    const pieces = text.split(boundary).filter(piece => piece.trim());
+    if (pieces.length > 1) {
+      return packPieces(pieces, maxCharacters, boundary === PARAGRAPH_BREAK ? '\n\n' : ' ')
+        .flatMap(piece => splitOversized(piece, maxCharacters));
+    }
+  }
+
+  // A single run-on "sentence": cut at the last space before the limit
+  const cut = text.lastIndexOf(' ', maxCharacters);
+  const at = cut > maxCharacters / 2 ? cut : maxCharacters;
+  return [text.slice(0, at), ...splitOversized(text.slice(at).trimStart(), maxCharacters)];
+}
+
+// Greedily join consecutive pieces while they fit
+function packPieces(pieces: string[], maxCharacters: number, separator: string): string[] {
+  const packed: string[] = [];
+  let current = '';
+
+  for (const piece of pieces) {
+    if (current && current.length + separator.length + piece.length > maxCharacters) {
+      packed.push(current);
+      current = piece;
+    } else {
+      current = current ? current + separator + piece : piece;
+    }
+  }
+
+  if (current) packed.push(current);
+  return packed;
+}
+
+// Split a document into chunks of at most maxCharacters, following pages and sections
+export function chunkDocument(text: string, maxCharacters: number = DEFAULT_CHUNK_CHARACTERS): DocumentChunk[] {
+  const pages = text.split(PAGE_BREAK);
+  const sections = pages.flatMap((page, index) =>
+    splitSections(page, pages.length > 1 ? `Page ${index + 1}` : undefined)
+  );
+
+  const chunks: DocumentChunk[] = [];
+  for (const section of sections) {
+    const last = chunks[chunks.length - 1];
+    if (last && last.text.length + section.text.length <= maxCharacters) {
+      last.text += '\n' + section.text;
+      continue;
+    }
+    for (const piece of splitOversized(section.text, maxCharacters)) {
+      chunks.push({ title: section.title, text: piece });
+    }
+  }
+
+  return chunks.filter(chunk => chunk.text.trim());
+}
+
+// Regroup sentences (e.g. the output of one summarization level) into chunks
+export function chunkSentences(sentences: string[], maxCharacters: number = DEFAULT_CHUNK_CHARACTERS): string[] {
+  return packPieces(sentences, maxCharacters, ' ');
+}
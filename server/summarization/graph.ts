@@ -0,0 +1,68 @@
+// Graph centrality for extractive summarization. Sentences are nodes and
+// edge weights say how much two sentences share; central sentences are the
+// ones the rest of the document keeps coming back to.
+
+export type PageRankOptions = {
+  // Probability of following an edge rather than jumping to a random node
+  damping?: number;
+  // Stop once the scores move less than this in total (L1) between iterations
+  tolerance?: number;
+  maxIterations?: number;
+};
+
+// LexRank keeps only edges at or above this cosine similarity
+export const LEXRANK_THRESHOLD = 0.1;
+
+// Weighted PageRank by power iteration over a symmetric weight matrix.
+// Nodes without edges spread their score evenly, so the scores always sum to 1.
+export function pageRank(weights: number[][], options: PageRankOptions = {}): number[] {
+  const { damping = 0.85, tolerance = 1e-6, maxIterations = 100 } = options;
+  const size = weights.length;
+  if (size === 0) return [];
+
+  const outWeight = weights.map(row => row.reduce((sum, weight) => sum + weight, 0));
+  let scores = new Array<number>(size).fill(1 / size);
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const dangling = scores.reduce((sum, score, j) => outWeight[j] === 0 ? sum + score : sum, 0);
+    const next = new Array<number>(size).fill((1 - damping) / size + damping * dangling / size);
+
+    for (let j = 0; j < size; j++) {
+      if (outWeight[j] === 0) continue;
+      const share = damping * scores[j] / outWeight[j];
+      for (let i = 0; i < size; i++) {
+        if (weights[j][i] > 0) {
+          next[i] += share * weights[j][i];
+        }
+      }
+    }
+
+    const change = next.reduce((sum, score, i) => sum + Math.abs(score - scores[i]), 0);
+    scores = next;
+    if (change < tolerance) break;
+  }
+
+  return scores;
+}
+
+// Build the sentence graph from a pairwise similarity. TextRank keeps the
+// similarities as weights; LexRank turns every similarity at or above the
+// threshold into an unweighted edge.
+export function buildSentenceGraph(
+  count: number,
+  similarity: (a: number, b: number) => number,
+  threshold?: number
+): number[][] {
+  const weights = Array.from({ length: count }, () => new Array<number>(count).fill(0));
+
+  for (let i = 0; i < count; i++) {
+    for (let j = i + 1; j < count; j++) {
+      const value = similarity(i, j);
+      const weight = threshold === undefined ? value : value >= threshold ? 1 : 0;
+      weights[i][j] = weight;
+      weights[j][i] = weight;
+    }
+  }
+
+  return weights;
+}
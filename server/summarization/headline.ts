@@ -0,0 +1,206 @@
+import { HeadlineCapitalization } from '@shared/schema';
+import { capitalize, joinWords, ParaphraseLexicon, tagTokens, tokenize, Token, VerbEntry } from '../paraphrase';
+
+// Headline compression: a sentence is cut down to its main clause and rewritten
+// in headline style (no articles, present tense, "to" for the future, short
+// passives), then shortened to fit the word limit.
+
+// Fewest words a headline can have
+export const MIN_HEADLINE_WORDS = 3;
+
+const TIME_EXPRESSIONS = new RegExp(
+  String.raw`\s*\b(?:(?:on|last|this|next|early|late)\s+)?(?:monday|tuesday|wednesday|thursday|friday|saturday|sunday|yesterday|today|tonight|(?:this|last|next) (?:week|month|year))\b`,
+  'gi'
+);
+
+// A clause after the main one that can be dropped
+const CLAUSE_BREAK = /;|\s[-–—]\s|,\s+(?:and|but|so|while|which|who|where|although)\s|\s(?:because|although|though|whereas|unless|so that)\s/i;
+
+// The longest introductory phrase ("However,", "In 2021,", "According to the report,")
+const MAX_OPENING_WORDS = 6;
+
+const ARTICLES = new Set(['a', 'an', 'the']);
+
+const RELATIVE_PRONOUNS = new Set(['that', 'which', 'who', 'whom', 'whose']);
+
+// Words a headline cannot end with
+const DANGLING_TAGS = new Set(['det', 'prep', 'conj', 'aux', 'sub', 'pron']);
+
+// Phrases a long headline can be cut before
+const BREAK_TAGS = new Set(['prep', 'conj', 'sub']);
+
+const SMALL_WORDS = new Set(['a', 'an', 'the', 'and', 'or', 'but', 'nor', 'of', 'to', 'in', 'on', 'at', 'by', 'for', 'with', 'as', 'from', 'into', 'via', 'vs']);
+
+export function compressToHeadline(sentence: string, lexicon: ParaphraseLexicon, maxWords: number): string | null {
+  let text = sentence
+    .replace(/\s*[([][^)\]]*[)\]]/g, '')
+    .replace(/[.!?;:]+["”’]?\s*$/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const opening = text.match(/^([^,]+),\s+(.*)$/);
+  if (opening && wordCount(opening[1]) <= MAX_OPENING_WORDS && wordCount(opening[2]) > MIN_HEADLINE_WORDS &&
+      !tagTokens(tokenize(opening[1]), lexicon).some(isFiniteVerb)) {
+    text = opening[2];
+  }
+
+  const clauseBreak = text.match(CLAUSE_BREAK);
+  if (clauseBreak?.index !== undefined && wordCount(text.slice(0, clauseBreak.index)) > MIN_HEADLINE_WORDS) {
+    text = text.slice(0, clauseBreak.index);
+  }
+  text = text.replace(TIME_EXPRESSIONS, '').replace(/,\s*$/, '');
+
+  const words = tagTokens(tokenize(text), lexicon).filter(token => token.kind !== 'space');
+  const { result, verbIndex } = toHeadlineStyle(words);
+  const fitted = fitWordLimit(result, verbIndex, maxWords);
+  if (fitted.filter(token => token.kind !== 'punct').length < MIN_HEADLINE_WORDS) return null;
+
+  return capitalize(joinWords(fitted));
+}
+
+function wordCount(text: string): number {
+  return text.split(' ').filter(Boolean).length;
+}
+
+function isFiniteVerb(token: Token): boolean {
+  return token.tag === 'verb' && (token.verb?.form === 'past' || token.verb?.form === 'third');
+}
+
+// Drop articles, put the main verb in the present tense and shorten passives and
+// the future ("was approved" -> "approved", "will open" -> "to open"). Also
+// returns the position of the main verb, or -1 when none was found.
+function toHeadlineStyle(words: Token[]): { result: Token[]; verbIndex: number } {
+  const result: Token[] = [];
+  let verbIndex = -1;
+
+  for (let i = 0; i < words.length; i++) {
+    const token = words[i];
+    const lower = token.text.toLowerCase();
+    const next = words[i + 1];
+    const previous = words[i - 1];
+
+    // Articles of names stay ("The Hague")
+    if (ARTICLES.has(lower) && next?.tag !== 'proper') continue;
+
+    if (verbIndex >= 0) {
+      // "found that reefs recover" -> "finds reefs recover"
+      if (lower === 'that' && result.length - 1 === verbIndex) continue;
+      result.push(token);
+      continue;
+    }
+
+    if (token.tag === 'aux') {
+      verbIndex = result.length;
+      if (/^(is|are|was|were)$/.test(lower) && next?.verb?.form === 'participle') {
+        result.push(next);
+        i++;
+      } else if (/^(has|have|had)$/.test(lower) && next?.verb?.form === 'participle') {
+        result.push({ ...next, text: presentTense(next.verb.verb, result) });
+        i++;
+      } else {
+        result.push(lower === 'will' && next?.tag === 'verb' ? { ...token, text: 'to' } : token);
+      }
+      continue;
+    }
+
+    if (isFiniteVerb(token) && !RELATIVE_PRONOUNS.has(previous?.text.toLowerCase() || '') && !isModifier(words, i)) {
+      verbIndex = result.length;
+      result.push(token.verb!.form === 'past' ? { ...token, text: presentTense(token.verb!.verb, result) } : token);
+      continue;
+    }
+
+    result.push(token);
+  }
+  return { result, verbIndex };
+}
+
+// A form spelled like a participle modifies a noun rather than being the main
+// verb when it comes between modifiers and a noun ("expanding protected areas")
+// or another finite verb follows in the same clause ("a study published in a
+// journal found")
+function isModifier(words: Token[], index: number): boolean {
+  const verb = words[index].verb!;
+  if (verb.form !== 'past' || verb.verb.past !== verb.verb.participle) return false;
+
+  const previous = words[index - 1];
+  if (words[index + 1]?.tag === 'noun' && previous && !['noun', 'proper', 'pron'].includes(previous.tag || '')) return true;
+
+  for (let i = index + 1; i < words.length; i++) {
+    const token = words[i];
+    if (token.text === ',' || token.tag === 'sub' || RELATIVE_PRONOUNS.has(token.text.toLowerCase())) return false;
+    if (isFiniteVerb(token) && words[i - 1]?.text.toLowerCase() !== 'to') return true;
+  }
+  return false;
+}
+
+// Third person singular unless the subject looks plural; its head is the last
+// word before any prepositional phrase or relative clause
+function presentTense(verb: VerbEntry, subject: Token[]): string {
+  const end = subject.findIndex(token => token.tag === 'prep' || RELATIVE_PRONOUNS.has(token.text.toLowerCase()));
+  const phrase = end > 0 ? subject.slice(0, end) : subject;
+  const head = phrase[phrase.length - 1]?.text.toLowerCase() || '';
+  const plural = phrase.some(token => token.text.toLowerCase() === 'and') ||
+    /^(we|they|i|you)$/.test(head) ||
+    (/[^s]s$/.test(head) && !/(ss|us|is)$/.test(head));
+  return plural ? verb.base : verb.third;
+}
+
+// Over the limit, a relative clause in the subject goes first ("employees who
+// worked from home"), then prepositional phrases after the first one in it
+// ("survey of 2,000 employees at technology companies"); then the headline is
+// cut at the last phrase boundary within the limit (after the main verb when
+// there is one), and words that would leave it dangling are dropped
+function fitWordLimit(words: Token[], verbIndex: number, maxWords: number): Token[] {
+  const countWords = (tokens: Token[]) => tokens.filter(token => token.kind !== 'punct').length;
+  let result = words;
+  let verb = verbIndex;
+
+  const relative = result.slice(0, Math.max(verb, 0)).findIndex(token => RELATIVE_PRONOUNS.has(token.text.toLowerCase()));
+  if (countWords(result) > maxWords && relative > 0) {
+    result = [...result.slice(0, relative), ...result.slice(verb)];
+    verb = relative;
+  }
+
+  while (countWords(result) > maxWords && verb > 0) {
+    const prepositions = result.slice(0, verb).flatMap((token, index) => token.tag === 'prep' ? [index] : []);
+    if (prepositions.length < 2) break;
+    const start = prepositions[prepositions.length - 1];
+    result = [...result.slice(0, start), ...result.slice(verb)];
+    verb = start;
+  }
+
+  if (countWords(result) > maxWords) {
+    let end = 0;
+    let counted = 0;
+    let boundary = -1;
+    while (end < result.length && counted < maxWords) {
+      if (result[end].kind !== 'punct') counted++;
+      end++;
+      const next = result[end];
+      const breaks = next && (BREAK_TAGS.has(next.tag || '') || next.text === ',' || RELATIVE_PRONOUNS.has(next.text.toLowerCase()));
+      if (breaks && counted >= MIN_HEADLINE_WORDS && end > verb + 1) {
+        boundary = end;
+      }
+    }
+    result = result.slice(0, boundary > 0 ? boundary : end);
+  }
+
+  while (result.length > 0 && (result[result.length - 1].kind === 'punct' || DANGLING_TAGS.has(result[result.length - 1].tag || ''))) {
+    result = result.slice(0, -1);
+  }
+  return result;
+}
+
+// Sentence case keeps the text as written; title case capitalizes every word but
+// short function words in the middle
+export function formatHeadline(text: string, capitalization: HeadlineCapitalization): string {
+  if (capitalization === 'sentence') {
+    return capitalize(text);
+  }
+
+  const words = text.split(' ');
+  return words.map((word, index) => {
+    const isEdge = index === 0 || index === words.length - 1;
+    return !isEdge && SMALL_WORDS.has(word.toLowerCase()) ? word.toLowerCase() : capitalize(word);
+  }).join(' ');
+}
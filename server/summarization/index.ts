@@ -0,0 +1,13 @@
+export { pageRank, buildSentenceGraph, LEXRANK_THRESHOLD } from './graph';
+export type { PageRankOptions } from './graph';
+export { bm25Scores } from './bm25';
+export type { BM25Options } from './bm25';
+export { chunkDocument, chunkSentences, DEFAULT_CHUNK_CHARACTERS } from './chunking';
+export type { DocumentChunk } from './chunking';
+export { locateSentences, findSpanIndex } from './provenance';
+export type { SentenceSpan } from './provenance';
+export { selectWithinBudget, truncateToBudget, countWords, hasBudget } from './budget';
+export type { SummaryBudget, BudgetItem, BudgetLayout } from './budget';
+export { abstractiveSummarize, isAbstractiveAvailable } from './abstractive';
+export type { AbstractiveSummary } from './abstractive';
+export { compressToHeadline, formatHeadline, MIN_HEADLINE_WORDS } from './headline';
@@ -0,0 +1,60 @@
+// Locating summary sentences in the text they were taken from. Sentence
+// splitting adds and removes whitespace, so sentences are matched word by word
+// with any run of whitespace in between.
+
+export type SentenceSpan = {
+  start: number;
+  // Exclusive
+  end: number;
+};
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Offsets of each sentence, searched in order from the end of the previous match.
+// Sentences that cannot be found are null and do not move the search position.
+export function locateSentences(text: string, sentences: string[]): Array<SentenceSpan | null> {
+  let cursor = 0;
+
+  return sentences.map(sentence => {
+    const words = sentence.trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0) return null;
+
+    const pattern = new RegExp(words.map(escapeRegExp).join('\\s+'), 'g');
+    pattern.lastIndex = cursor;
+    const match = pattern.exec(text);
+    if (!match) return null;
+
+    cursor = match.index + match[0].length;
+    return { start: match.index, end: cursor };
+  });
+}
+
+// Index of the span that contains offset, or -1. Spans must be in text order.
+export function findSpanIndex(spans: Array<SentenceSpan | null>, offset: number): number {
+  let low = 0;
+  let high = spans.length - 1;
+
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    // Skip over sentences that were not located
+    let probe = middle;
+    while (probe >= low && !spans[probe]) probe--;
+    if (probe < low) {
+      low = middle + 1;
+      continue;
+    }
+
+    const span = spans[probe]!;
+    if (offset < span.start) {
+      high = probe - 1;
+    } else if (offset >= span.end) {
+      low = middle + 1;
+    } else {
+      return probe;
+    }
+  }
+
+  return -1;
+}
@@ -0,0 +1,15 @@
+export {
+  DEFAULT_LANGUAGE,
+  describeLanguage,
+  isContentWord,
+  joinCjkWords,
+  loadTextLanguage,
+  resolveTextLanguage,
+  spaceCjkWords,
+  splitElisions,
+  splitWords
+} from './language';
+export type { TextLanguage } from './language';
+export { loadStopwords } from './stopwords';
+export { CJK_RUN, loadCjkSegmenter, segmentRun } from './segmenter';
+export type { CjkSegmenter } from './segmenter';
@@ -0,0 +1,104 @@
+import { detectLanguage, getLanguageCode, getLanguageName, isAutoDetect } from '../translation';
+import { loadStopwords } from './stopwords';
+import { CJK_RUN, loadCjkSegmenter } from './segmenter';
+import type { CjkSegmenter } from './segmenter';
+
+// How the text of one language is split into words, and which of its words
+// carry no content
+export type TextLanguage = {
+  code: string;
+  stopwords: Set<string>;
+  segment: CjkSegmenter;
+};
+
+// Used when a text's language is neither given nor reliably detected
+export const DEFAULT_LANGUAGE = 'en';
+
+// Letters (with combining marks) and apostrophes; digits and punctuation
+// separate words
+const WORD = new RegExp(String.raw`[\p{L}\p{M}']+`, 'gu');
+// Articles, prepositions and pronouns elided onto the next word, as in
+// "l'intelligence" or "dell'arte", per language
+const ELISIONS: Record<string, string[]> = {
+  fr: ['c', 'd', 'j', 'l', 'm', 'n', 's', 't', 'qu', 'jusqu', 'lorsqu', 'puisqu', 'quoiqu'],
+  it: ['c', 'd', 'l', 'm', 'n', 's', 't', 'v', 'un', 'all', 'coll', 'dall', 'dell', 'nell', 'quell', 'quest', 'sull']
+};
+const elisionPatterns = new Map<string, RegExp>();
+const CJK_PARTS = new RegExp(`(${CJK_RUN.source})`, 'u');
+const CJK_SPACE = new RegExp(String.raw`(?<=[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]) (?=[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}])`, 'gu');
+
+export async function loadTextLanguage(code: string): Promise<TextLanguage> {
+  const [stopwords, segment] = await Promise.all([loadStopwords(code), loadCjkSegmenter()]);
+  return { code, stopwords, segment };
+}
+
+// The language named by the request (a name or an ISO code), or the one
+// detected from the text when it is missing or "auto". Detection that is
+// unreliable or impossible falls back to English.
+export async function resolveTextLanguage(text: string, language?: string): Promise<TextLanguage> {
+  if (language && !isAutoDetect(language)) {
+    const code = getLanguageCode(language);
+    if (!code) throw new Error(`Unsupported language: ${language}`);
+    return loadTextLanguage(code);
+  }
+
+  try {
+    const detected = await detectLanguage(text);
+    return loadTextLanguage(detected.reliable ? detected.code : DEFAULT_LANGUAGE);
+  } catch {
+    return loadTextLanguage(DEFAULT_LANGUAGE);
+  }
+}
+
+export function describeLanguage(language: TextLanguage): string {
+  return getLanguageName(language.code);
+}
+
+// Write elided words apart from the word they precede ("l'intelligence"
+// becomes "l intelligence") so that they meet the stopword list. Without a
+// language, as for corpus documents, the elisions of every language apply.
+export function splitElisions(text: string, code?: string): string {
+  const key = code ?? '*';
+  let pattern = elisionPatterns.get(key);
+  if (!pattern) {
+    const prefixes = code !== undefined ? ELISIONS[code] ?? [] : Array.from(new Set(Object.values(ELISIONS).flat()));
+    if (prefixes.length === 0) return text;
+    pattern = new RegExp(String.raw`(?<![\p{L}\p{M}'’])(${prefixes.join('|')})['’](?=\p{L})`, 'giu');
+    elisionPatterns.set(key, pattern);
+  }
+  return text.replace(pattern, '$1 ');
+}
+
+// Lowercase words of a text; runs of CJK characters are segmented into words
+export function splitWords(text: string, segment?: CjkSegmenter): string[] {
+  const words: string[] = [];
+  for (const token of text.toLowerCase().match(WORD) || []) {
+    if (!CJK_RUN.test(token)) {
+      words.push(token);
+      continue;
+    }
+    for (const part of token.split(CJK_PARTS)) {
+      if (!part) continue;
+      if (CJK_RUN.test(part)) words.push(...(segment ? segment(part) : [part]));
+      else words.push(part);
+    }
+  }
+  return words;
+}
+
+// Words long enough to carry content: three letters, or two CJK characters
+export function isContentWord(word: string, stopwords: Set<string>): boolean {
+  if (stopwords.has(word)) return false;
+  return word.length > 2 || (word.length === 2 && CJK_RUN.test(word));
+}
+
+// Put spaces between the words of CJK runs, for extractors that find words
+// by whitespace and punctuation
+export function spaceCjkWords(text: string, segment: CjkSegmenter): string {
+  return text.replace(new RegExp(CJK_RUN.source, 'gu'), run => ` ${segment(run).join(' ')} `);
+}
+
+// Undo spaceCjkWords in a phrase built from segmented words
+export function joinCjkWords(phrase: string): string {
+  return phrase.replace(CJK_SPACE, '');
+}
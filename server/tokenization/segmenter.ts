@@ -0,0 +1,75 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+// Dictionary segmentation for scripts written without spaces between words.
+// At each position the longest dictionary word is taken (forward maximum
+// matching); characters between dictionary words are paired into bigrams,
+// since most words missing from the dictionary have two characters.
+
+// Splits a run of CJK characters into words
+export type CjkSegmenter = (run: string) => string[];
+
+// Directory holding zh.txt (one word per line)
+const SEGMENTATION_DIR = process.env.SEGMENTATION_DIR || path.join(import.meta.dirname, '../data/segmentation');
+
+// Han ideographs and Japanese kana
+export const CJK_RUN = new RegExp(String.raw`[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]+`, 'u');
+
+let segmenter: Promise<CjkSegmenter> | null = null;
+
+export function loadCjkSegmenter(): Promise<CjkSegmenter> {
+  if (!segmenter) {
+    segmenter = readSegmenter();
+    segmenter.catch(() => {
+      segmenter = null;
+    });
+  }
+  return segmenter;
+}
+
+async function readSegmenter(): Promise<CjkSegmenter> {
+  const file = await fs.readFile(path.join(SEGMENTATION_DIR, 'zh.txt'), 'utf-8');
+  const words = new Set<string>();
+  let longest = 1;
+
+  for (const line of file.split('\n')) {
+    const word = line.trim();
+    if (!word || word.startsWith('#')) continue;
+    words.add(word);
+    longest = Math.max(longest, Array.from(word).length);
+  }
+  return run => segmentRun(run, words, longest);
+}
+
+export function segmentRun(run: string, words: Set<string>, longest: number): string[] {
+  const characters = Array.from(run);
+  const segments: string[] = [];
+  let unknown: string[] = [];
+
+  const flushUnknown = () => {
+    for (let i = 0; i < unknown.length; i += 2) segments.push(unknown.slice(i, i + 2).join(''));
+    unknown = [];
+  };
+
+  let position = 0;
+  while (position < characters.length) {
+    let matched = 0;
+    for (let length = Math.min(longest, characters.length - position); length > 0; length--) {
+      if (words.has(characters.slice(position, position + length).join(''))) {
+        matched = length;
+        break;
+      }
+    }
+
+    if (matched) {
+      flushUnknown();
+      segments.push(characters.slice(position, position + matched).join(''));
+      position += matched;
+    } else {
+      unknown.push(characters[position]);
+      position++;
+    }
+  }
+  flushUnknown();
+  return segments;
+}
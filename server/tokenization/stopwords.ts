@@ -0,0 +1,40 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { isFileNotFound } from '../utils/errors';
+
+// Directory holding <code>.txt stopword lists (one lowercase word per line)
+const STOPWORDS_DIR = process.env.STOPWORDS_DIR || path.join(import.meta.dirname, '../data/stopwords');
+
+const lists = new Map<string, Promise<Set<string>>>();
+
+// The stopwords of a language by ISO 639-1 code; a language without a list
+// has none
+export function loadStopwords(code: string): Promise<Set<string>> {
+  let list = lists.get(code);
+  if (!list) {
+    list = readStopwords(code);
+    lists.set(code, list);
+    list.catch(() => {
+      lists.delete(code);
+    });
+  }
+  return list;
+}
+
+async function readStopwords(code: string): Promise<Set<string>> {
+  if (!/^[a-z]{2,3}$/.test(code)) return new Set();
+
+  let file: string;
+  try {
+    file = await fs.readFile(path.join(STOPWORDS_DIR, `${code}.txt`), 'utf-8');
+  } catch (error) {
+    if (isFileNotFound(error)) return new Set();
+    throw error;
+  }
+
+  return new Set(
+    file.split('\n')
+      .map(line => line.trim().toLowerCase())
+      .filter(line => line && !line.startsWith('#'))
+  );
+}
@@ -0,0 +1,26 @@
+import { TranslationRequest } from '@shared/schema';
+import { TranslationProvider, ProviderTranslation } from './providers';
+import { getLanguageCode } from './languages';
+import { translateWithLexicon } from './lexiconEngine';
+
+// Offline translation from the bilingual lexicons and phrase tables on disk
+export const dictionaryProvider: TranslationProvider = {
+  name: 'dictionary',
+  description: 'Offline lexicon and phrase-table translation',
+  
+  isAvailable() {
+    return true;
+  },
+  
+  async translate(request: TranslationRequest): Promise<ProviderTranslation> {
+    const source = getLanguageCode(request.sourceLanguage);
+    const target = getLanguageCode(request.targetLanguage);
+    
+    if (!source || !target) {
+      throw new Error(`Unsupported language pair: ${request.sourceLanguage} to ${request.targetLanguage}`);
+    }
+    
+    // Domain terminology overrides the general dictionary where the lexicons provide it
+    return { translatedText: await translateWithLexicon(request.text, source, target, request.domain) };
+  }
+};
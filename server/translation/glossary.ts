@@ -0,0 +1,144 @@
+import { GlossaryEntry, GlossaryMatch } from '@shared/schema';
+
+// A protected span replaced by a placeholder before translation
+type Placeholder = {
+  entry: GlossaryEntry;
+  replacement: string;
+};
+
+export type MaskedText = {
+  text: string;
+  placeholders: Placeholder[];
+  // Number of the first glossary placeholder; lower numbers belong to markup tokens
+  firstIndex?: number;
+};
+
+// Placeholders use brackets that no provider should translate; whitespace the
+// model might insert inside them is tolerated when restoring
+const PLACEHOLDER_PATTERN = /⟦\s*(\d+)\s*⟧/g;
+const LETTER_OR_DIGIT = String.raw`[\p{L}\p{M}\p{N}]`;
+const HAN = new RegExp(String.raw`\p{Script=Han}`, 'u');
+
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Match the term as a whole word; Han terms have no word boundaries to check
+function termPattern(entry: GlossaryEntry): RegExp {
+  const term = escapeRegExp(entry.sourceTerm.trim());
+  const flags = entry.caseSensitive ? 'gu' : 'giu';
+  if (HAN.test(entry.sourceTerm)) {
+    return new RegExp(term, flags);
+  }
+  return new RegExp(`(?<!${LETTER_OR_DIGIT})${term}(?!${LETTER_OR_DIGIT})`, flags);
+}
+
+// Replace every glossary term in the text with a numbered placeholder.
+// Longer terms are masked first so "Acme Cloud" wins over "Acme". Numbering
+// starts at firstIndex when the text already carries markup placeholders.
+export function maskGlossaryTerms(text: string, entries: GlossaryEntry[], firstIndex: number = 0): MaskedText {
+  const placeholders: Placeholder[] = [];
+  if (entries.length === 0) {
+    return { text, placeholders, firstIndex };
+  }
+  
+  const sorted = entries
+    .filter(entry => entry.sourceTerm.trim().length > 0)
+    .sort((a, b) => b.sourceTerm.length - a.sourceTerm.length);
+  
+  // Text is kept as segments so later terms never match inside an earlier placeholder
+  let segments: Array<string | number> = [text];
+  
+  for (const entry of sorted) {
+    const pattern = termPattern(entry);
+    const next: Array<string | number> = [];
+    
+    for (const segment of segments) {
+      if (typeof segment === 'number') {
+        next.push(segment);
+        continue;
+      }
+      
+      let lastIndex = 0;
+      for (const match of Array.from(segment.matchAll(pattern))) {
+        const index = match.index ?? 0;
+        next.push(segment.slice(lastIndex, index));
+        next.push(placeholders.length);
+        placeholders.push({
+          entry,
+          replacement: entry.keepAsIs || !entry.translation ? match[0] : entry.translation
+        });
+        lastIndex = index + match[0].length;
+      }
+      next.push(segment.slice(lastIndex));
+    }
+    
+    segments = next;
+  }
+  
+  return {
+    text: segments.map(segment => typeof segment === 'number' ? `⟦${firstIndex + segment}⟧` : segment).join(''),
+    placeholders,
+    firstIndex
+  };
+}
+
+// Put the protected spans back into the translated text
+export function restoreGlossaryTerms(translated: string, masked: MaskedText): string {
+  if (masked.placeholders.length === 0) {
+    return translated;
+  }
+  
+  const firstIndex = masked.firstIndex ?? 0;
+  const seen = new Set<number>();
+  const restored = translated.replace(PLACEHOLDER_PATTERN, (placeholder, index) => {
+    const entry = masked.placeholders[Number(index) - firstIndex];
+    if (!entry) return placeholder;
+    seen.add(Number(index));
+    return entry.replacement;
+  });
+  
+  if (seen.size < masked.placeholders.length) {
+    console.warn(`Translation provider dropped ${masked.placeholders.length - seen.size} glossary placeholder(s)`);
+  }
+  
+  return restored;
+}
+
+// Put the placeholders back in place of the enforced terms of a translation
+// made with this masking, e.g. a stored one, so later rewrites leave the terms
+// alone. Longer terms go first so they are not split by shorter ones.
+export function remaskGlossaryTerms(translated: string, masked: MaskedText): string {
+  const firstIndex = masked.firstIndex ?? 0;
+  const terms = masked.placeholders
+    .map((placeholder, i) => ({ replacement: placeholder.replacement, index: firstIndex + i }))
+    .filter(term => term.replacement.length > 0)
+    .sort((a, b) => b.replacement.length - a.replacement.length);
+  
+  let text = translated;
+  for (const { replacement, index } of terms) {
+    text = text.replace(replacement, `⟦${index}⟧`);
+  }
+  return text;
+}
+
+// Summarise which entries were enforced, one row per entry
+export function summarizeGlossaryMatches(masked: MaskedText): GlossaryMatch[] {
+  const matches = new Map<number, GlossaryMatch>();
+  
+  for (const placeholder of masked.placeholders) {
+    const existing = matches.get(placeholder.entry.id);
+    if (existing) {
+      existing.occurrences++;
+    } else {
+      matches.set(placeholder.entry.id, {
+        sourceTerm: placeholder.entry.sourceTerm,
+        replacement: placeholder.replacement,
+        keepAsIs: placeholder.entry.keepAsIs,
+        occurrences: 1
+      });
+    }
+  }
+  
+  return Array.from(matches.values());
+}
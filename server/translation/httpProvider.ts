@@ -0,0 +1,55 @@
+import { TranslationRequest } from '@shared/schema';
+import { TranslationProvider, ProviderTranslation } from './providers';
+import { getLanguageCode } from './languages';
+
+// Generic JSON-over-HTTP provider for a self-hosted model server.
+// The server at TRANSLATION_HTTP_URL receives
+//   { text, sourceLanguage, targetLanguage, sourceCode, targetCode, formality, domain }
+// and must answer with { translatedText }.
+export const httpProvider: TranslationProvider = {
+  name: 'http',
+  description: 'Self-hosted model server over HTTP',
+  
+  isAvailable() {
+    return Boolean(process.env.TRANSLATION_HTTP_URL);
+  },
+  
+  async translate(request: TranslationRequest): Promise<ProviderTranslation> {
+    const url = process.env.TRANSLATION_HTTP_URL;
+    if (!url) {
+      throw new Error('TRANSLATION_HTTP_URL is not set');
+    }
+    
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (process.env.TRANSLATION_HTTP_API_KEY) {
+      headers['Authorization'] = `Bearer ${process.env.TRANSLATION_HTTP_API_KEY}`;
+    }
+    
+    const timeoutMs = parseInt(process.env.TRANSLATION_HTTP_TIMEOUT_MS || '', 10) || 30000;
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        text: request.text,
+        sourceLanguage: request.sourceLanguage,
+        targetLanguage: request.targetLanguage,
+        sourceCode: getLanguageCode(request.sourceLanguage),
+        targetCode: getLanguageCode(request.targetLanguage),
+        formality: request.formality,
+        domain: request.domain
+      }),
+      signal: AbortSignal.timeout(timeoutMs)
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Translation server responded with ${response.status}`);
+    }
+    
+    const data = await response.json() as { translatedText?: unknown };
+    if (typeof data.translatedText !== 'string') {
+      throw new Error('Translation server response is missing translatedText');
+    }
+    
+    return { translatedText: data.translatedText };
+  }
+};
@@ -0,0 +1,38 @@
+import { registerTranslationProvider } from './providers';
+import { dictionaryProvider } from './dictionaryProvider';
+import { openaiProvider } from './openaiProvider';
+import { httpProvider } from './httpProvider';
+
+// Built-in providers; additional backends can be added with registerTranslationProvider
+registerTranslationProvider(dictionaryProvider);
+registerTranslationProvider(openaiProvider);
+registerTranslationProvider(httpProvider);
+
+export {
+  registerTranslationProvider,
+  getTranslationProvider,
+  listTranslationProviders,
+  resolveTranslationProvider
+} from './providers';
+export type { TranslationProvider, ProviderTranslation } from './providers';
+export { LANGUAGE_CODES, getLanguageCode, getLanguageName, isAutoDetect } from './languages';
+export { detectLanguage } from './languageDetection';
+export { maskGlossaryTerms, restoreGlossaryTerms, remaskGlossaryTerms, summarizeGlossaryMatches } from './glossary';
+export type { MaskedText } from './glossary';
+export {
+  DEFAULT_FUZZY_THRESHOLD,
+  MEMORY_CANDIDATE_LIMIT,
+  normalizeSegment,
+  locateSegments,
+  findMemoryMatch,
+  translationMemoryScope,
+  candidateLengths
+} from './memory';
+export type { TranslationMemoryStore, TranslationMemoryQuery } from './memory';
+export { parseMarkup, translatableRuns, renderMarkup, restoreMarkup, stripPlaceholders, joinNumbered, splitNumbered } from './markup';
+export type { MarkupDocument, ProtectedText } from './markup';
+export { createRegisterRewriter, resolveRegister } from './register';
+export type { Register, RegisterRule, RegisterRewriter } from './register';
+export { roundTripMetrics, roundTripScore, describeIssues, LOW_CONFIDENCE_THRESHOLD } from './quality';
+export { transliterate } from './transliteration';
+export type { TransliterationOptions } from './transliteration';
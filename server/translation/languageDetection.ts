@@ -0,0 +1,118 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { LanguageDetectionResponse } from '@shared/schema';
+import { getLanguageName } from './languages';
+
+// Character n-gram profile trained from a sample corpus (see server/scripts/build-language-profiles.ts)
+export type LanguageProfile = {
+  code: string;
+  // Total n-gram count in the training corpus, before the profile was truncated
+  total: number;
+  ngrams: Record<string, number>;
+};
+
+const PROFILE_DIR = process.env.LANGUAGE_PROFILE_DIR || path.join(import.meta.dirname, '../data/language-profiles');
+
+// Largest n-gram order used in profiles and at detection time
+export const MAX_NGRAM = 3;
+
+// Only the start of long documents is needed to identify the language
+const MAX_DETECTION_CHARS = 2000;
+
+// Assumed vocabulary size for add-k smoothing of unseen n-grams
+const SMOOTHING_VOCABULARY = 20000;
+const SMOOTHING_K = 0.5;
+
+// Below these thresholds a detection is reported but flagged as unreliable
+const RELIABLE_CONFIDENCE = 0.75;
+const RELIABLE_NGRAMS = 12;
+
+const NON_LETTERS = new RegExp(String.raw`[^\p{L}\p{M}]+`, 'gu');
+
+let profilesPromise: Promise<LanguageProfile[]> | null = null;
+
+// Extract padded character n-grams (orders 1..MAX_NGRAM) from text
+export function extractCharNgrams(text: string): string[] {
+  const words = text.toLowerCase().replace(NON_LETTERS, ' ').split(' ').filter(w => w.length > 0);
+  const ngrams: string[] = [];
+  
+  for (const word of words) {
+    const padded = ` ${word} `;
+    const chars = Array.from(padded);
+    for (let n = 1; n <= MAX_NGRAM; n++) {
+      for (let i = 0; i + n <= chars.length; i++) {
+        const gram = chars.slice(i, i + n).join('');
+        if (gram.trim()) {
+          ngrams.push(gram);
+        }
+      }
+    }
+  }
+  
+  return ngrams;
+}
+
+async function readProfiles(): Promise<LanguageProfile[]> {
+  const files = (await fs.readdir(PROFILE_DIR)).filter(file => file.endsWith('.json'));
+  
+  return Promise.all(files.map(async file => {
+    const content = await fs.readFile(path.join(PROFILE_DIR, file), 'utf-8');
+    return JSON.parse(content) as LanguageProfile;
+  }));
+}
+
+// Load (and cache) every profile in the profile directory
+export function loadLanguageProfiles(): Promise<LanguageProfile[]> {
+  if (!profilesPromise) {
+    profilesPromise = readProfiles();
+    profilesPromise.catch(() => {
+      profilesPromise = null;
+    });
+  }
+  return profilesPromise;
+}
+
+// Rank candidate languages with a naive Bayes model over character n-grams
+export async function detectLanguage(text: string): Promise<LanguageDetectionResponse> {
+  const profiles = await loadLanguageProfiles();
+  if (profiles.length === 0) {
+    throw new Error('No language profiles are installed');
+  }
+  
+  const ngrams = extractCharNgrams(text.slice(0, MAX_DETECTION_CHARS));
+  if (ngrams.length === 0) {
+    throw new Error('Text contains no letters to identify a language from');
+  }
+  
+  const scores = profiles.map(profile => {
+    const denominator = Math.log(profile.total + SMOOTHING_K * SMOOTHING_VOCABULARY);
+    let logLikelihood = 0;
+    for (const gram of ngrams) {
+      logLikelihood += Math.log((profile.ngrams[gram] || 0) + SMOOTHING_K) - denominator;
+    }
+    return { code: profile.code, logLikelihood };
+  });
+  
+  // Temper the posterior by sqrt(n) so long inputs don't collapse every score to 0 or 1
+  const temperature = Math.sqrt(ngrams.length);
+  const best = Math.max(...scores.map(s => s.logLikelihood));
+  const weights = scores.map(s => Math.exp((s.logLikelihood - best) / temperature));
+  const sum = weights.reduce((total, weight) => total + weight, 0);
+  
+  const candidates = scores
+    .map((s, index) => ({
+      language: getLanguageName(s.code),
+      code: s.code,
+      confidence: weights[index] / sum
+    }))
+    .sort((a, b) => b.confidence - a.confidence);
+  
+  const top = candidates[0];
+  return {
+    language: top.language,
+    code: top.code,
+    confidence: top.confidence,
+    reliable: top.confidence >= RELIABLE_CONFIDENCE && ngrams.length >= RELIABLE_NGRAMS,
+    candidates
+  };
+}
@@ -0,0 +1,50 @@
+// Languages offered by the translation UI, mapped to ISO 639-1 codes
+export const LANGUAGE_CODES: Record<string, string> = {
+  'English': 'en',
+  'Spanish': 'es',
+  'French': 'fr',
+  'German': 'de',
+  'Chinese': 'zh',
+  'Russian': 'ru',
+  'Italian': 'it',
+  'Portuguese': 'pt'
+};
+
+// Resolve an ISO 639-1 code back to the language name used by the UI
+export function getLanguageName(code: string): string {
+  const match = Object.entries(LANGUAGE_CODES).find(([, value]) => value === code);
+  return match ? match[0] : code;
+}
+
+// Whether the caller asked for the source language to be detected
+export function isAutoDetect(language: string): boolean {
+  return language.trim().toLowerCase() === 'auto';
+}
+
+// Where attributive adjectives normally sit relative to their noun
+export const ADJECTIVE_POSITION: Record<string, 'pre' | 'post'> = {
+  'en': 'pre',
+  'de': 'pre',
+  'ru': 'pre',
+  'zh': 'pre',
+  'es': 'post',
+  'fr': 'post',
+  'it': 'post',
+  'pt': 'post'
+};
+
+// Languages written without spaces between words
+export const UNSPACED_LANGUAGES = new Set(['zh']);
+
+// Resolve a language name (or an ISO code) to its ISO 639-1 code
+export function getLanguageCode(language: string): string {
+  if (LANGUAGE_CODES[language]) {
+    return LANGUAGE_CODES[language];
+  }
+  
+  const lower = language.toLowerCase();
+  const match = Object.entries(LANGUAGE_CODES)
+    .find(([name, code]) => name.toLowerCase() === lower || code === lower);
+  
+  return match ? match[1] : '';
+}
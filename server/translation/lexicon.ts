@@ -0,0 +1,162 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { isFileNotFound } from '../utils/errors';
+
+// A single dictionary or phrase-table entry
+export type LexiconEntry = {
+  target: string;
+  pos?: string;
+};
+
+// Bilingual lexicon for one translation direction, keyed by normalised source phrase
+export type Lexicon = {
+  source: string;
+  target: string;
+  entries: Map<string, LexiconEntry>;
+  // Longest source phrase in tokens, bounds the longest-match search
+  maxPhraseTokens: number;
+};
+
+// Directory holding <src>-<tgt>.tsv dictionaries and <src>-<tgt>.phrases.json phrase tables;
+// domains/<domain>/ holds files in the same format that override the general entries
+const LEXICON_DIR = process.env.LEXICON_DIR || path.join(import.meta.dirname, '../data/lexicons');
+
+const lexiconCache = new Map<string, Promise<Lexicon | null>>();
+
+// Normalise a source phrase into a lookup key
+export function normalizeKey(phrase: string): string {
+  return phrase.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+const WORD_TOKEN = new RegExp(String.raw`\p{Script=Han}|[\p{L}\p{M}\d]+(?:['’][\p{L}\p{M}]+)*`, 'gu');
+
+// Count word tokens in a phrase (each Han character counts as one token)
+export function countWordTokens(phrase: string): number {
+  return (phrase.match(WORD_TOKEN) || []).length;
+}
+
+async function readOptional(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if (isFileNotFound(error)) return null;
+    throw error;
+  }
+}
+
+// Parse a TSV dictionary: source<TAB>target<TAB>pos, '#' starts a comment line
+function parseTSV(content: string, entries: Map<string, LexiconEntry>): void {
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim() || line.startsWith('#')) continue;
+    
+    const [source, target = '', pos] = line.split('\t');
+    if (!source.trim()) continue;
+    
+    entries.set(normalizeKey(source), { target: target.trim(), pos: pos?.trim() || undefined });
+  }
+}
+
+// Parse a JSON phrase table: { "source phrase": "target" | { target, pos } }
+function parsePhraseTable(content: string, entries: Map<string, LexiconEntry>): void {
+  const table = JSON.parse(content) as Record<string, string | LexiconEntry>;
+  
+  for (const [source, value] of Object.entries(table)) {
+    const entry = typeof value === 'string' ? { target: value } : value;
+    entries.set(normalizeKey(source), { target: entry.target, pos: entry.pos });
+  }
+}
+
+// Read the files for one direction exactly as stored on disk
+async function readLexiconFiles(directory: string, source: string, target: string): Promise<Map<string, LexiconEntry> | null> {
+  const base = path.join(directory, `${source}-${target}`);
+  const [tsv, phrases] = await Promise.all([
+    readOptional(`${base}.tsv`),
+    readOptional(`${base}.phrases.json`)
+  ]);
+  
+  if (tsv === null && phrases === null) {
+    return null;
+  }
+  
+  const entries = new Map<string, LexiconEntry>();
+  if (tsv !== null) parseTSV(tsv, entries);
+  // Phrase tables are loaded last so they win over single dictionary entries
+  if (phrases !== null) parsePhraseTable(phrases, entries);
+  return entries;
+}
+
+// Invert a lexicon so an en-xx file can also serve xx-en; the first source wins on collisions
+function invertEntries(entries: Map<string, LexiconEntry>): Map<string, LexiconEntry> {
+  const inverted = new Map<string, LexiconEntry>();
+  
+  entries.forEach((entry, source) => {
+    const key = normalizeKey(entry.target);
+    if (key && !inverted.has(key)) {
+      inverted.set(key, { target: source, pos: entry.pos });
+    }
+  });
+  
+  return inverted;
+}
+
+// Entries for one direction in a directory, inverting the opposite direction if needed
+async function readDirection(directory: string, source: string, target: string): Promise<Map<string, LexiconEntry> | null> {
+  const entries = await readLexiconFiles(directory, source, target);
+  if (entries) return entries;
+  
+  const reverse = await readLexiconFiles(directory, target, source);
+  return reverse ? invertEntries(reverse) : null;
+}
+
+async function buildLexicon(source: string, target: string, domain?: string): Promise<Lexicon | null> {
+  const entries = await readDirection(LEXICON_DIR, source, target);
+  if (!entries) return null;
+  
+  if (domain) {
+    const overrides = await readDirection(path.join(LEXICON_DIR, 'domains', domain), source, target);
+    overrides?.forEach((entry, key) => entries.set(key, entry));
+  }
+  
+  let maxPhraseTokens = 1;
+  entries.forEach((_, key) => {
+    maxPhraseTokens = Math.max(maxPhraseTokens, countWordTokens(key));
+  });
+  
+  return { source, target, entries, maxPhraseTokens };
+}
+
+// Domain names map to directories, so only plain lowercase names are accepted
+export function normalizeDomain(domain?: string): string | undefined {
+  const name = domain?.trim().toLowerCase();
+  return name && /^[a-z][a-z0-9_-]*$/.test(name) && name !== 'general' ? name : undefined;
+}
+
+// Load (and cache) the lexicon for a language pair given as ISO codes,
+// with the overrides of a subject domain such as 'legal' when they exist
+export function loadLexicon(source: string, target: string, domain?: string): Promise<Lexicon | null> {
+  const domainName = normalizeDomain(domain);
+  const key = domainName ? `${source}-${target}:${domainName}` : `${source}-${target}`;
+  let lexicon = lexiconCache.get(key);
+  
+  if (!lexicon) {
+    lexicon = buildLexicon(source, target, domainName);
+    // Do not cache failures so a fixed file is picked up on the next request
+    lexicon.catch(() => lexiconCache.delete(key));
+    lexiconCache.set(key, lexicon);
+  }
+  
+  return lexicon;
+}
+
+// List the language pairs that have lexicon files on disk
+export async function listLexiconPairs(): Promise<string[]> {
+  try {
+    const files = await fs.readdir(LEXICON_DIR);
+    const pairs = files
+      .map(file => file.match(/^([a-z]{2,3}-[a-z]{2,3})\.(?:tsv|phrases\.json)$/)?.[1])
+      .filter((pair): pair is string => Boolean(pair));
+    return Array.from(new Set(pairs));
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,288 @@
+import { loadLexicon, normalizeKey, Lexicon } from './lexicon';
+import { ADJECTIVE_POSITION, UNSPACED_LANGUAGES } from './languages';
+
+type Casing = 'upper' | 'title' | 'lower';
+
+type Token = {
+  text: string;
+  isWord: boolean;
+};
+
+// A translated (or passed-through) stretch of the input
+type Unit =
+  | { kind: 'raw'; text: string }
+  | {
+      kind: 'word';
+      text: string;
+      pos?: string;
+      casing: Casing;
+      translated: boolean;
+      // Set on the first word slot of each sentence; survives reordering
+      sentenceStart: boolean;
+    };
+
+// Unicode-aware patterns are built with RegExp so they compile under the project's TS target
+const HAN = new RegExp(String.raw`\p{Script=Han}`, 'u');
+const TOKEN = new RegExp(String.raw`\p{Script=Han}|[\p{L}\p{M}]+(?:['’][\p{L}\p{M}]+)*|\d+(?:[.,]\d+)*|\s+|[\s\S]`, 'gu');
+const WORD_START = new RegExp(String.raw`^[\p{L}\p{M}]`, 'u');
+
+// Split text into words, single Han characters, numbers, whitespace runs and punctuation
+function tokenize(text: string): Token[] {
+  return (text.match(TOKEN) || []).map(token => ({
+    text: token,
+    isWord: WORD_START.test(token)
+  }));
+}
+
+function detectCasing(word: string): Casing {
+  // English "I" is capitalised everywhere, so it says nothing about the translation
+  if (word === 'I') return 'lower';
+  if (word.length > 1 && word === word.toUpperCase() && word !== word.toLowerCase()) return 'upper';
+  const first = word.charAt(0);
+  if (first !== first.toLowerCase() && first === first.toUpperCase()) return 'title';
+  return 'lower';
+}
+
+function applyCasing(text: string, casing: Casing): string {
+  if (casing === 'upper') return text.toUpperCase();
+  if (casing === 'title') return text.charAt(0).toUpperCase() + text.slice(1);
+  return text;
+}
+
+// Greedy longest-match lookup of word sequences against the lexicon
+function matchUnits(tokens: Token[], lexicon: Lexicon): Unit[] {
+  const units: Unit[] = [];
+  let atSentenceStart = true;
+  let i = 0;
+  
+  while (i < tokens.length) {
+    const token = tokens[i];
+    
+    if (!token.isWord) {
+      units.push({ kind: 'raw', text: token.text });
+      if (/^[.!?。！？]$/.test(token.text) || token.text.includes('\n')) {
+        atSentenceStart = true;
+      } else if (/^[\d⟦⟧]/.test(token.text)) {
+        // Numbers and masked spans occupy the sentence-initial slot themselves
+        atSentenceStart = false;
+      }
+      i++;
+      continue;
+    }
+    
+    // Collect up to maxPhraseTokens words separated only by whitespace (or adjacent Han characters)
+    const wordEnds: number[] = [i];
+    let j = i;
+    while (wordEnds.length < lexicon.maxPhraseTokens) {
+      if (tokens[j + 1]?.isWord) {
+        j += 1;
+      } else if (/^[ \t]+$/.test(tokens[j + 1]?.text || '') && tokens[j + 2]?.isWord) {
+        j += 2;
+      } else {
+        break;
+      }
+      wordEnds.push(j);
+    }
+    
+    let matched = false;
+    for (let n = wordEnds.length; n >= 1; n--) {
+      const end = wordEnds[n - 1];
+      const span = tokens.slice(i, end + 1).map(t => t.text).join('');
+      const entry = lexicon.entries.get(normalizeKey(span));
+      
+      if (entry) {
+        const casing = detectCasing(token.text);
+        units.push({
+          kind: 'word',
+          text: entry.target,
+          pos: entry.pos,
+          // Sentence-initial capitals belong to the slot, not the word
+          casing: atSentenceStart && casing === 'title' ? 'lower' : casing,
+          translated: true,
+          sentenceStart: atSentenceStart
+        });
+        i = end + 1;
+        matched = true;
+        break;
+      }
+    }
+    
+    if (!matched) {
+      // Unknown words pass through untouched
+      units.push({
+        kind: 'word',
+        text: token.text,
+        casing: 'lower',
+        translated: false,
+        sentenceStart: atSentenceStart
+      });
+      i++;
+    }
+    
+    atSentenceStart = false;
+  }
+  
+  return units;
+}
+
+function isAdjective(unit: Unit): boolean {
+  return unit.kind === 'word' && unit.pos === 'adj';
+}
+
+function isNoun(unit: Unit): boolean {
+  return unit.kind === 'word' && unit.pos === 'n';
+}
+
+// Move adjectives around their noun when source and target languages disagree on order.
+// Only word payloads move; whitespace and sentence-start slots stay where they are.
+function reorderAdjectives(units: Unit[], source: string, target: string): void {
+  const from = ADJECTIVE_POSITION[source];
+  const to = ADJECTIVE_POSITION[target];
+  if (!from || !to || from === to) return;
+  
+  // Word slot indices, with runs broken by anything other than plain spaces
+  const runs: number[][] = [[]];
+  units.forEach((unit, index) => {
+    if (unit.kind === 'word') {
+      runs[runs.length - 1].push(index);
+    } else if (!/^[ \t]+$/.test(unit.text)) {
+      runs.push([]);
+    }
+  });
+  
+  const swapPayloads = (slots: number[], order: number[]) => {
+    const payloads = order.map(index => {
+      const { sentenceStart, ...payload } = units[index] as Extract<Unit, { kind: 'word' }>;
+      return payload;
+    });
+    slots.forEach((slot, k) => {
+      const current = units[slot] as Extract<Unit, { kind: 'word' }>;
+      units[slot] = { ...payloads[k], sentenceStart: current.sentenceStart };
+    });
+  };
+  
+  for (const run of runs) {
+    let k = 0;
+    while (k < run.length) {
+      if (to === 'post') {
+        // ADJ+ NOUN -> NOUN ADJ+
+        let end = k;
+        while (end < run.length && isAdjective(units[run[end]])) end++;
+        if (end > k && end < run.length && isNoun(units[run[end]])) {
+          const slots = run.slice(k, end + 1);
+          swapPayloads(slots, [slots[slots.length - 1], ...slots.slice(0, -1)]);
+          k = end + 1;
+          continue;
+        }
+      } else if (isNoun(units[run[k]])) {
+        // NOUN ADJ+ -> ADJ+ NOUN
+        let end = k + 1;
+        while (end < run.length && isAdjective(units[run[end]])) end++;
+        if (end > k + 1) {
+          const slots = run.slice(k, end);
+          swapPayloads(slots, [...slots.slice(1), slots[0]]);
+          k = end;
+          continue;
+        }
+      }
+      k++;
+    }
+  }
+}
+
+// Join units back into text, fixing spacing for dropped words and unspaced scripts
+function renderUnits(units: Unit[], target: string): string {
+  const unspaced = UNSPACED_LANGUAGES.has(target);
+  const out: string[] = [];
+  let pendingSpace = '';
+  let previousWord: string | null = null;
+  let dropped = false;
+  let capitalizeNext = false;
+  
+  for (const unit of units) {
+    if (unit.kind === 'raw') {
+      if (/^\s+$/.test(unit.text)) {
+        // Swallow the space that followed a dropped word
+        if (dropped && (pendingSpace || out.length === 0 || /\s$/.test(out[out.length - 1]))) {
+          dropped = false;
+          continue;
+        }
+        pendingSpace += unit.text;
+      } else {
+        out.push(pendingSpace, unit.text);
+        pendingSpace = '';
+        previousWord = null;
+      }
+      dropped = false;
+      continue;
+    }
+    
+    if (unit.sentenceStart) {
+      capitalizeNext = true;
+    }
+    
+    if (!unit.text) {
+      dropped = true;
+      continue;
+    }
+    
+    let text = applyCasing(unit.text, unit.casing);
+    if (capitalizeNext) {
+      text = applyCasing(text, 'title');
+      capitalizeNext = false;
+    }
+    
+    if (previousWord !== null) {
+      const bothHan = HAN.test(previousWord.slice(-1)) && HAN.test(text.charAt(0));
+      if (pendingSpace) {
+        if (!(unspaced && bothHan) || pendingSpace.includes('\n')) {
+          out.push(pendingSpace);
+        }
+      } else if (!bothHan) {
+        // Words from unspaced source text need separating in the translation
+        out.push(' ');
+      }
+    } else {
+      out.push(pendingSpace);
+    }
+    
+    out.push(text);
+    pendingSpace = '';
+    previousWord = text;
+    dropped = false;
+  }
+  
+  out.push(pendingSpace);
+  return out.join('');
+}
+
+function translateWith(text: string, lexicon: Lexicon): string {
+  const units = matchUnits(tokenize(text), lexicon);
+  reorderAdjectives(units, lexicon.source, lexicon.target);
+  return renderUnits(units, lexicon.target);
+}
+
+// Translate text between two ISO language codes using the on-disk lexicons,
+// pivoting through English when there is no direct lexicon for the pair
+export async function translateWithLexicon(text: string, source: string, target: string, domain?: string): Promise<string> {
+  if (source === target) {
+    return text;
+  }
+  
+  const direct = await loadLexicon(source, target, domain);
+  if (direct) {
+    return translateWith(text, direct);
+  }
+  
+  if (source !== 'en' && target !== 'en') {
+    const [toEnglish, fromEnglish] = await Promise.all([
+      loadLexicon(source, 'en', domain),
+      loadLexicon('en', target, domain)
+    ]);
+    if (toEnglish && fromEnglish) {
+      return translateWith(translateWith(text, toEnglish), fromEnglish);
+    }
+  }
+  
+  throw new Error(`No lexicon available for ${source}-${target}`);
+}
@@ -0,0 +1,303 @@
+import { TranslationFormat } from '@shared/schema';
+
+// A run of translatable text. Inline markup, URLs and template placeholders
+// inside it are replaced by numbered ⟦n⟧ tokens so providers only see prose.
+export type ProtectedText = {
+  text: string;
+  tokens: string[];
+};
+
+// A document split into verbatim markup (strings) and translatable runs
+export type MarkupDocument = {
+  parts: Array<string | ProtectedText>;
+};
+
+const PLACEHOLDER_PATTERN = /⟦\s*(\d+)\s*⟧/g;
+const LETTER = new RegExp(String.raw`\p{L}`, 'u');
+
+// Spans that must survive translation in every format: URLs, e-mail addresses
+// and template placeholders such as {name}, {{name}}, ${name}, %(name)s and %s
+const INLINE_PROTECTED = [
+  String.raw`\b(?:https?|ftp):\/\/[^\s<>"'\])]*[^\s<>"'\]).,;:!?]`,
+  String.raw`\bwww\.[^\s<>"'\])]*[^\s<>"'\]).,;:!?]`,
+  String.raw`[\w.+-]+@[\w-]+(?:\.[\w-]+)+`,
+  String.raw`\{\{[^{}]*\}\}`,
+  String.raw`\$?\{[\w.:-]+\}`,
+  String.raw`%\([\w]+\)[sd]`,
+  String.raw`%[sd]`
+];
+
+// Markdown inline constructs: code spans, autolinks, inline HTML, images and links.
+// Link and image text stays translatable; the brackets and destination are protected.
+const MARKDOWN_INLINE = new RegExp([
+  String.raw`(?<code>(?<ticks>\x60+)[\s\S]*?\k<ticks>)`,
+  String.raw`(?<autolink><(?:https?:\/\/|mailto:)[^>\s]+>)`,
+  String.raw`(?<html><\/?[A-Za-z][^<>]*>)`,
+  String.raw`(?<link>(?<open>!?\[)(?<label>[^\[\]]*)(?<close>\]\([^()\s]*(?:\s+"[^"]*")?\)|\]\[[^\]]*\]))`,
+  String.raw`(?<escape>\\[\\\x60*_{}\[\]()#+\-.!|<>])`,
+  ...INLINE_PROTECTED
+].join('|'), 'g');
+
+// Markdown lines that carry no prose at all
+const MARKDOWN_VERBATIM_LINE = [
+  /^\s*(?:[-*_]\s*){3,}$/, // horizontal rule
+  /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/, // table delimiter row
+  /^\s{0,3}\[[^\]]+\]:\s+\S+/, // link reference definition
+  /^\s*<!--.*-->\s*$/ // single-line comment
+];
+
+// Structural prefix of a Markdown line: indentation, quotes, list markers, task boxes and headings
+const MARKDOWN_PREFIX = /^(\s*(?:>\s?)*\s*(?:(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?)?(?:#{1,6}\s+)?)/;
+const MARKDOWN_FENCE = /^\s{0,3}(\x60{3,}|~{3,})/;
+
+// HTML elements whose content is never translated
+const HTML_VERBATIM = new RegExp(String.raw`<(script|style|pre|code|textarea|svg|math)\b[^>]*>[\s\S]*?<\/\1\s*>`, 'iy');
+const HTML_COMMENT = new RegExp(String.raw`<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\?[\s\S]*?\?>`, 'y');
+const HTML_TAG = new RegExp(String.raw`<\/?([A-Za-z][\w:-]*)(?:\s+[^\s"'>\/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>\x60]+))?)*\s*\/?>`, 'y');
+const HTML_ENTITY = String.raw`&(?:#\d+|#x[\da-fA-F]+|[A-Za-z][A-Za-z\d]*);`;
+
+// Inline elements are kept inside the surrounding sentence as protected tokens;
+// every other tag ends the current run of text
+const HTML_INLINE_ELEMENTS = new Set([
+  'a', 'abbr', 'b', 'bdi', 'bdo', 'br', 'cite', 'data', 'dfn', 'em', 'font', 'i', 'img', 'kbd',
+  'mark', 'q', 's', 'samp', 'small', 'span', 'strong', 'sub', 'sup', 'time', 'u', 'var', 'wbr'
+]);
+
+const HTML_INLINE_PROTECTED = new RegExp([HTML_ENTITY, ...INLINE_PROTECTED].join('|'), 'g');
+const PLAIN_PROTECTED = new RegExp(INLINE_PROTECTED.join('|'), 'g');
+
+// Split a document into verbatim markup and protected runs of translatable text
+export function parseMarkup(text: string, format: TranslationFormat = 'plain'): MarkupDocument {
+  const builder = new DocumentBuilder();
+
+  switch (format) {
+    case 'markdown':
+      parseMarkdown(text, builder);
+      break;
+    case 'html':
+      parseHtml(text, builder);
+      break;
+    default:
+      builder.addText(text, PLAIN_PROTECTED);
+  }
+
+  return { parts: builder.parts };
+}
+
+// Translatable runs of the document, in order
+export function translatableRuns(document: MarkupDocument): ProtectedText[] {
+  return document.parts.filter((part): part is ProtectedText => typeof part !== 'string');
+}
+
+// Put protected spans back into a translated run. Tokens the provider dropped are
+// appended so tags stay balanced and no URL or placeholder is lost.
+export function restoreMarkup(translated: string, run: ProtectedText, appendMissing: boolean = true): string {
+  if (run.tokens.length === 0) {
+    return translated;
+  }
+
+  const seen = new Set<number>();
+  let restored = translated.replace(PLACEHOLDER_PATTERN, (placeholder, index) => {
+    const token = run.tokens[Number(index)];
+    if (token === undefined) return placeholder;
+    seen.add(Number(index));
+    return token;
+  });
+
+  if (appendMissing && seen.size < run.tokens.length) {
+    const missing = run.tokens.filter((_, index) => !seen.has(index));
+    console.warn(`Translation provider dropped ${missing.length} markup placeholder(s)`);
+    restored += missing.join('');
+  }
+
+  return restored;
+}
+
+// The words of a run without its protected spans, for comparisons that should
+// only see what the provider translated
+export function stripPlaceholders(text: string): string {
+  return text.replace(PLACEHOLDER_PATTERN, ' ').replace(/\s+/g, ' ').trim();
+}
+
+// Join texts into one, each behind its numbered token, so a provider can
+// translate them all in a single call
+export function joinNumbered(texts: string[]): string {
+  return texts.map((text, i) => `⟦${i}⟧ ${text}`).join('\n');
+}
+
+// Split a translation of joinNumbered text back into its texts; undefined when
+// the provider lost or reordered a token
+export function splitNumbered(translated: string, count: number): string[] | undefined {
+  const markers = Array.from(translated.matchAll(PLACEHOLDER_PATTERN));
+  if (markers.length !== count || markers.some((marker, i) => Number(marker[1]) !== i)) {
+    return undefined;
+  }
+  return markers.map((marker, i) => {
+    const start = (marker.index ?? 0) + marker[0].length;
+    const end = i + 1 < markers.length ? markers[i + 1].index : translated.length;
+    return translated.slice(start, end).trim();
+  });
+}
+
+// Rebuild the document with one translation per translatable run
+export function renderMarkup(document: MarkupDocument, translations: string[]): string {
+  let next = 0;
+  return document.parts
+    .map(part => typeof part === 'string' ? part : restoreMarkup(translations[next++], part))
+    .join('');
+}
+
+// Collects parts, merging adjacent verbatim strings and keeping the whitespace
+// around each run out of the provider's hands
+class DocumentBuilder {
+  parts: Array<string | ProtectedText> = [];
+
+  addVerbatim(text: string): void {
+    if (!text) return;
+    const last = this.parts[this.parts.length - 1];
+    if (typeof last === 'string') {
+      this.parts[this.parts.length - 1] = last + text;
+    } else {
+      this.parts.push(text);
+    }
+  }
+
+  // Add text whose protected spans are found with the given global pattern
+  addText(text: string, protect: RegExp): void {
+    this.addRun(protectSpans(text, protect));
+  }
+
+  // Add an already protected run; runs without any letters are kept verbatim
+  addRun(run: ProtectedText): void {
+    const leading = run.text.match(/^\s*/)![0];
+    const trailing = run.text.slice(leading.length).match(/\s*$/)![0];
+    const core = run.text.slice(leading.length, run.text.length - trailing.length);
+
+    this.addVerbatim(leading);
+    if (LETTER.test(core.replace(PLACEHOLDER_PATTERN, ''))) {
+      this.parts.push({ text: core, tokens: run.tokens });
+    } else {
+      this.addVerbatim(restoreMarkup(core, run, false));
+    }
+    this.addVerbatim(trailing);
+  }
+}
+
+function protectSpans(text: string, protect: RegExp): ProtectedText {
+  const tokens: string[] = [];
+  const masked = text.replace(protect, match => `⟦${tokens.push(match) - 1}⟧`);
+  return { text: masked, tokens };
+}
+
+function parseMarkdown(text: string, builder: DocumentBuilder): void {
+  const lines = text.split(/(?<=\n)/);
+  let fence: string | null = null;
+  let previousBlank = true;
+
+  for (const line of lines) {
+    const content = line.replace(/\r?\n$/, '');
+    const newline = line.slice(content.length);
+
+    // Fenced code blocks are copied until the matching closing fence
+    const fenceMatch = content.match(MARKDOWN_FENCE);
+    if (fence) {
+      builder.addVerbatim(line);
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null;
+      }
+      continue;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      builder.addVerbatim(line);
+      continue;
+    }
+
+    const blank = content.trim().length === 0;
+    const indentedCode: boolean = previousBlank && /^(?: {4}|\t)/.test(content);
+    if (blank || indentedCode || MARKDOWN_VERBATIM_LINE.some(pattern => pattern.test(content))) {
+      builder.addVerbatim(line);
+      previousBlank = blank || (indentedCode && previousBlank);
+      continue;
+    }
+    previousBlank = false;
+
+    const prefix = content.match(MARKDOWN_PREFIX)![1];
+    builder.addVerbatim(prefix);
+
+    // Table rows are translated cell by cell
+    const body = content.slice(prefix.length);
+    if (/^\|.*\|\s*$/.test(body)) {
+      body.split(/(\|)/).forEach(cell => cell === '|' ? builder.addVerbatim(cell) : builder.addRun(protectMarkdownInline(cell)));
+    } else {
+      builder.addRun(protectMarkdownInline(body));
+    }
+    builder.addVerbatim(newline);
+  }
+}
+
+function protectMarkdownInline(text: string): ProtectedText {
+  const tokens: string[] = [];
+  const token = (value: string) => `⟦${tokens.push(value) - 1}⟧`;
+
+  const masked = text.replace(MARKDOWN_INLINE, (match, ...args) => {
+    const groups = args[args.length - 1] as Record<string, string | undefined>;
+    if (groups.link !== undefined) {
+      // Keep the visible link text translatable between protected brackets
+      return `${token(groups.open!)}${groups.label}${token(groups.close!)}`;
+    }
+    return token(match);
+  });
+
+  return { text: masked, tokens };
+}
+
+function parseHtml(text: string, builder: DocumentBuilder): void {
+  let run: ProtectedText = { text: '', tokens: [] };
+  let position = 0;
+
+  const flush = () => {
+    builder.addRun(run);
+    run = { text: '', tokens: [] };
+  };
+  const appendText = (value: string) => {
+    const protectedValue = protectSpans(value, HTML_INLINE_PROTECTED);
+    run.text += protectedValue.text.replace(PLACEHOLDER_PATTERN, (_, index) => `⟦${run.tokens.length + Number(index)}⟧`);
+    run.tokens.push(...protectedValue.tokens);
+  };
+
+  while (position < text.length) {
+    const verbatim = matchAt(HTML_VERBATIM, text, position) ?? matchAt(HTML_COMMENT, text, position);
+    if (verbatim) {
+      flush();
+      builder.addVerbatim(verbatim[0]);
+      position += verbatim[0].length;
+      continue;
+    }
+
+    const tag = matchAt(HTML_TAG, text, position);
+    if (tag) {
+      if (HTML_INLINE_ELEMENTS.has(tag[1].toLowerCase())) {
+        run.text += `⟦${run.tokens.push(tag[0]) - 1}⟧`;
+      } else {
+        flush();
+        builder.addVerbatim(tag[0]);
+      }
+      position += tag[0].length;
+      continue;
+    }
+
+    // Text up to the next tag-like character; a stray "<" is treated as text
+    const nextTag = text.indexOf('<', position + 1);
+    const end = nextTag === -1 ? text.length : nextTag;
+    appendText(text.slice(position, end));
+    position = end;
+  }
+
+  flush();
+}
+
+function matchAt(pattern: RegExp, text: string, position: number): RegExpExecArray | null {
+  pattern.lastIndex = position;
+  return pattern.exec(text);
+}
@@ -0,0 +1,149 @@
+import { createHash } from 'crypto';
+import { TranslationMemoryEntry, InsertTranslationMemoryEntry, GlossaryEntry } from '@shared/schema';
+import { escapeRegExp } from './glossary';
+
+// Similarity percentage below which a memory entry is not worth reporting
+export const DEFAULT_FUZZY_THRESHOLD = 75;
+// Fuzzy candidates compared per segment; the most used entries are tried first
+export const MEMORY_CANDIDATE_LIMIT = 200;
+
+// The memory entries worth comparing with one segment: its exact match, and
+// entries whose length allows a similarity at or above the threshold
+export type TranslationMemoryQuery = {
+  sourceLanguage: string;
+  targetLanguage: string;
+  scope: string;
+  segment: string;
+  minLength: number;
+  maxLength: number;
+  limit: number;
+};
+
+// Persistence the translation pipeline needs; implemented by the app's storage
+export interface TranslationMemoryStore {
+  getTranslationMemory(query: TranslationMemoryQuery): Promise<TranslationMemoryEntry[]>;
+  saveTranslationMemory(entries: InsertTranslationMemoryEntry[]): Promise<void>;
+  recordTranslationMemoryUse(ids: number[]): Promise<void>;
+}
+
+// A stored translation can only stand in for a new one made for the same user
+// by the same provider with the same domain terminology and glossary.
+// Glossaries are told apart by their entries, so a changed glossary starts a
+// fresh scope.
+export function translationMemoryScope(
+  userId: number,
+  provider: string,
+  domain: string | undefined,
+  glossary: GlossaryEntry[]
+): string {
+  const terms = glossary
+    .map(entry => [entry.sourceTerm, entry.translation ?? '', entry.keepAsIs, entry.caseSensitive].join('\t'))
+    .sort();
+  const fingerprint = terms.length > 0
+    ? createHash('sha256').update(terms.join('\n')).digest('hex').slice(0, 16)
+    : 'none';
+  return `user:${userId}:${provider}:${domain?.toLowerCase() || 'general'}:${fingerprint}`;
+}
+
+// Only entries within these lengths can reach the threshold, as the length
+// ratio bounds the similarity
+export function candidateLengths(key: string, threshold: number): { minLength: number; maxLength: number } {
+  const ratio = Math.max(threshold, 1) / 100;
+  return { minLength: Math.ceil(key.length * ratio), maxLength: Math.floor(key.length / ratio) };
+}
+
+export type MemoryMatch = {
+  entry: TranslationMemoryEntry;
+  // 100 for an exact match
+  score: number;
+};
+
+// Where a sentence sits in the original text, so the layout between sentences survives
+export type SegmentSpan = {
+  text: string;
+  start: number;
+  end: number;
+};
+
+// Memory keys ignore differences in spacing and line wrapping
+export function normalizeSegment(segment: string): string {
+  return segment.trim().replace(/\s+/g, ' ');
+}
+
+// Locate each sentence in the text in order. The sentence splitter may adjust
+// whitespace, so sentences are matched with flexible spacing; a sentence that
+// cannot be found is dropped and left untouched in the surrounding text.
+export function locateSegments(text: string, sentences: string[]): SegmentSpan[] {
+  const spans: SegmentSpan[] = [];
+  let cursor = 0;
+
+  for (const sentence of sentences) {
+    const words = sentence.trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0) continue;
+
+    const pattern = new RegExp(words.map(escapeRegExp).join('\\s+'), 'g');
+    pattern.lastIndex = cursor;
+    const match = pattern.exec(text);
+    if (!match) continue;
+
+    spans.push({ text: match[0], start: match.index, end: match.index + match[0].length });
+    cursor = match.index + match[0].length;
+  }
+
+  return spans;
+}
+
+// Levenshtein distance over characters, keeping only two rows in memory
+function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  let current = new Array<number>(b.length + 1);
+
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    [previous, current] = [current, previous];
+  }
+
+  return previous[b.length];
+}
+
+// Similarity as a percentage: 100 minus the edit distance relative to the longer segment
+export function segmentSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 100;
+  return Math.round((1 - editDistance(a, b) / longest) * 1000) / 10;
+}
+
+// Best memory entry for a segment at or above the threshold
+export function findMemoryMatch(
+  segment: string,
+  entries: TranslationMemoryEntry[],
+  threshold: number = DEFAULT_FUZZY_THRESHOLD
+): MemoryMatch | undefined {
+  const key = normalizeSegment(segment);
+  let best: MemoryMatch | undefined;
+
+  for (const entry of entries) {
+    if (entry.sourceSegment === key) {
+      return { entry, score: 100 };
+    }
+
+    // The length ratio bounds the similarity, which skips most of the memory cheaply
+    const lengthRatio = Math.min(key.length, entry.sourceSegment.length) / Math.max(key.length, entry.sourceSegment.length);
+    if (lengthRatio * 100 < threshold || (best && lengthRatio * 100 <= best.score)) continue;
+
+    const score = segmentSimilarity(key, entry.sourceSegment);
+    if (score >= threshold && (!best || score > best.score)) {
+      best = { entry, score };
+    }
+  }
+
+  return best;
+}
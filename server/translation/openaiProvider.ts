@@ -0,0 +1,67 @@
+import OpenAI from 'openai';
+import { TranslationRequest } from '@shared/schema';
+import { TranslationProvider, ProviderTranslation } from './providers';
+
+// Any OpenAI-compatible chat-completions endpoint can be used by setting
+// OPENAI_BASE_URL (e.g. a local stub server or a self-hosted gateway)
+function createClient(): OpenAI {
+  return new OpenAI({
+    apiKey: process.env.OPENAI_API_KEY || 'not-needed',
+    baseURL: process.env.OPENAI_BASE_URL || undefined,
+    timeout: 60 * 1000,
+    maxRetries: 1
+  });
+}
+
+let client: OpenAI | null = null;
+
+// Build the system prompt describing the translation task
+function buildPrompt(request: TranslationRequest): string {
+  let prompt = `You are a professional translator. Translate the user's text from ${request.sourceLanguage} to ${request.targetLanguage}.`;
+  
+  if (request.formality && request.formality !== 'Neutral') {
+    prompt += ` Use a ${request.formality.toLowerCase()} register.`;
+  }
+  if (request.domain && request.domain !== 'General') {
+    prompt += ` The text belongs to the ${request.domain.toLowerCase()} domain; use its standard terminology.`;
+  }
+  
+  if (/⟦\d+⟧/.test(request.text)) {
+    prompt += ' Tokens such as ⟦0⟧ stand for protected terms or markup: copy them unchanged to the matching position.';
+  }
+  
+  prompt += ' Preserve line breaks and formatting. Reply with the translation only, without any commentary.';
+  return prompt;
+}
+
+// Translation through an OpenAI-compatible chat-completions API
+export const openaiProvider: TranslationProvider = {
+  name: 'openai',
+  description: 'OpenAI-compatible chat-completions model',
+  
+  isAvailable() {
+    return Boolean(process.env.OPENAI_API_KEY || process.env.OPENAI_BASE_URL);
+  },
+  
+  async translate(request: TranslationRequest): Promise<ProviderTranslation> {
+    if (!client) {
+      client = createClient();
+    }
+    
+    const completion = await client.chat.completions.create({
+      model: process.env.OPENAI_TRANSLATION_MODEL || process.env.OPENAI_MODEL || 'gpt-4o-mini',
+      temperature: 0.2,
+      messages: [
+        { role: 'system', content: buildPrompt(request) },
+        { role: 'user', content: request.text }
+      ]
+    });
+    
+    const translatedText = completion.choices[0]?.message?.content?.trim();
+    if (!translatedText) {
+      throw new Error('OpenAI provider returned an empty translation');
+    }
+    
+    return { translatedText };
+  }
+};
@@ -0,0 +1,69 @@
+import { TranslationRequest, TranslationProviderInfo } from '@shared/schema';
+
+// Result returned by a translation backend
+export type ProviderTranslation = {
+  translatedText: string;
+};
+
+// A translation backend that can be selected per request or from configuration
+export interface TranslationProvider {
+  name: string;
+  description: string;
+  // Whether the provider is configured well enough to be used
+  isAvailable(): boolean;
+  translate(request: TranslationRequest): Promise<ProviderTranslation>;
+}
+
+const providers = new Map<string, TranslationProvider>();
+
+// Register a provider under its name, replacing any provider with the same name
+export function registerTranslationProvider(provider: TranslationProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export function getTranslationProvider(name: string): TranslationProvider | undefined {
+  return providers.get(name);
+}
+
+export function listTranslationProviders(): TranslationProviderInfo[] {
+  return Array.from(providers.values()).map(provider => ({
+    name: provider.name,
+    description: provider.description,
+    available: provider.isAvailable()
+  }));
+}
+
+// Pick the provider for a request: explicit choice first, then the
+// TRANSLATION_PROVIDER setting, then OpenAI when a key is set, then the dictionary
+export function resolveTranslationProvider(requested?: string): TranslationProvider {
+  if (requested) {
+    const provider = providers.get(requested);
+    if (!provider) {
+      throw new Error(`Unknown translation provider: ${requested}`);
+    }
+    if (!provider.isAvailable()) {
+      throw new Error(`Translation provider "${requested}" is not configured`);
+    }
+    return provider;
+  }
+  
+  const configured = process.env.TRANSLATION_PROVIDER;
+  if (configured) {
+    const provider = providers.get(configured);
+    if (provider && provider.isAvailable()) {
+      return provider;
+    }
+    console.warn(`Configured translation provider "${configured}" is unavailable, falling back`);
+  }
+  
+  const openai = providers.get('openai');
+  if (openai && openai.isAvailable()) {
+    return openai;
+  }
+  
+  const dictionary = providers.get('dictionary');
+  if (!dictionary) {
+    throw new Error('No translation provider is registered');
+  }
+  return dictionary;
+}
@@ -0,0 +1,143 @@
+import { TranslationQualityMetrics } from '@shared/schema';
+
+// Round-trip quality estimation: the translation is translated back into the
+// source language and compared with the original. Scores are 0-100.
+
+// Segments scoring below this are reported for review
+export const LOW_CONFIDENCE_THRESHOLD = 50;
+
+const WORD = new RegExp(String.raw`\p{Script=Han}|[\p{L}\p{M}]+(?:['’][\p{L}\p{M}]+)*|\p{N}+`, 'gu');
+const LETTERS = new RegExp(String.raw`^\p{L}{3,}$`, 'u');
+
+// URLs, e-mail addresses and template placeholders are copied on purpose and say nothing about quality
+const PROTECTED_SPANS = /\b(?:https?|ftp):\/\/\S+|\bwww\.\S+|[\w.+-]+@[\w-]+(?:\.[\w-]+)+|\{\{[^{}]*\}\}|\$?\{[\w.:-]+\}|%\(\w+\)[sd]|%[sd]|⟦\s*\d+\s*⟧/g;
+
+function stripProtected(text: string): string {
+  return text.replace(PROTECTED_SPANS, ' ');
+}
+
+function tokenize(text: string): string[] {
+  return (stripProtected(text).toLowerCase().match(WORD) || []);
+}
+
+function countNgrams(items: string[], n: number): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i + n <= items.length; i++) {
+    const gram = items.slice(i, i + n).join('\u0001');
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+  return counts;
+}
+
+// Clipped count of n-grams shared by the two multisets
+function overlapCount(a: Map<string, number>, b: Map<string, number>): number {
+  let shared = 0;
+  a.forEach((count, gram) => {
+    shared += Math.min(count, b.get(gram) || 0);
+  });
+  return shared;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+export function tokenOverlap(reference: string, candidate: string): number {
+  const ref = tokenize(reference);
+  const hyp = tokenize(candidate);
+  if (ref.length === 0 || hyp.length === 0) return ref.length === hyp.length ? 100 : 0;
+
+  const shared = overlapCount(countNgrams(ref, 1), countNgrams(hyp, 1));
+  return round((2 * shared / (ref.length + hyp.length)) * 100);
+}
+
+// Sentence-level BLEU with add-one smoothing for n > 1 so short segments are not zeroed
+export function sentenceBleu(reference: string, candidate: string, maxOrder: number = 4): number {
+  const ref = tokenize(reference);
+  const hyp = tokenize(candidate);
+  if (hyp.length === 0 || ref.length === 0) return ref.length === hyp.length ? 100 : 0;
+
+  let logPrecision = 0;
+  for (let n = 1; n <= maxOrder; n++) {
+    const hypGrams = countNgrams(hyp, n);
+    const total = Math.max(hyp.length - n + 1, 0);
+    const matches = overlapCount(hypGrams, countNgrams(ref, n));
+    const precision = n === 1
+      ? matches / total
+      : (matches + 1) / (total + 1);
+    if (precision === 0) return 0;
+    logPrecision += Math.log(precision) / maxOrder;
+  }
+
+  const brevityPenalty = hyp.length >= ref.length ? 1 : Math.exp(1 - ref.length / hyp.length);
+  return round(brevityPenalty * Math.exp(logPrecision) * 100);
+}
+
+// chrF over characters with whitespace removed, averaged across n-gram orders
+export function chrF(reference: string, candidate: string, maxOrder: number = 6, beta: number = 2): number {
+  const ref = Array.from(stripProtected(reference).toLowerCase().replace(/\s+/g, ''));
+  const hyp = Array.from(stripProtected(candidate).toLowerCase().replace(/\s+/g, ''));
+  if (ref.length === 0 || hyp.length === 0) return ref.length === hyp.length ? 100 : 0;
+
+  let precisionSum = 0;
+  let recallSum = 0;
+  let orders = 0;
+  for (let n = 1; n <= maxOrder; n++) {
+    const hypTotal = hyp.length - n + 1;
+    const refTotal = ref.length - n + 1;
+    if (hypTotal <= 0 || refTotal <= 0) break;
+
+    const matches = overlapCount(countNgrams(hyp, n), countNgrams(ref, n));
+    precisionSum += matches / hypTotal;
+    recallSum += matches / refTotal;
+    orders++;
+  }
+
+  const precision = precisionSum / orders;
+  const recall = recallSum / orders;
+  if (precision + recall === 0) return 0;
+
+  const betaSquared = beta * beta;
+  return round(((1 + betaSquared) * precision * recall / (betaSquared * precision + recall)) * 100);
+}
+
+// Share of source words (letters only, three or more) that reappear verbatim in the translation
+export function untranslatedRatio(source: string, translation: string): number {
+  const words = tokenize(source).filter(word => LETTERS.test(word));
+  if (words.length === 0) return 0;
+
+  const translated = new Set(tokenize(translation));
+  const copied = words.filter(word => translated.has(word)).length;
+  return round((copied / words.length) * 100) / 100;
+}
+
+export function roundTripMetrics(source: string, translation: string, backTranslation: string): TranslationQualityMetrics {
+  return {
+    tokenOverlap: tokenOverlap(source, backTranslation),
+    bleu: sentenceBleu(source, backTranslation),
+    chrF: chrF(source, backTranslation),
+    untranslatedRatio: untranslatedRatio(source, translation)
+  };
+}
+
+// Blend the round-trip metrics into one score. chrF carries the most weight because it
+// tolerates inflection changes; copied source words pull the score down.
+export function roundTripScore(metrics: TranslationQualityMetrics): number {
+  const agreement = 0.4 * metrics.chrF + 0.3 * metrics.tokenOverlap + 0.3 * metrics.bleu;
+  return round(agreement * (1 - 0.5 * metrics.untranslatedRatio));
+}
+
+// Why a segment deserves a reviewer's attention
+export function describeIssues(metrics: TranslationQualityMetrics, score: number): string[] {
+  const reasons: string[] = [];
+  if (score < LOW_CONFIDENCE_THRESHOLD) {
+    reasons.push('The back-translation differs substantially from the source');
+  }
+  if (metrics.untranslatedRatio >= 0.3) {
+    reasons.push(`${Math.round(metrics.untranslatedRatio * 100)}% of the source words were left untranslated`);
+  }
+  if (metrics.tokenOverlap < 30) {
+    reasons.push('Few source words survive the round trip');
+  }
+  return reasons;
+}
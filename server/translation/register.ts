@@ -0,0 +1,123 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { RegisterRuleMatch } from '@shared/schema';
+import { escapeRegExp } from './glossary';
+import { isFileNotFound } from '../utils/errors';
+
+export type Register = 'formal' | 'informal';
+
+// Rewrites a target-language form into the requested register, e.g. "tu es" -> "vous êtes"
+export type RegisterRule = {
+  from: string;
+  to: string;
+  note?: string;
+  // Needed where capitalisation carries the meaning, like German "Sie"
+  caseSensitive?: boolean;
+};
+
+type RegisterRuleSet = Partial<Record<Register, RegisterRule[]>>;
+
+// Directory holding one <code>.json rule file per target language
+const REGISTER_DIR = process.env.REGISTER_RULES_DIR || path.join(import.meta.dirname, '../data/register');
+
+const LETTER_OR_DIGIT = String.raw`[\p{L}\p{M}\p{N}]`;
+const HAN = new RegExp(String.raw`\p{Script=Han}`, 'u');
+
+const ruleCache = new Map<string, Promise<RegisterRuleSet | null>>();
+
+// Map the UI's formality option onto a register; 'Neutral' leaves the translation alone
+export function resolveRegister(formality?: string): Register | null {
+  const value = formality?.trim().toLowerCase();
+  if (value === 'formal' || value === 'informal') {
+    return value;
+  }
+  return null;
+}
+
+async function readRuleSet(language: string): Promise<RegisterRuleSet | null> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(REGISTER_DIR, `${language}.json`), 'utf-8')) as RegisterRuleSet;
+  } catch (error) {
+    if (isFileNotFound(error)) return null;
+    throw error;
+  }
+}
+
+function loadRuleSet(language: string): Promise<RegisterRuleSet | null> {
+  let rules = ruleCache.get(language);
+
+  if (!rules) {
+    rules = readRuleSet(language);
+    rules.catch(() => ruleCache.delete(language));
+    ruleCache.set(language, rules);
+  }
+
+  return rules;
+}
+
+// Match the form as whole words; Han forms have no word boundaries to check
+function rulePattern(rule: RegisterRule): string {
+  const form = escapeRegExp(rule.from).replace(/\s+/g, String.raw`\s+`);
+  if (HAN.test(rule.from)) {
+    return form;
+  }
+  return `(?<!${LETTER_OR_DIGIT})${form}(?!${LETTER_OR_DIGIT})`;
+}
+
+// Carry sentence-initial capitals and all-caps over to the replacement
+function matchCase(original: string, replacement: string): string {
+  if (original.length > 1 && original === original.toUpperCase() && original !== original.toLowerCase()) {
+    return replacement.toUpperCase();
+  }
+  if (original[0] !== original[0].toLowerCase()) {
+    return replacement[0].toUpperCase() + replacement.slice(1);
+  }
+  return replacement;
+}
+
+// Applies one register's rules to any number of texts, counting every rule that fired
+export class RegisterRewriter {
+  private readonly rules: RegisterRule[];
+  private readonly pattern: RegExp;
+  private readonly counts = new Map<RegisterRule, number>();
+
+  constructor(private readonly register: Register, rules: RegisterRule[]) {
+    // Longer forms first so "tu es" is rewritten as a unit before "tu" alone
+    this.rules = [...rules].sort((a, b) => b.from.length - a.from.length);
+    this.pattern = new RegExp(this.rules.map(rule => `(${rulePattern(rule)})`).join('|'), 'giu');
+  }
+
+  rewrite(text: string, count: boolean = true): string {
+    return text.replace(this.pattern, (match: string, ...groups: unknown[]) => {
+      const index = groups.findIndex(group => group !== undefined);
+      const rule = this.rules[index];
+      // Identity rules shield forms such as plurals from shorter rules and are not reported
+      if (rule.to === rule.from) return match;
+      if (rule.caseSensitive && match.replace(/\s+/g, ' ') !== rule.from) return match;
+
+      if (count) {
+        this.counts.set(rule, (this.counts.get(rule) || 0) + 1);
+      }
+      return rule.caseSensitive ? rule.to : matchCase(match, rule.to);
+    });
+  }
+
+  matches(): RegisterRuleMatch[] {
+    return Array.from(this.counts.entries()).map(([rule, occurrences]) => ({
+      register: this.register,
+      from: rule.from,
+      to: rule.to,
+      note: rule.note,
+      occurrences
+    }));
+  }
+}
+
+// Rewriter for a target language (ISO code) and formality, or null when nothing applies
+export async function createRegisterRewriter(language: string, formality?: string): Promise<RegisterRewriter | null> {
+  const register = resolveRegister(formality);
+  if (!register) return null;
+
+  const rules = (await loadRuleSet(language))?.[register];
+  return rules && rules.length > 0 ? new RegisterRewriter(register, rules) : null;
+}
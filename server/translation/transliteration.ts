@@ -0,0 +1,289 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { CyrillicScheme, PinyinTones, TransliterationResponse, TransliterationScript } from '@shared/schema';
+
+export type TransliterationOptions = {
+  cyrillicScheme?: CyrillicScheme;
+  pinyinTones?: PinyinTones;
+};
+
+type PinyinTable = {
+  characters: Map<string, string>;
+  // Readings per character for words that are not read character by character
+  words: Map<string, string[]>;
+  maxWordLength: number;
+};
+
+// Directory holding pinyin.tsv (one reading per Hanzi) and pinyin-words.tsv (words with context-dependent readings)
+const TRANSLITERATION_DIR = process.env.TRANSLITERATION_DIR || path.join(import.meta.dirname, '../data/transliteration');
+
+// ISO 9:1995 for the Russian, Ukrainian, Belarusian, Bulgarian, Serbian and Macedonian alphabets
+const ISO9: Record<string, string> = {
+  'а': 'a', 'б': 'b', 'в': 'v', 'г': 'g', 'ґ': 'g̀', 'д': 'd', 'ђ': 'đ', 'ѓ': 'ǵ', 'е': 'e', 'ё': 'ë', 'є': 'ê',
+  'ж': 'ž', 'з': 'z', 'ѕ': 'ẑ', 'и': 'i', 'і': 'ì', 'ї': 'ï', 'й': 'j', 'ј': 'ǰ', 'к': 'k', 'ќ': 'ḱ', 'л': 'l',
+  'љ': 'l̂', 'м': 'm', 'н': 'n', 'њ': 'n̂', 'о': 'o', 'п': 'p', 'р': 'r', 'с': 's', 'т': 't', 'ћ': 'ć', 'у': 'u',
+  'ў': 'ŭ', 'ф': 'f', 'х': 'h', 'ц': 'c', 'ч': 'č', 'џ': 'd̂', 'ш': 'š', 'щ': 'ŝ', 'ъ': 'ʺ', 'ы': 'y', 'ь': 'ʹ',
+  'э': 'è', 'ю': 'û', 'я': 'â'
+};
+
+// BGN/PCGN 1947 for Russian; letters of the other alphabets fall back to ISO 9
+const BGN: Record<string, string> = {
+  'а': 'a', 'б': 'b', 'в': 'v', 'г': 'g', 'д': 'd', 'е': 'e', 'ё': 'ë', 'ж': 'zh', 'з': 'z', 'и': 'i', 'й': 'y',
+  'к': 'k', 'л': 'l', 'м': 'm', 'н': 'n', 'о': 'o', 'п': 'p', 'р': 'r', 'с': 's', 'т': 't', 'у': 'u', 'ф': 'f',
+  'х': 'kh', 'ц': 'ts', 'ч': 'ch', 'ш': 'sh', 'щ': 'shch', 'ъ': 'ʺ', 'ы': 'y', 'ь': 'ʹ', 'э': 'e', 'ю': 'yu', 'я': 'ya'
+};
+
+// After these, BGN/PCGN writes е and ё as ye and yë
+const BGN_IOTATING = new Set(['а', 'е', 'ё', 'и', 'о', 'у', 'ы', 'э', 'ю', 'я', 'й', 'ъ', 'ь']);
+
+// Letter pairs that BGN/PCGN separates with a middle dot so they are not read as one digraph
+const BGN_SEPARATED = new Set(['тс', 'хс', 'цс', 'шс', 'шч', 'йа', 'йу', 'йы', 'йэ', 'ыа', 'ыу', 'ыы', 'ыэ']);
+
+// ELOT 743 / ISO 843 transcription of modern Greek
+const GREEK: Record<string, string> = {
+  'α': 'a', 'β': 'v', 'γ': 'g', 'δ': 'd', 'ε': 'e', 'ζ': 'z', 'η': 'i', 'θ': 'th', 'ι': 'i', 'κ': 'k', 'λ': 'l',
+  'μ': 'm', 'ν': 'n', 'ξ': 'x', 'ο': 'o', 'π': 'p', 'ρ': 'r', 'σ': 's', 'ς': 's', 'τ': 't', 'υ': 'y', 'φ': 'f',
+  'χ': 'ch', 'ψ': 'ps', 'ω': 'o'
+};
+
+// Consonant clusters written differently at the start of a word
+const GREEK_CLUSTERS: Record<string, [string, string]> = {
+  'μπ': ['b', 'mp'],
+  'ντ': ['d', 'nt'],
+  'γκ': ['g', 'gk'],
+  'γγ': ['ng', 'ng'],
+  'γξ': ['nx', 'nx'],
+  'γχ': ['nch', 'nch']
+};
+
+// αυ, ευ and ηυ are read av/ev/iv before vowels and voiced consonants, af/ef/if otherwise
+const GREEK_VOICED = new Set(['α', 'ε', 'η', 'ι', 'ο', 'υ', 'ω', 'β', 'γ', 'δ', 'ζ', 'λ', 'μ', 'ν', 'ρ']);
+
+// Full-width Chinese punctuation and the ASCII used in romanised text
+const CJK_CLOSING: Record<string, string> = {
+  '，': ',', '、': ',', '。': '.', '！': '!', '？': '?', '：': ':', '；': ';', '）': ')', '”': '"', '’': "'",
+  '》': '"', '」': '"', '』': '"', '…': '…'
+};
+const CJK_OPENING: Record<string, string> = {
+  '（': '(', '“': '"', '‘': "'", '《': '"', '「': '"', '『': '"'
+};
+
+const SCRIPT_RUN = new RegExp(String.raw`(\p{Script=Cyrillic}+)|(\p{Script=Greek}[\p{Script=Greek}\p{M}]*)|(\p{Script=Han}+)`, 'gu');
+const CJK_PUNCTUATION = new RegExp(`[${Object.keys(CJK_CLOSING).join('')}${Object.keys(CJK_OPENING).join('')}　]`, 'g');
+const WORD_CHARACTER = new RegExp(String.raw`[\p{L}\p{N}]`, 'u');
+const HAN = new RegExp(String.raw`\p{Script=Han}`, 'u');
+const COMBINING_MARK = new RegExp(String.raw`\p{M}`, 'u');
+const TONE_MARKS: Record<string, number> = { '̄': 1, '́': 2, '̌': 3, '̀': 4 };
+
+let pinyinTable: Promise<PinyinTable> | null = null;
+
+// Romanise the Cyrillic, Greek and Han text in a string; everything else is copied
+export async function transliterate(text: string, options: TransliterationOptions = {}): Promise<TransliterationResponse> {
+  const source = text.normalize('NFC');
+  const scripts = new Set<TransliterationScript>();
+  const unknown = new Set<string>();
+  const table = HAN.test(source) ? await loadPinyinTable() : null;
+
+  let transliterated = source.replace(SCRIPT_RUN, (match, cyrillic, greek, han, offset: number) => {
+    if (cyrillic) {
+      scripts.add('cyrillic');
+      return romanizeCyrillic(cyrillic, options.cyrillicScheme ?? 'bgn');
+    }
+    if (greek) {
+      scripts.add('greek');
+      return romanizeGreek(greek);
+    }
+
+    scripts.add('han');
+    const pinyin = romanizeHan(han, table!, options.pinyinTones ?? 'marks', unknown);
+    // Keep romanised syllables apart from neighbouring Latin words and numbers
+    const before = isWordCharacter(source[offset - 1]) ? ' ' : '';
+    const after = isWordCharacter(source[offset + match.length]) ? ' ' : '';
+    return before + pinyin + after;
+  });
+
+  if (scripts.has('han')) {
+    transliterated = replaceCjkPunctuation(transliterated);
+  }
+
+  return {
+    transliteratedText: transliterated,
+    scripts: Array.from(scripts),
+    unknownCharacters: unknown.size > 0 ? Array.from(unknown) : undefined
+  };
+}
+
+function isWordCharacter(char: string | undefined): boolean {
+  return char !== undefined && WORD_CHARACTER.test(char);
+}
+
+function isUpperCase(char: string | undefined): boolean {
+  return char !== undefined && char !== char.toLowerCase();
+}
+
+// Carry the case of a source letter onto its romanisation; multi-letter
+// romanisations are capitalised in full inside all-caps words ("ЩИ" -> "SHCHI")
+function matchLetterCase(letter: string, roman: string, wordIsUpper: boolean): string {
+  if (!isUpperCase(letter) || !roman) return roman;
+  if (wordIsUpper) return roman.toUpperCase();
+  return roman[0].toUpperCase() + roman.slice(1);
+}
+
+function isAllCaps(letters: string[]): boolean {
+  return letters.length > 1 && letters.every(letter => isUpperCase(letter) || letter === letter.toUpperCase());
+}
+
+function romanizeCyrillic(word: string, scheme: CyrillicScheme): string {
+  const letters = Array.from(word);
+  const lower = letters.map(letter => letter.toLowerCase());
+  const upper = isAllCaps(letters);
+
+  return letters.map((letter, i) => {
+    let roman = ISO9[lower[i]] ?? letter;
+
+    if (scheme === 'bgn') {
+      roman = BGN[lower[i]] ?? roman;
+      if ((lower[i] === 'е' || lower[i] === 'ё') && (i === 0 || BGN_IOTATING.has(lower[i - 1]))) {
+        roman = 'y' + roman;
+      }
+      if (i > 0 && BGN_SEPARATED.has(lower[i - 1] + lower[i])) {
+        roman = '·' + roman;
+      }
+    }
+
+    return matchLetterCase(letter, roman, upper);
+  }).join('');
+}
+
+function romanizeGreek(word: string): string {
+  // Split off accents; a diaeresis keeps a vowel out of a digraph
+  const letters: Array<{ char: string; lower: string; diaeresis: boolean }> = [];
+  for (const char of Array.from(word.normalize('NFD'))) {
+    if (COMBINING_MARK.test(char)) {
+      if (char === '̈' && letters.length > 0) letters[letters.length - 1].diaeresis = true;
+      continue;
+    }
+    letters.push({ char, lower: char.toLowerCase(), diaeresis: false });
+  }
+
+  const upper = isAllCaps(letters.map(letter => letter.char));
+  const parts: string[] = [];
+
+  for (let i = 0; i < letters.length; i++) {
+    const { char, lower } = letters[i];
+    const next = letters[i + 1];
+    let roman = GREEK[lower] ?? char;
+
+    if (next && !next.diaeresis && next.lower === 'υ' && (lower === 'α' || lower === 'ε' || lower === 'η')) {
+      const following = letters[i + 2];
+      roman = GREEK[lower] + (following && GREEK_VOICED.has(following.lower) ? 'v' : 'f');
+      i++;
+    } else if (next && !next.diaeresis && lower === 'ο' && next.lower === 'υ') {
+      roman = 'ou';
+      i++;
+    } else if (next && GREEK_CLUSTERS[lower + next.lower]) {
+      roman = GREEK_CLUSTERS[lower + next.lower][i === 0 ? 0 : 1];
+      i++;
+    }
+
+    parts.push(matchLetterCase(char, roman, upper));
+  }
+
+  return parts.join('');
+}
+
+// Longest match against the word table first, then character by character;
+// every syllable is separated by a space
+function romanizeHan(run: string, table: PinyinTable, tones: PinyinTones, unknown: Set<string>): string {
+  const characters = Array.from(run);
+  const units: string[] = [];
+
+  for (let i = 0; i < characters.length;) {
+    let length = Math.min(table.maxWordLength, characters.length - i);
+    for (; length > 1; length--) {
+      const readings = table.words.get(characters.slice(i, i + length).join(''));
+      if (readings) {
+        units.push(...readings.map(reading => formatTones(reading, tones)));
+        break;
+      }
+    }
+
+    if (length <= 1) {
+      const reading = table.characters.get(characters[i]);
+      if (reading) {
+        units.push(formatTones(reading, tones));
+      } else {
+        unknown.add(characters[i]);
+        units.push(characters[i]);
+      }
+      length = 1;
+    }
+    i += length;
+  }
+
+  return units.join(' ');
+}
+
+function formatTones(syllable: string, tones: PinyinTones): string {
+  if (tones === 'marks') return syllable;
+
+  let tone = 5;
+  const bare = syllable.normalize('NFD').replace(/[̄́̌̀]/g, mark => {
+    tone = TONE_MARKS[mark];
+    return '';
+  }).normalize('NFC');
+
+  return tones === 'numbers' ? `${bare}${tone}` : bare;
+}
+
+// Full-width punctuation carries its own spacing, so ASCII punctuation needs a space added
+function replaceCjkPunctuation(text: string): string {
+  return text.replace(CJK_PUNCTUATION, (mark, offset: number) => {
+    if (mark === '　') return ' ';
+
+    if (CJK_OPENING[mark]) {
+      return (isWordCharacter(text[offset - 1]) ? ' ' : '') + CJK_OPENING[mark];
+    }
+    const following = text[offset + 1];
+    return CJK_CLOSING[mark] + (following !== undefined && /[^\s，、。！？：；）”’》」』…]/.test(following) ? ' ' : '');
+  });
+}
+
+function loadPinyinTable(): Promise<PinyinTable> {
+  if (!pinyinTable) {
+    pinyinTable = readPinyinTable();
+    pinyinTable.catch(() => {
+      pinyinTable = null;
+    });
+  }
+  return pinyinTable;
+}
+
+// Both files are TSV with '#' comment lines: character<TAB>reading and word<TAB>readings
+async function readPinyinTable(): Promise<PinyinTable> {
+  const [characterFile, wordFile] = await Promise.all([
+    fs.readFile(path.join(TRANSLITERATION_DIR, 'pinyin.tsv'), 'utf-8'),
+    fs.readFile(path.join(TRANSLITERATION_DIR, 'pinyin-words.tsv'), 'utf-8')
+  ]);
+
+  const table: PinyinTable = { characters: new Map(), words: new Map(), maxWordLength: 1 };
+
+  for (const [character, reading] of parseColumns(characterFile)) {
+    table.characters.set(character, reading);
+  }
+  for (const [word, readings] of parseColumns(wordFile)) {
+    const syllables = readings.split(/\s+/);
+    if (syllables.length !== Array.from(word).length) continue;
+    table.words.set(word, syllables);
+    table.maxWordLength = Math.max(table.maxWordLength, syllables.length);
+  }
+
+  return table;
+}
+
+function parseColumns(content: string): Array<[string, string]> {
+  return content.split(/\r?\n/)
+    .filter(line => line.trim() && !line.startsWith('#'))
+    .map(line => line.split('\t').map(column => column.trim()) as [string, string])
+    .filter(([key, value]) => key && value);
+}
@@ -0,0 +1,4 @@
+// Whether a file system call failed because the file or directory is missing
+export function isFileNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
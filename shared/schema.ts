@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, pgEnum, json } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, pgEnum, json, uniqueIndex } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -37,6 +37,10 @@ export const userPreferences = pgTable("user_preferences", {
 export const processedFiles = pgTable("processed_files", {
   id: serial("id").primaryKey(),
   originalFilename: text("original_filename").notNull(),
+  // Generated from the extracted text on upload
+  title: text("title"),
+  // Named group of files with its own corpus statistics
+  collection: text("collection"),
   fileType: text("file_type").notNull(), // pdf or jpg
   extractedText: text("extracted_text"),
   fileSize: integer("file_size"),
@@ -51,13 +55,14 @@ export const processedFiles = pgTable("processed_files", {
 // Enhanced text operations table
 export const textOperations = pgTable("text_operations", {
   id: serial("id").primaryKey(),
-  operationType: text("operation_type").notNull(), // translation, summary, generation, keywords
+  operationType: text("operation_type").notNull(), // translation, summary, generation, keywords, paraphrase, headline
   inputText: text("input_text").notNull(),
   outputText: text("output_text"),
   metadata: json("metadata"), // JSON object with operation-specific details
   processingTime: integer("processing_time"),
   userId: integer("user_id").references(() => users.id, { onDelete: 'set null' }),
   fileId: integer("file_id").references(() => processedFiles.id, { onDelete: 'set null' }),
+  batchId: text("batch_id"), // shared by the operations of one batch request
   isStarred: boolean("is_starred").default(false),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -87,6 +92,77 @@ export const savedContent = pgTable("saved_content", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Define glossaries: named collections of terms a user wants translated consistently
+export const glossaries = pgTable("glossaries", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  domain: text("domain"), // null applies the glossary to every domain
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Define glossary entries: a forced translation or a term to keep as-is
+export const glossaryEntries = pgTable("glossary_entries", {
+  id: serial("id").primaryKey(),
+  glossaryId: integer("glossary_id").notNull().references(() => glossaries.id, { onDelete: 'cascade' }),
+  sourceTerm: text("source_term").notNull(),
+  targetLanguage: text("target_language"), // null applies the entry to every target language
+  translation: text("translation"), // required unless keepAsIs is set
+  keepAsIs: boolean("keep_as_is").notNull().default(false),
+  caseSensitive: boolean("case_sensitive").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Define translation memory: aligned source/target sentence pairs reused across translations
+export const translationMemory = pgTable("translation_memory", {
+  id: serial("id").primaryKey(),
+  sourceLanguage: text("source_language").notNull(), // ISO 639-1 code
+  targetLanguage: text("target_language").notNull(), // ISO 639-1 code
+  // Provider, domain and glossary the translation was made with; entries are only
+  // reused within the same scope
+  scope: text("scope").notNull().default(''),
+  sourceSegment: text("source_segment").notNull(), // whitespace-normalised source sentence
+  targetSegment: text("target_segment").notNull(),
+  provider: text("provider"),
+  useCount: integer("use_count").notNull().default(1),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  segmentIdx: uniqueIndex("translation_memory_segment_idx").on(table.sourceLanguage, table.targetLanguage, table.scope, table.sourceSegment),
+}));
+
+// Define summary benchmark runs: ROUGE scores of every summarization method on a dataset,
+// kept to compare quality across releases
+export const summaryBenchmarks = pgTable("summary_benchmarks", {
+  id: serial("id").primaryKey(),
+  label: text("label").notNull(), // release or version the run was made with
+  dataset: text("dataset").notNull(),
+  length: text("length").notNull(), // summary length used for every method
+  report: json("report").notNull(), // SummaryBenchmarkReport
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Define corpus statistics: for each scope (all history, one user's or one collection's),
+// how many documents it holds and how many of them contain each term, for IDF weighting
+export const corpusScopes = pgTable("corpus_scopes", {
+  id: serial("id").primaryKey(),
+  scope: text("scope").notNull().unique(), // "global", "user:<id>" or "collection:<name>"
+  documentCount: integer("document_count").notNull().default(0),
+  rebuiltAt: timestamp("rebuilt_at"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const corpusTerms = pgTable("corpus_terms", {
+  id: serial("id").primaryKey(),
+  scope: text("scope").notNull(),
+  term: text("term").notNull(),
+  documentFrequency: integer("document_frequency").notNull().default(0),
+}, (table) => ({
+  scopeTermIdx: uniqueIndex("corpus_terms_scope_term_idx").on(table.scope, table.term),
+}));
+
 // Define table relations
 export const usersRelations = relations(users, ({ many }) => ({
   preferences: many(userPreferences),
@@ -94,6 +170,7 @@ export const usersRelations = relations(users, ({ many }) => ({
   operations: many(textOperations),
   sessions: many(userSessions),
   savedContent: many(savedContent),
+  glossaries: many(glossaries),
 }));
 
 export const processedFilesRelations = relations(processedFiles, ({ one, many }) => ({
@@ -116,6 +193,21 @@ export const textOperationsRelations = relations(textOperations, ({ one, many })
   savedContents: many(savedContent),
 }));
 
+export const glossariesRelations = relations(glossaries, ({ one, many }) => ({
+  user: one(users, {
+    fields: [glossaries.userId],
+    references: [users.id]
+  }),
+  entries: many(glossaryEntries),
+}));
+
+export const glossaryEntriesRelations = relations(glossaryEntries, ({ one }) => ({
+  glossary: one(glossaries, {
+    fields: [glossaryEntries.glossaryId],
+    references: [glossaries.id]
+  }),
+}));
+
 // Enhanced insert schemas
 export const insertUserSchema = createInsertSchema(users)
   .omit({
@@ -163,6 +255,30 @@ export const insertUserPreferenceSchema = createInsertSchema(userPreferences).om
   updatedAt: true,
 });
 
+export const insertGlossarySchema = createInsertSchema(glossaries).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertGlossaryEntrySchema = createInsertSchema(glossaryEntries).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertTranslationMemorySchema = createInsertSchema(translationMemory).omit({
+  id: true,
+  useCount: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertSummaryBenchmarkSchema = createInsertSchema(summaryBenchmarks).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Enhanced types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type LoginUser = z.infer<typeof loginUserSchema>;
@@ -178,28 +294,477 @@ export type TextOperation = typeof textOperations.$inferSelect;
 export type InsertUserSession = z.infer<typeof insertUserSessionSchema>;
 export type UserSession = typeof userSessions.$inferSelect;
 
+export type InsertGlossary = z.infer<typeof insertGlossarySchema>;
+export type Glossary = typeof glossaries.$inferSelect;
+
+export type InsertGlossaryEntry = z.infer<typeof insertGlossaryEntrySchema>;
+export type GlossaryEntry = typeof glossaryEntries.$inferSelect;
+
+export type GlossaryWithEntries = Glossary & { entries: GlossaryEntry[] };
+
+export type InsertTranslationMemoryEntry = z.infer<typeof insertTranslationMemorySchema>;
+export type TranslationMemoryEntry = typeof translationMemory.$inferSelect;
+
+export type InsertSummaryBenchmark = z.infer<typeof insertSummaryBenchmarkSchema>;
+export type SummaryBenchmark = typeof summaryBenchmarks.$inferSelect;
+
+export type CorpusScope = typeof corpusScopes.$inferSelect;
+
 // API request/response types
 export type TranslationRequest = {
   text: string;
+  // A language name, or 'auto' to detect it from the text
   sourceLanguage: string;
   targetLanguage: string;
   formality?: string;
   domain?: string;
+  provider?: string;
+  // How to parse the text; markup, code and URLs are preserved (defaults to 'plain')
+  format?: TranslationFormat;
+  // Reuse and grow the translation memory (defaults to true)
+  useTranslationMemory?: boolean;
+  // Back-translate the result and score the round trip
+  qualityCheck?: boolean;
+  // Minimum similarity percentage for a fuzzy memory match (defaults to 75)
+  fuzzyMatchThreshold?: number;
+  // Add a Latin-script reading of translations into Cyrillic, Greek or Chinese
+  includeTransliteration?: boolean;
+};
+
+export type TranslationFormat = 'plain' | 'markdown' | 'html';
+
+// One text with several targets, several texts, or both; every text goes to every target
+export type BatchTranslationRequest = Omit<TranslationRequest, 'text' | 'targetLanguage'> & {
+  text?: string;
+  texts?: string[];
+  targetLanguage?: string;
+  targetLanguages?: string[];
+};
+
+export type BatchTranslationItem = {
+  // Position of the text in the request
+  index: number;
+  result?: TranslationResponse;
+  // Set instead of result when this item failed
+  error?: string;
+};
+
+export type BatchTranslationResponse = {
+  batchId: string;
+  // Items per target language, in text order
+  results: Record<string, BatchTranslationItem[]>;
+  succeeded: number;
+  failed: number;
+};
+
+// A batch fetched again from the history: its successful translations per
+// target language, in text order
+export type StoredBatchTranslation = {
+  batchId: string;
+  results: Record<string, Array<{ index: number; sourceLanguage: string; translatedText: string }>>;
 };
 
 export type TranslationResponse = {
   translatedText: string;
   characterCount: number;
+  provider: string;
+  // Present when sourceLanguage was 'auto'
+  detectedLanguage?: DetectedLanguage;
+  // Glossary entries that were enforced in this translation
+  glossaryMatches?: GlossaryMatch[];
+  // Sentence-level results, present when the translation memory or quality check was used
+  segments?: TranslationSegment[];
+  // Formality rules that rewrote the translation into the requested register
+  registerRules?: RegisterRuleMatch[];
+  // Round-trip quality estimate, present when qualityCheck was requested
+  quality?: TranslationQuality;
+  // Romanised translation, present when includeTransliteration was requested and the target script is not Latin
+  transliteration?: TransliterationResponse;
+};
+
+// Cyrillic is romanised with ISO 9 (one letter per letter, with diacritics) or
+// BGN/PCGN (digraphs such as zh and kh that English readers pronounce naturally)
+export type CyrillicScheme = 'iso9' | 'bgn';
+
+// How Pinyin marks tones: nǐ hǎo, ni3 hao3 or ni hao
+export type PinyinTones = 'marks' | 'numbers' | 'none';
+
+export type TransliterationScript = 'cyrillic' | 'greek' | 'han';
+
+export type TransliterationRequest = {
+  text: string;
+  cyrillicScheme?: CyrillicScheme;
+  pinyinTones?: PinyinTones;
+};
+
+export type TransliterationResponse = {
+  transliteratedText: string;
+  // Scripts that were found and romanised
+  scripts: TransliterationScript[];
+  // Han characters missing from the Pinyin table, left as they are
+  unknownCharacters?: string[];
+};
+
+export type RegisterRuleMatch = {
+  register: 'formal' | 'informal';
+  from: string;
+  to: string;
+  note?: string;
+  occurrences: number;
+};
+
+export type TranslationSegment = {
+  source: string;
+  translation: string;
+  // 'exact' segments were taken from memory without calling the provider
+  match: 'exact' | 'fuzzy' | 'none';
+  // Similarity to the closest memory entry as a percentage (0 when there is none)
+  score: number;
+  // The closest memory entry for fuzzy matches, offered as a reference translation
+  memorySource?: string;
+  memoryTranslation?: string;
+  // Round-trip quality score (0-100) when a quality check was requested
+  confidence?: number;
+};
+
+export type TranslationQualityMetrics = {
+  // Unigram F1 between the source and the back-translation
+  tokenOverlap: number;
+  // Smoothed sentence BLEU (up to 4-grams) of the back-translation against the source
+  bleu: number;
+  // Character n-gram F-score (n = 1..6, recall weighted with beta = 2)
+  chrF: number;
+  // Share (0-1) of source words copied into the translation unchanged
+  untranslatedRatio: number;
 };
 
+export type TranslationQuality = {
+  // Overall score (0-100), weighted by segment length
+  score: number;
+  metrics: TranslationQualityMetrics;
+  backTranslation: string;
+  suspiciousSegments: SuspiciousSegment[];
+};
+
+export type SuspiciousSegment = {
+  // Position in the response's segments
+  index: number;
+  source: string;
+  translation: string;
+  backTranslation: string;
+  score: number;
+  reasons: string[];
+};
+
+export type GlossaryMatch = {
+  sourceTerm: string;
+  replacement: string;
+  keepAsIs: boolean;
+  occurrences: number;
+};
+
+export type DetectedLanguage = {
+  language: string;
+  code: string;
+  confidence: number;
+  reliable: boolean;
+};
+
+export type LanguageDetectionRequest = {
+  text: string;
+};
+
+export type LanguageDetectionResponse = DetectedLanguage & {
+  candidates: Array<{
+    language: string;
+    code: string;
+    confidence: number;
+  }>;
+};
+
+export type TranslationProviderInfo = {
+  name: string;
+  description: string;
+  available: boolean;
+};
+
+// Sentence ranking: BM25/TF-IDF keyword scores with position weighting, or
+// centrality in a cosine-similarity sentence graph (TextRank, LexRank). Abstractive
+// summaries are written by a language model and fall back to enhanced_tfidf.
+export type SummarizationMethod = 'enhanced_tfidf' | 'textrank' | 'lexrank' | 'abstractive';
+
+// How word variants are merged into one term when scoring: not at all, by
+// Porter2 stem ("model", "models", "modeling" -> "model") or by dictionary lemma
+export type TermNormalization = 'none' | 'stem' | 'lemma';
+
+// What produced a summary: sentence extraction or a language model
+export type SummarizationEngine = 'extractive' | 'abstractive';
+
 export type SummarizationRequest = {
   text: string;
   length: 'short' | 'medium' | 'long';
   style?: 'informative' | 'bullet_points' | 'simplified';
+  // Defaults to 'enhanced_tfidf'
+  method?: SummarizationMethod;
+  // Centre the summary on sentences relevant to this question or topic
+  query?: string;
+  // Hard limits; when any is set the summary is the best set of sentences that
+  // fits all of them and length is ignored
+  maxWords?: number;
+  maxSentences?: number;
+  maxCharacters?: number;
+  // Reword the selected sentences; defaults to true for the informative style only
+  paraphrase?: boolean;
+  // Weigh terms by how rare they are in this corpus scope ("global", "user:<id>"
+  // or "collection:<name>") instead of in the text's own paragraphs
+  corpus?: string;
+  // Defaults to 'none'; stemming and lemmatization apply to English text only
+  normalization?: TermNormalization;
+  // Language of the text (name or ISO 639-1 code) for word segmentation and
+  // stopwords; detected when missing or "auto"
+  language?: string;
+};
+
+// How a query-focused summary interpreted the query
+export type SummaryQueryFocus = {
+  // Content words of the query
+  terms: string[];
+  // Keywords borrowed from the best-matching sentences
+  expansionTerms: string[];
+  // Sentences that matched the query at all; 0 means the summary is not focused
+  matchedSentences: number;
+};
+
+// Where a summary sentence comes from. Positions are -1 when the sentence could
+// not be found in the source text.
+export type SummarySentence = {
+  // The sentence as worded in the summary
+  text: string;
+  // Position among the sentences of the source text
+  index: number;
+  // Character offsets of the source sentence in the request text (end exclusive)
+  start: number;
+  end: number;
+  // Ranking score; only comparable within one summary
+  score: number;
+  // Sentences in the same cluster say nearly the same thing
+  cluster: number;
+  // The summary wording differs from the source sentence
+  paraphrased: boolean;
 };
 
 export type SummarizationResponse = {
   summary: string;
+  // The ranking method that produced the summary
+  method?: SummarizationMethod;
+  engine: SummarizationEngine;
+  // Model that wrote an abstractive summary
+  model?: string;
+  // Why an abstractive request was answered by the extractive engine
+  fallbackReason?: string;
+  // Present when a query was given
+  focus?: SummaryQueryFocus;
+  // Present when a long document was summarized chunk by chunk
+  hierarchy?: {
+    chunks: number;
+    // Summarization passes, including the final one over the chunk summaries
+    levels: number;
+  };
+  // The summary sentence by sentence, in summary order
+  sentences?: SummarySentence[];
+  // ISO 639-1 code of the language the text was processed as
+  language?: string;
+};
+
+// One source of a multi-document summary: pasted text or a processed file
+export type SummaryDocument = {
+  title: string;
+  text: string;
+  fileId?: number;
+};
+
+// At least two sources in total
+export type MultiDocumentSummarizationRequest = {
+  texts?: string[];
+  // Ids of processed files whose extracted text is summarized
+  fileIds?: number[];
+  length: 'short' | 'medium' | 'long';
+  style?: 'informative' | 'bullet_points' | 'simplified';
+  method?: SummarizationMethod;
+  query?: string;
+  paraphrase?: boolean;
+  normalization?: TermNormalization;
+  language?: string;
+};
+
+// A summary sentence and the documents that support it
+export type AttributedSentence = {
+  // The sentence as worded in the summary
+  text: string;
+  // Index in documents of the document the sentence was taken from
+  document: number;
+  // Every document that states the same thing, including document
+  sources: number[];
+  // The summary wording differs from the source sentence
+  paraphrased: boolean;
+};
+
+export type MultiDocumentSummarizationResponse = {
+  // Sentences carry [n] markers that refer to documents (1-based)
+  summary: string;
+  method: SummarizationMethod;
+  documents: Array<{ title: string; fileId?: number; sentences: number }>;
+  sentences: AttributedSentence[];
+  // Groups of similar sentences that occur in more than one document
+  sharedStatements: number;
+  focus?: SummaryQueryFocus;
+  language: string;
+};
+
+export type RougeScore = {
+  precision: number;
+  recall: number;
+  f1: number;
+};
+
+export type SummaryEvaluationRequest = {
+  candidate: string;
+  references: string[];
+  // The summarized text, for the compression ratio
+  source?: string;
+};
+
+export type SummaryEvaluation = {
+  rouge1: RougeScore;
+  rouge2: RougeScore;
+  rougeL: RougeScore;
+  candidateWords: number;
+  // Average over the references
+  referenceWords: number;
+  sourceWords?: number;
+  // Candidate words per source word; present when the source was given
+  compressionRatio?: number;
+  // Candidate words per reference word
+  lengthRatio: number;
+};
+
+export type SummaryBenchmarkRequest = {
+  // Subdirectory of the benchmark data directory; defaults to 'sample'
+  dataset?: string;
+  length?: 'short' | 'medium' | 'long';
+  // Defaults to every method
+  methods?: SummarizationMethod[];
+  // Release the run belongs to; defaults to the package version
+  label?: string;
+};
+
+// Averages of one method over the dataset
+export type BenchmarkMethodSummary = {
+  method: SummarizationMethod;
+  // Documents summarized without an error
+  documents: number;
+  rouge1: number;
+  rouge2: number;
+  rougeL: number;
+  compressionRatio: number;
+  averageMilliseconds: number;
+  // Abstractive requests answered by the extractive engine
+  fallbacks: number;
+  // F1 differences from the previous run on the same dataset and length
+  change?: { rouge1: number; rouge2: number; rougeL: number };
+};
+
+export type BenchmarkDocumentResult = {
+  document: string;
+  method: SummarizationMethod;
+  evaluation?: SummaryEvaluation;
+  milliseconds: number;
+  error?: string;
+};
+
+export type SummaryBenchmarkReport = {
+  dataset: string;
+  length: 'short' | 'medium' | 'long';
+  documents: number;
+  methods: BenchmarkMethodSummary[];
+  results: BenchmarkDocumentResult[];
+  // The run the changes are relative to
+  previous?: { id: number; label: string; createdAt: string | null };
+};
+
+// Rewordings the paraphraser can make
+export type ParaphraseTransformation = 'synonym' | 'clause_reorder' | 'voice';
+
+export type ParaphraseRequest = {
+  text: string;
+  // The same text, seed and strength always give the same paraphrase; defaults to a hash of the text
+  seed?: number;
+  // Chance (0 to 1) that each applicable change is made; defaults to 0.5
+  strength?: number;
+  // Defaults to all of them
+  transformations?: ParaphraseTransformation[];
+  // Only English text can be paraphrased; detected when missing
+  language?: string;
+};
+
+export type ParaphraseChange = {
+  type: ParaphraseTransformation;
+  // A word for synonyms, the whole sentence for the other transformations
+  original: string;
+  replacement: string;
+};
+
+export type ParaphraseResponse = {
+  paraphrasedText: string;
+  // The seed used, to reproduce the result
+  seed: number;
+  strength: number;
+  changes: ParaphraseChange[];
+};
+
+export type HeadlineCapitalization = 'sentence' | 'title';
+
+// Where a headline candidate comes from
+export type HeadlineSource = 'heading' | 'lead_sentence' | 'key_sentence' | 'keyphrases';
+
+export type HeadlineRequest = {
+  text: string;
+  // Candidates to return; defaults to 5
+  count?: number;
+  // Defaults to 12
+  maxWords?: number;
+  // Defaults to sentence case
+  capitalization?: HeadlineCapitalization;
+  // Headlines are compressed only for English; other languages use short
+  // sentences as written. Detected when missing.
+  language?: string;
+};
+
+export type HeadlineCandidate = {
+  text: string;
+  // Higher is better; candidates are sorted by it
+  score: number;
+  source: HeadlineSource;
+};
+
+export type HeadlineResponse = {
+  headlines: HeadlineCandidate[];
+  // The keyphrases the candidates were scored on
+  keyphrases: string[];
+  language: string;
+};
+
+// A processed file as listed for selection, without its text
+export type ProcessedFileSummary = Pick<ProcessedFile, 'id' | 'originalFilename' | 'title' | 'fileType' | 'createdAt'> & {
+  characters: number;
+};
+
+// Progress of a hierarchical summarization, reported after every chunk
+export type SummaryProgress = {
+  stage: 'map' | 'reduce';
+  level: number;
+  completed: number;
+  total: number;
 };
 
 export type ContentGenerationRequest = {
@@ -214,10 +779,30 @@ export type ContentGenerationResponse = {
   generatedContent: string;
 };
 
+// The TF-IDF methods use the text's paragraphs (or sentences) as the corpus;
+// RAKE and YAKE score words from statistics of the single text; bert_based ranks
+// phrases by word-embedding similarity to the text
+export type KeywordExtractionMethod = 'enhanced_tfidf' | 'bert_based' | 'standard_tfidf' | 'rake' | 'yake';
+
 export type KeywordExtractionRequest = {
   text: string;
   count: number;
-  method: 'enhanced_tfidf' | 'bert_based' | 'standard_tfidf';
+  method: KeywordExtractionMethod;
+  // Corpus scope for the IDF of the TF-IDF methods, as for summarization
+  corpus?: string;
+  // Variants count as one keyword, shown in their most frequent written form
+  normalization?: TermNormalization;
+  // As for summarization
+  language?: string;
+};
+
+// A corpus statistics scope as listed by GET /api/corpus
+export type CorpusScopeSummary = {
+  scope: string;
+  documentCount: number;
+  terms: number;
+  rebuiltAt: Date | null;
+  updatedAt: Date | null;
 };
 
 export type KeywordExtractionResponse = {
@@ -225,16 +810,24 @@ export type KeywordExtractionResponse = {
     keyword: string;
     score: number;
   }>;
+  // The method that ran: bert_based reports embedding_mmr, or
+  // enhanced_tfidf_fallback when no word embeddings are installed
   method: string;
+  // Why embedding extraction fell back to TF-IDF
+  fallbackReason?: string;
+  language?: string;
 };
 
 export type FileProcessingRequest = {
   fileType: 'pdf' | 'jpg';
   operation?: 'translation' | 'summarization' | 'keyword_extraction';
+  sourceLanguage?: string;
   targetLanguage?: string;
   summaryLength?: 'short' | 'medium' | 'long';
   keywordCount?: number;
-  keywordMethod?: 'enhanced_tfidf' | 'bert_based' | 'standard_tfidf';
+  keywordMethod?: KeywordExtractionMethod;
+  // Collection the file's text is counted in for corpus statistics
+  collection?: string;
 };
 
 export type FileProcessingResponse = {
@@ -242,6 +835,8 @@ export type FileProcessingResponse = {
   processedText?: string;
   operation?: string;
   keywords?: Array<{keyword: string; score: number}>;
+  detectedLanguage?: DetectedLanguage;
+  warnings?: string[];
 };
 
 export type AlgorithmRecommendationRequest = {